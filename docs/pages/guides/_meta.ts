@@ -1,5 +1,6 @@
 export default {
   "cloud-provider": "Cloud Provider",
   "tool-calling": "Tool Calling",
-  "agentic-workflows": "Agentic Workflows"
+  "agentic-workflows": "Agentic Workflows",
+  "testing": "Testing"
 }
@@ -2,14 +2,17 @@ import type {
   AgentSession, 
   Workflow,
   WorkflowIterationResponse, 
+  WorkflowRunOptions,
+  ToolApprovalDecision,
 } from '../types/agent-session';
 import type { Session, CreateSessionArgs, TokenStreamChunk, ModelResponse } from '../types/session';
 import type { GenerateArgs, Tool } from '../types/worker';
+import type { WorkflowSnapshot } from '../types/workflow-state';
 import { createSession } from './session';
 import { WorkflowExecutor } from '../workflow/executor';
 import { StepExecutor } from '../workflow/step-executor';
 import { WorkflowStateManager } from '../workflow/workflow-state';
-import { InferenceProviderConfig } from '../types/provider';
+import { InferenceProviderConfig, ModelRoute, ModelRouterConfig } from '../types/provider';
 import { MemoryConfig } from '../types/memory';
 import { EventEmitter } from '../utils/event-emitter';
 import { InferenceProviderManager } from '../providers/manager';
@@ -97,8 +100,8 @@ export class AgentSessionImpl implements AgentSession {
    * 
    * @example
    * ```typescript
-   * for await (const chunk of session.createResponse({ prompt: "Hello!" })) {
-   *   console.log(chunk.token);
+   * for await (const part of session.createResponse({ prompt: "Hello!" })) {
+   *   if (part.type === 'text-delta') console.log(part.text);
    * }
    * ```
    */
@@ -121,6 +124,30 @@ export class AgentSessionImpl implements AgentSession {
     await this.session.registerModels(models);
   }
 
+  /**
+   * Registers named routes that fall back between models.
+   * 
+   * @param routes - The routes, whose names can be used as model names
+   * @returns Promise that resolves when the routes are registered
+   */
+  async registerRoutes(
+    routes: ModelRoute[]
+  ): Promise<void> {
+    await this.session.registerRoutes(routes);
+  }
+
+  /**
+   * Registers model routers that pick a model or route per request.
+   * 
+   * @param routers - The routers, whose names can be used as model names
+   * @returns Promise that resolves when the routers are registered
+   */
+  async registerRouters(
+    routers: ModelRouterConfig[]
+  ): Promise<void> {
+    await this.session.registerRouters(routers);
+  }
+
   /**
    * Disposes of this agent session, cleaning up all resources including
    * the underlying session, registered tools, and workflow executors.
@@ -160,6 +187,7 @@ export class AgentSessionImpl implements AgentSession {
    * @param prompt - The initial user prompt to start the workflow
    * @param workflow - Configuration for the workflow 
    * @param memoryConfig - Configuration for the memory
+   * @param options - Run options, e.g. a signal to cancel the workflow or storage to persist it
    * @returns An async iterable yielding responses for each workflow iteration
    * @throws Error if the session has been disposed
    * 
@@ -173,10 +201,64 @@ export class AgentSessionImpl implements AgentSession {
   async* runWorkflow(
     prompt: string,
     workflow: Workflow,
-    memoryConfig?: MemoryConfig
+    memoryConfig?: MemoryConfig,
+    options?: WorkflowRunOptions
+  ): AsyncIterable<WorkflowIterationResponse> {
+    if (this.disposed) throw new Error('Agent session disposed');
+    yield* this.workflowExecutor.execute(prompt, workflow, memoryConfig, options);
+  }
+
+  /**
+   * Continues a workflow from a snapshot saved by a previous run, e.g. after
+   * the page reloaded. The iteration that was running when the snapshot was
+   * taken runs again.
+   * 
+   * @param snapshot - The snapshot to continue from
+   * @param workflow - The workflow the snapshot was taken from, with its tools
+   * @param memoryConfig - Configuration for the memory
+   * @param options - Run options; pass the same storage and run ID to keep persisting the run
+   * @returns An async iterable yielding responses for each workflow iteration
+   * @throws Error if the session has been disposed
+   * @throws {WorkflowValidationError} If the snapshot belongs to another workflow
+   * 
+   * @example
+   * ```typescript
+   * const snapshot = await storage.load('trip');
+   * if (snapshot) {
+   *   for await (const iteration of session.resumeWorkflow(snapshot, workflow, undefined, { storage, runId: 'trip' })) {
+   *     console.log(`Step ${iteration.stepId}:`, iteration.content);
+   *   }
+   * }
+   * ```
+   */
+  async* resumeWorkflow(
+    snapshot: WorkflowSnapshot,
+    workflow: Workflow,
+    memoryConfig?: MemoryConfig,
+    options?: WorkflowRunOptions
   ): AsyncIterable<WorkflowIterationResponse> {
     if (this.disposed) throw new Error('Agent session disposed');
-    yield* this.workflowExecutor.execute(prompt, workflow, memoryConfig);
+    yield* this.workflowExecutor.resume(snapshot, workflow, memoryConfig, options);
+  }
+
+  /**
+   * Resumes a workflow paused on a tool call that requires approval.
+   * 
+   * @param approvalId - The ID of the `pendingApproval` yielded by runWorkflow()
+   * @param decision - Approve the call, run it with edited arguments, or reject it
+   * @throws Error if no approval with the given ID is pending
+   * 
+   * @example
+   * ```typescript
+   * for await (const iteration of session.runWorkflow("Email the team", workflow)) {
+   *   if (iteration.pendingApproval) {
+   *     session.resolveToolApproval(iteration.pendingApproval.id, { action: 'approve' });
+   *   }
+   * }
+   * ```
+   */
+  resolveToolApproval(approvalId: string, decision: ToolApprovalDecision): void {
+    this.workflowStateManager.resolveToolApproval(approvalId, decision);
   }
 
   /**
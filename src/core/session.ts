@@ -1,10 +1,10 @@
-import { ModelResponse, type Session, type TokenStreamChunk } from '../types/session';
+import { ModelResponse, type Session, type StreamPart } from '../types/session';
 import { GenerateArgs } from '../types/worker';
 import { InferenceProviderManager } from '../providers/manager';
 import { logger } from '../utils/logger';
 import { EventEmitter } from '../utils/event-emitter';
 import { EventHandler, UnsubscribeFn } from '../types/events';
-import { InferenceProviderConfig } from '../types/provider';
+import { InferenceProviderConfig, ModelRoute, ModelRouterConfig } from '../types/provider';
 import { CreateSessionArgs } from '../types/session';
 
 /**
@@ -13,6 +13,8 @@ import { CreateSessionArgs } from '../types/session';
  * 
  * @param args - Configuration for the session
  * @param args.models - Optional record of models to register at initialization
+ * @param args.routes - Optional named routes that fall back between models
+ * @param args.routers - Optional model routers that pick a model per request
  * @returns A Promise resolving to a fully configured Session instance
  */
 export async function createSession(args: CreateSessionArgs = {}): Promise<Session> {
@@ -21,8 +23,12 @@ export async function createSession(args: CreateSessionArgs = {}): Promise<Sessi
   const eventEmitter = new EventEmitter();
   const inferenceProviderManager = new InferenceProviderManager(eventEmitter);
 
+  // Routes come first, so models of routes that fail to initialize don't fail the session
+  if (args.routes) await inferenceProviderManager.registerRoutes(args.routes);
+
   // Register any models provided at initialization time
   if (args.models) await inferenceProviderManager.registerModels(args.models);
+  if (args.routers) await inferenceProviderManager.registerRouters(args.routers);
 
   let disposed = false;
 
@@ -36,18 +42,39 @@ export async function createSession(args: CreateSessionArgs = {}): Promise<Sessi
     await inferenceProviderManager.registerModels(models);
   }
 
+  /**
+   * Registers named routes that fall back between models.
+   * 
+   * @param routes - The routes, whose names can be used as model names
+   * @returns Promise that resolves when the routes are registered
+   */
+  async function registerRoutes(routes: ModelRoute[]): Promise<void> {
+    await inferenceProviderManager.registerRoutes(routes);
+  }
+
+  /**
+   * Registers model routers that pick a model or route per request.
+   * 
+   * @param routers - The routers, whose names can be used as model names
+   * @returns Promise that resolves when the routers are registered
+   */
+  async function registerRouters(routers: ModelRouterConfig[]): Promise<void> {
+    await inferenceProviderManager.registerRouters(routers);
+  }
+
   /**
    * Generates a streaming response from the LLM for the given prompt and configuration.
    * 
    * @param args - Generation arguments
-   * @param args.model - Name of the model to use for generation (must be registered)
+   * @param args.model - Name of the model, route or router to use for generation (must be registered)
    * @param args.messages - Array of conversation messages
    * @param args.tools - Optional array of tools available for function calling
    * @param args.maxTokens - Optional maximum number of tokens to generate
    * @param args.temperature - Optional sampling temperature (0-1)
    * @param args.topP - Optional nucleus sampling parameter
+   * @param args.signal - Optional abort signal that stops the generation
    * 
-   * @returns Async iterable yielding token chunks as they are generated
+   * @returns The complete response, or a stream of parts as they are generated
    * 
    * @throws {Error} If session is disposed
    * @throws {Error} If model is undefined
@@ -56,8 +83,8 @@ export async function createSession(args: CreateSessionArgs = {}): Promise<Sessi
    * 
    * @example
    * ```typescript
-   * for await (const chunk of session.createResponse({ prompt: "Hello!" })) {
-   *   console.log(chunk.token);
+   * for await (const part of session.createResponse({ prompt: "Hello!" })) {
+   *   if (part.type === 'text-delta') console.log(part.text);
    * }
    * ```
    */
@@ -72,8 +99,9 @@ export async function createSession(args: CreateSessionArgs = {}): Promise<Sessi
       // Get provider for generation
       const provider = await inferenceProviderManager.getProvider(model);
 
-      // Disable streaming for tool use
-      if (args.tools) args.stream = false;
+      // Responses with tools are complete unless the caller explicitly
+      // asks for a stream, where tool calls arrive as tool-call-delta parts
+      if (args.tools && args.stream !== true) args.stream = false;
       
       logger.session?.debug('Creating response', { args });
       const generateResponse = await provider.generate(args);
@@ -144,14 +172,14 @@ export async function createSession(args: CreateSessionArgs = {}): Promise<Sessi
    * @param stream - The stream to wrap
    * @param modelName - The name of the model
    * @param startTime - The start time of the generation
-   * @returns An async iterable yielding token chunks with event emission
+   * @returns An async iterable yielding stream parts with event emission
    */
   async function* wrapStreamWithEvents(
-    stream: AsyncIterable<TokenStreamChunk>,
+    stream: AsyncIterable<StreamPart>,
     modelName: string,
     startTime: number,
     messageCount: number
-  ): AsyncIterable<TokenStreamChunk> {
+  ): AsyncIterable<StreamPart> {
     let tokenCount = 0;
     
     try {
@@ -162,26 +190,31 @@ export async function createSession(args: CreateSessionArgs = {}): Promise<Sessi
         timestamp: startTime
       });
       
-      for await (const chunk of stream) {
-        if (!chunk.isLast) {
+      for await (const part of stream) {
+        if (part.type === 'text-delta') {
+          // Emit token event
+          eventEmitter.emit({
+            type: 'generation:token',
+            token: part.text,
+            tokenId: part.tokenId ?? tokenCount,
+            isFirst: tokenCount === 0,
+            isLast: false,
+            ...(part.ttfbMs !== undefined && { ttfbMs: part.ttfbMs }),
+            timestamp: Date.now()
+          });
           tokenCount++;
+        } else if (part.type === 'error') {
+          eventEmitter.emit({
+            type: 'generation:error',
+            error: part.error.message,
+            timestamp: Date.now()
+          });
         }
         
-        // Emit token event
-        eventEmitter.emit({
-          type: 'generation:token',
-          token: chunk.token,
-          tokenId: chunk.tokenId,
-          isFirst: chunk.isFirst,
-          isLast: chunk.isLast,
-          ...(chunk.ttfbMs !== undefined && { ttfbMs: chunk.ttfbMs }),
-          timestamp: Date.now()
-        });
-        
-        yield chunk;
+        yield part;
         
-        // If this is the last chunk, emit complete event
-        if (chunk.isLast) {
+        // The finish part ends the stream, emit complete event
+        if (part.type === 'finish') {
           const duration = Date.now() - startTime;
           eventEmitter.emit({
             type: 'generation:complete',
@@ -245,6 +278,8 @@ export async function createSession(args: CreateSessionArgs = {}): Promise<Sessi
   // Assemble the session object with all public methods and internal properties
   const session: Session = {
     registerModels,
+    registerRoutes,
+    registerRouters,
     createResponse,
     dispose,
     on,
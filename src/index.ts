@@ -13,10 +13,16 @@ export type {
   WorkerInitProgressEvent,
   WorkerInitCompleteEvent,
   WorkerDisposedEvent,
+  WorkerUnloadedEvent,
   GenerationStartEvent,
   GenerationTokenEvent,
   GenerationCompleteEvent,
   GenerationErrorEvent,
+  GenerationQueuedEvent,
+  GenerationDequeuedEvent,
+  RouteFallbackEvent,
+  RouteResolvedEvent,
+  RouteSelectedEvent,
   MemoryCheckpointEvent,
   MemoryRollbackEvent,
   MemoryCompressedEvent,
@@ -24,13 +30,19 @@ export type {
   ToolCallStartEvent,
   ToolCallCompleteEvent,
   ToolCallErrorEvent,
+  ToolCallTimeoutEvent,
+  ToolApprovalRequestedEvent,
+  ToolApprovalResolvedEvent,
   WorkflowStartEvent,
   WorkflowStepStartEvent,
   WorkflowStepCompleteEvent,
   WorkflowStepRetryEvent,
+  WorkflowStepBranchEvent,
+  WorkflowStepLoopEvent,
   WorkflowCompleteEvent,
   WorkflowTimeoutEvent,
   WorkflowErrorEvent,
+  WorkflowSnapshotErrorEvent,
   ErrorEvent
 } from './types/events';
 
@@ -44,6 +56,7 @@ export {
 export type {
   MemoryMessage,
   MemoryMetrics,
+  MemorySnapshot,
   MemoryFormatter,
   MemoryCompressor,
   ToolResult,
@@ -54,15 +67,54 @@ export type {
 
 export type { 
   WorkflowStep,
+  WorkflowStepNext,
+  WorkflowStepRoute,
+  WorkflowStepRouter,
+  WorkflowStepLoop,
+  WorkflowLoopJudge,
   WorkflowIterationResponse,
+  WorkflowToolCall,
+  WorkflowToolApproval,
+  ToolApprovalDecision,
   WorkflowStepError,
   Workflow,
+  WorkflowRunOptions,
   AgentSession
 } from './types/agent-session';
+export { WorkflowValidationError, WorkflowCancelledError } from './types/agent-session';
+export type {
+  WorkflowSnapshot,
+  WorkflowStorage
+} from './types/workflow-state';
+
+// Workflow snapshot storage
+export {
+  InMemoryWorkflowStorage,
+  LocalStorageWorkflowStorage,
+  IndexedDBWorkflowStorage,
+  FileSystemWorkflowStorage
+} from './workflow/storage';
+export type {
+  LocalStorageWorkflowStorageOptions,
+  IndexedDBWorkflowStorageOptions
+} from './workflow/storage';
 export type {
   TokenStreamChunk,
+  StreamPart,
+  TextDeltaPart,
+  ReasoningDeltaPart,
+  ToolCallDeltaPart,
+  UsagePart,
+  FinishPart,
+  ErrorPart,
+  NonStreamingResponse,
+  StreamingResponse,
+  ModelResponse,
   Session,
 } from './types/session';
+
+// Stream collection
+export { StreamCollector, collectStream } from './processing/content/stream-collector';
 export type {
   EngineKind,
   WorkerInstance,
@@ -72,8 +124,18 @@ export type {
   Model,
   ToolDefinition,
   Tool,
+  ToolExecutionContext,
+  ToolArgumentError,
   GenerateArgs
 } from './types/worker';
+export { ToolArgumentValidationError, ToolTimeoutError } from './types/worker';
+
+// Tool argument validation
+export { ToolArgumentValidator } from './processing/tools/validator';
+export type {
+  ToolArgumentValidatorOptions,
+  ToolArgumentValidationResult
+} from './processing/tools/validator';
 
 // Provider system exports
 export type {
@@ -84,6 +146,63 @@ export type {
   ProviderConfigurationError,
   ProviderAPIError
 } from './types/provider';
+// Matched with instanceof, e.g. to tell a cancelled request from a failed one
+export { ProviderCancelledError, ProviderInitializationError } from './types/provider';
+export type {
+  BaseProviderConfig,
+  CloudProviderConfig,
+  DeviceProviderConfig,
+  InferenceProviderConfig,
+  InferenceProviderConfigMap,
+  InferenceProviderFactory,
+  ProviderConfigFor,
+  ModelRoute,
+  FallbackTrigger,
+  ModelRouterConfig,
+  RoutingRule,
+  RoutingCondition,
+  RoutingRequest,
+  DeviceCapabilities,
+  ModelCost,
+  MockProviderConfig,
+  MockResponse,
+  MockToolCall
+} from './types/provider';
+// Custom provider runtimes
+export { registerProviderFactory } from './providers/registry';
+export type { EventEmitter } from './utils/event-emitter';
+// Device workers shared by several models
+export { WorkerPool } from './providers/worker-pool';
+export type { WorkerPoolOptions, WorkerPoolStats } from './providers/worker-pool';
+// Scripted provider for tests
+export { MockProvider } from './providers/mock';
+// Device model stream parsing
+export { Qwen3StreamParser } from './providers/device-model-config';
+export type {
+  StreamParser,
+  StreamParserEvent,
+  StreamParserFactory
+} from './providers/device-model-config';
+
+// Reference proxy server for the cloud provider
+export {
+  ProxyHandler,
+  validateProxyRequest,
+  formatStreamPart,
+  VendorProxyAdapter,
+  createAnthropicAdapter,
+  createOpenAIAdapter,
+  createOpenAIChatAdapter,
+  createFetchHandler,
+  createNodeHandler
+} from './server';
 export type {
-  DeviceProviderConfig
-} from './types/provider';
\ No newline at end of file
+  ProxyRequest,
+  ProxyAdapter,
+  ProxyHandlerOptions,
+  ProxyResult,
+  VendorAdapterOptions,
+  HttpHandlerOptions,
+  NodeProxyRequest,
+  NodeProxyResponse
+} from './server';
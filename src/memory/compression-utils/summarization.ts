@@ -7,6 +7,7 @@ import type {
 } from '../../types/memory';
 import type { Session } from '../../types/session';
 import { ContentProcessor } from '../../processing/content/processor';
+import { collectStream } from '../../processing/content/stream-collector';
 import { TokenCounter } from '../../utils/token-counter';
 import { logger } from '../../utils/logger';
 import { MessageContent } from '../../types/worker';
@@ -173,11 +174,7 @@ export class Summarization implements MemoryCompressor {
       });
       
       if (response.type === 'streaming') {
-        for await (const chunk of response.stream) {
-          if (!chunk.isLast) {
-            summary += chunk.token;
-          }
-        }
+        summary = (await collectStream(response.stream)).content;
       } else {
         summary = response.content;
       }
@@ -13,6 +13,7 @@ export type { FormatterConfig } from './formatters/default-formatter';
 export type {
   MemoryMessage,
   MemoryMetrics,
+  MemorySnapshot,
   MemoryFormatter,
   MemoryCompressor,
   ToolResult,
@@ -6,6 +6,7 @@ import type {
   MemoryMessage,
   MemoryConfig,
   MemoryMetrics,
+  MemorySnapshot,
   MemoryMessageType,
   MemoryCompressor,
   SlidingWindowConfig,
@@ -30,6 +31,7 @@ export class MemoryManager {
   private session?: Session;
   private messages: MemoryMessage[] = [];
   private checkpoints: Map<string, MemoryMessage[]> = new Map();
+  private branches: Map<string, MemoryMessage[]> = new Map();
   private compressionCount = 0;
   private lastCompressionTime: number | undefined;
 
@@ -75,12 +77,14 @@ export class MemoryManager {
    * 
    * @param messages - The messages to add to memory
    * @param skipCompression - Whether to skip compression
+   * @param branchId - Optional branch to add the messages to instead of the main history
    * @returns A promise that resolves when the messages have been added to memory
    */
-  async addMessages(messages: MemoryMessage[], skipCompression = false): Promise<void> {
+  async addMessages(messages: MemoryMessage[], skipCompression = false, branchId?: string): Promise<void> {
     logger.agent.debug('Adding messages to memory', {
       messageCount: messages.length,
-      skipCompression
+      skipCompression,
+      branchId
     });
     messages = messages.map(m => ({
       ...m,
@@ -91,6 +95,13 @@ export class MemoryManager {
       }
     }));
 
+    // Branch messages are compressed once the branch is merged
+    if (branchId) {
+      this.getBranch(branchId).push(...messages);
+      logger.agent.verbose('Messages added to memory branch', { branchId, messages });
+      return;
+    }
+
     await this.messages.push(...messages);
     logger.agent.verbose('Messages added to memory', { messages });
     
@@ -112,12 +123,47 @@ export class MemoryManager {
   /**
    * Retrieve messages from memory and format them for model consumption
    * 
+   * @param branchId - Optional branch whose messages are appended to the main history
    * @returns A promise that resolves with the formatted messages
    */
-  async getMessages(): Promise<Message[]> {
+  async getMessages(branchId?: string): Promise<Message[]> {
+    if (branchId) {
+      return this.formatter.formatMessages([...this.messages, ...this.getBranch(branchId)]);
+    }
     return this.formatter.formatMessages(this.messages);
   }
-  
+
+  /**
+   * Create a branch that collects messages separately from the main history.
+   * Readers of the branch see the main history followed by the branch messages.
+   * 
+   * @param id - The ID of the branch
+   */
+  createBranch(id: string): void {
+    this.branches.set(id, []);
+    logger.agent.debug('Created memory branch', {
+      branchId: id,
+      messageCount: this.messages.length
+    });
+  }
+
+  /**
+   * Append a branch's messages to the main history and remove the branch
+   * 
+   * @param id - The ID of the branch
+   * @param skipCompression - Whether to skip compression after merging
+   * @returns A promise that resolves when the branch has been merged
+   */
+  async mergeBranch(id: string, skipCompression = false): Promise<void> {
+    const branchMessages = this.getBranch(id);
+    this.branches.delete(id);
+    logger.agent.debug('Merging memory branch', {
+      branchId: id,
+      messageCount: branchMessages.length
+    });
+    await this.addMessages(branchMessages, skipCompression);
+  }
+
   /**
    * Get current memory metrics
    * 
@@ -145,11 +191,48 @@ export class MemoryManager {
   clear(): void {
     this.messages = [];
     this.checkpoints.clear();
+    this.branches.clear();
     this.compressionCount = 0;
     this.lastCompressionTime = undefined;
     logger.agent.debug('Memory cleared');
   }
 
+  /**
+   * Create a serializable copy of the main history and checkpoints.
+   * Branches are not included, they only exist while steps run.
+   * 
+   * @returns The memory snapshot
+   */
+  createSnapshot(): MemorySnapshot {
+    const snapshot: MemorySnapshot = structuredClone({
+      messages: this.messages,
+      checkpoints: Object.fromEntries(this.checkpoints),
+      compressionCount: this.compressionCount
+    });
+    if (this.lastCompressionTime !== undefined) {
+      snapshot.lastCompressionTime = this.lastCompressionTime;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Replace the memory contents with a previously created snapshot
+   * 
+   * @param snapshot - The snapshot to restore
+   */
+  restoreSnapshot(snapshot: MemorySnapshot): void {
+    const { messages, checkpoints } = structuredClone(snapshot);
+    this.messages = messages;
+    this.checkpoints = new Map(Object.entries(checkpoints));
+    this.branches.clear();
+    this.compressionCount = snapshot.compressionCount;
+    this.lastCompressionTime = snapshot.lastCompressionTime;
+    logger.agent.debug('Memory restored from snapshot', {
+      messageCount: this.messages.length,
+      checkpointCount: this.checkpoints.size
+    });
+  }
+
   /**
    * Rollback to a previously created checkpoint
    * 
@@ -164,12 +247,15 @@ export class MemoryManager {
    * Create a checkpoint for potential rollback
    * 
    * @param id - The ID of the checkpoint
+   * @param branchId - Optional branch to checkpoint instead of the main history
    */
-  createCheckpoint(id: string): void {
-    this.checkpoints.set(id, [...this.messages]);
+  createCheckpoint(id: string, branchId?: string): void {
+    const messages = branchId ? this.getBranch(branchId) : this.messages;
+    this.checkpoints.set(id, [...messages]);
     logger.agent.debug('Created checkpoint', { 
       checkpoint: id, 
-      messageCount: this.messages.length 
+      branchId,
+      messageCount: messages.length 
     });
   }
   
@@ -177,14 +263,21 @@ export class MemoryManager {
    * Rollback to a previously created checkpoint
    * 
    * @param id - The ID of the checkpoint
+   * @param branchId - Optional branch to roll back instead of the main history
    */
-  rollbackToCheckpoint(id: string): void {
+  rollbackToCheckpoint(id: string, branchId?: string): void {
     const checkpointMessages = this.checkpoints.get(id);
     if (checkpointMessages) {
-      this.messages = [...checkpointMessages];
+      if (branchId) {
+        const branch = this.getBranch(branchId);
+        branch.splice(0, branch.length, ...checkpointMessages);
+      } else {
+        this.messages = [...checkpointMessages];
+      }
       logger.agent.debug('Rolled back to checkpoint', { 
         checkpoint: id, 
-        messageCount: this.messages.length 
+        branchId,
+        messageCount: checkpointMessages.length 
       });
     } else {
       logger.agent.warn('Checkpoint not found', { checkpoint: id });
@@ -240,6 +333,20 @@ export class MemoryManager {
     return this.getMetrics().estimatedTokens;
   }
   
+  /**
+   * Get the messages of a branch
+   * 
+   * @param id - The ID of the branch
+   * @returns The branch messages
+   */
+  private getBranch(id: string): MemoryMessage[] {
+    const branch = this.branches.get(id);
+    if (!branch) {
+      throw new Error(`Memory branch not found: ${id}`);
+    }
+    return branch;
+  }
+
   /**
    * Check memory pressure and compress if needed
    */
@@ -1,2 +1,3 @@
 // Content processing
 export { ContentProcessor, type ProcessedContent } from './processor';
+export { StreamCollector, collectStream } from './stream-collector';
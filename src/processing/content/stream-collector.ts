@@ -0,0 +1,101 @@
+import type { NonStreamingResponse, StreamPart } from '../../types/session';
+
+/**
+ * Collects the parts of a streamed response into a complete response.
+ *
+ * Text and reasoning deltas are concatenated, and tool call deltas are
+ * joined by their index. An error part is thrown when it is pushed.
+ */
+export class StreamCollector {
+  private content = '';
+  private reasoning = '';
+  private toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+  private usage: NonStreamingResponse['usage'];
+  private finishReason: NonStreamingResponse['finishReason'];
+
+  /**
+   * Adds a part of the stream.
+   *
+   * @param part - The stream part
+   * @throws The error of an error part
+   */
+  push(part: StreamPart): void {
+    switch (part.type) {
+      case 'text-delta':
+        this.content += part.text;
+        break;
+      case 'reasoning-delta':
+        this.reasoning += part.text;
+        break;
+      case 'tool-call-delta': {
+        const toolCall = this.toolCalls.get(part.index) ?? { id: '', name: '', arguments: '' };
+        toolCall.id ||= part.id ?? '';
+        toolCall.name ||= part.name ?? '';
+        toolCall.arguments += part.argumentsDelta;
+        this.toolCalls.set(part.index, toolCall);
+        break;
+      }
+      case 'usage':
+        this.usage = part.usage;
+        break;
+      case 'finish':
+        this.finishReason = part.finishReason;
+        break;
+      case 'error':
+        throw part.error;
+    }
+  }
+
+  /**
+   * Builds the complete response from everything pushed so far.
+   *
+   * @returns The response with content, tool calls, reasoning, usage and finish reason
+   */
+  toResponse(): NonStreamingResponse {
+    const response: NonStreamingResponse = {
+      type: 'complete',
+      content: this.content.trim(),
+    };
+    if (this.toolCalls.size > 0) {
+      response.toolCalls = [...this.toolCalls.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([index, toolCall]) => ({
+          id: toolCall.id || `call_${Date.now()}_${index}`,
+          type: 'function',
+          function: { name: toolCall.name, arguments: toolCall.arguments || '{}' }
+        }));
+    }
+    const reasoning = this.reasoning.trim();
+    if (reasoning) {
+      response.reasoning = reasoning;
+    }
+    if (this.usage) {
+      response.usage = this.usage;
+    }
+    const finishReason = this.finishReason ?? (response.toolCalls ? 'tool_calls' : undefined);
+    if (finishReason) {
+      response.finishReason = finishReason;
+    }
+    return response;
+  }
+}
+
+/**
+ * Reads a stream to its end and collects it into a complete response.
+ *
+ * @param stream - The streamed response parts
+ * @param onPart - Optional callback invoked with each part as it arrives
+ * @returns A promise that resolves with the complete response
+ * @throws The error of an error part, or any error the stream throws
+ */
+export async function collectStream(
+  stream: AsyncIterable<StreamPart>,
+  onPart?: (part: StreamPart) => void
+): Promise<NonStreamingResponse> {
+  const collector = new StreamCollector();
+  for await (const part of stream) {
+    onPart?.(part);
+    collector.push(part);
+  }
+  return collector.toResponse();
+}
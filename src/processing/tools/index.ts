@@ -1,3 +1,10 @@
 // Tool call parsing
 export { ToolParser, type ParsedToolCall } from './parser';
 export * from './parsers';
+
+// Tool argument validation
+export {
+  ToolArgumentValidator,
+  type ToolArgumentValidatorOptions,
+  type ToolArgumentValidationResult
+} from './validator';
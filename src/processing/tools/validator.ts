@@ -0,0 +1,226 @@
+import type { ToolArgumentError, ToolDefinition } from '../../types/worker';
+
+/**
+ * The subset of JSON Schema that tool arguments are checked against.
+ */
+interface JSONSchemaNode {
+  type?: string | string[];
+  properties?: Record<string, JSONSchemaNode>;
+  required?: string[];
+  enum?: unknown[];
+  items?: JSONSchemaNode;
+  additionalProperties?: boolean | JSONSchemaNode;
+}
+
+export interface ToolArgumentValidatorOptions {
+  coerce?: boolean; // Convert values like "42" or "true" to the schema type (default: true)
+}
+
+export interface ToolArgumentValidationResult {
+  valid: boolean;
+  args: Record<string, any>;
+  errors: ToolArgumentError[];
+}
+
+/**
+ * Validates tool call arguments against the JSON Schema in a tool definition.
+ *
+ * Supports types, required properties, enums, nested objects and arrays.
+ * With coercion enabled, values the model produced in the wrong type are
+ * converted where the intent is unambiguous, e.g. "3" for an integer.
+ */
+export class ToolArgumentValidator {
+  private coerce: boolean;
+
+  constructor(options: ToolArgumentValidatorOptions = {}) {
+    this.coerce = options.coerce ?? true;
+  }
+
+  /**
+   * Validates arguments against a tool's parameter schema.
+   *
+   * @param definition - The tool definition holding the parameter schema
+   * @param args - The arguments produced by the model
+   * @returns The validation result, with coerced arguments if coercion is enabled
+   */
+  validate(definition: ToolDefinition, args: unknown): ToolArgumentValidationResult {
+    const errors: ToolArgumentError[] = [];
+    const value = this.validateValue(definition.parameters as JSONSchemaNode, args ?? {}, '', errors);
+    return {
+      valid: errors.length === 0,
+      args: isPlainObject(value) ? value : {},
+      errors,
+    };
+  }
+
+  private validateValue(
+    schema: JSONSchemaNode,
+    value: unknown,
+    path: string,
+    errors: ToolArgumentError[]
+  ): unknown {
+    const types = schema.type === undefined ? [] : ([] as string[]).concat(schema.type);
+    let current = value;
+
+    if (types.length > 0 && !types.some(type => matchesType(type, current))) {
+      const coerced = this.coerce ? coerceValue(types, current) : undefined;
+      if (!coerced) {
+        errors.push({ path, message: `must be ${types.join(' or ')}, got ${describeType(current)}` });
+        return value;
+      }
+      current = coerced.value;
+    }
+
+    if (schema.enum) {
+      current = this.validateEnum(schema.enum, current, path, errors);
+    }
+
+    if (isPlainObject(current)) {
+      return this.validateObject(schema, current, path, errors);
+    }
+
+    if (Array.isArray(current) && schema.items) {
+      return current.map((item, index) =>
+        this.validateValue(schema.items!, item, `${path}[${index}]`, errors)
+      );
+    }
+
+    return current;
+  }
+
+  private validateObject(
+    schema: JSONSchemaNode,
+    value: Record<string, any>,
+    path: string,
+    errors: ToolArgumentError[]
+  ): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined) {
+        errors.push({ path: joinPath(path, name), message: 'is required' });
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertyPath = joinPath(path, name);
+      const propertySchema = schema.properties?.[name];
+
+      if (propertySchema) {
+        result[name] = this.validateValue(propertySchema, propertyValue, propertyPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: propertyPath, message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        result[name] = this.validateValue(schema.additionalProperties, propertyValue, propertyPath, errors);
+      } else {
+        result[name] = propertyValue;
+      }
+    }
+
+    return result;
+  }
+
+  private validateEnum(
+    options: unknown[],
+    value: unknown,
+    path: string,
+    errors: ToolArgumentError[]
+  ): unknown {
+    if (options.includes(value)) {
+      return value;
+    }
+
+    // Small models often get the casing of enum values wrong
+    if (this.coerce && typeof value === 'string') {
+      const match = options.find(
+        option => typeof option === 'string' && option.toLowerCase() === value.trim().toLowerCase()
+      );
+      if (match !== undefined) {
+        return match;
+      }
+    }
+
+    errors.push({
+      path,
+      message: `must be one of ${options.map(option => JSON.stringify(option)).join(', ')}`
+    });
+    return value;
+  }
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Converts a value to the first schema type it can be converted to without
+ * guessing. Returns undefined if no conversion applies.
+ */
+function coerceValue(types: string[], value: unknown): { value: unknown } | undefined {
+  for (const type of types) {
+    switch (type) {
+      case 'number':
+      case 'integer': {
+        if (typeof value !== 'string' || value.trim() === '') break;
+        const number = Number(value.trim());
+        if (matchesType(type, number)) return { value: number };
+        break;
+      }
+      case 'boolean': {
+        if (typeof value !== 'string') break;
+        const normalized = value.trim().toLowerCase();
+        if (normalized === 'true' || normalized === 'false') return { value: normalized === 'true' };
+        break;
+      }
+      case 'string': {
+        if (typeof value === 'number' || typeof value === 'boolean') return { value: String(value) };
+        break;
+      }
+      case 'object':
+      case 'array': {
+        // Only JSON-encoded values; wrapping e.g. "a,b" in an array would guess its meaning
+        if (typeof value !== 'string') break;
+        try {
+          const parsed = JSON.parse(value);
+          if (matchesType(type, parsed)) return { value: parsed };
+        } catch {
+          // Not JSON, fall through
+        }
+        break;
+      }
+    }
+  }
+  return undefined;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
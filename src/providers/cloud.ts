@@ -1,17 +1,36 @@
 import type { GenerateArgs } from '../types/worker';
-import type { ModelResponse, TokenStreamChunk, NonStreamingResponse } from '../types/session';
+import type { ModelResponse, NonStreamingResponse, StreamPart } from '../types/session';
 import {
   CloudProviderConfig,
   InferenceProvider,
   ProviderError,
   ProviderNetworkError,
   ProviderTimeoutError,
+  ProviderCancelledError,
   ProviderAPIError,
   ProviderConfigurationError
 } from '../types/provider';
 import { EventEmitter } from '../utils/event-emitter';
 import { logger } from '../utils/logger';
-import { transformArgs, transformResponse } from './transformation';
+import {
+  transformArgs,
+  transformResponse,
+  transformStopReason,
+  transformStreamEvent,
+  createStreamTransformState
+} from './transformation';
+import { collectStream } from '../processing/content/stream-collector';
+
+/**
+ * API endpoints of the model providers for direct mode
+ */
+const DEFAULT_API_URLS: Record<NonNullable<CloudProviderConfig['modelProvider']>, string> = {
+  'anthropic': 'https://api.anthropic.com/v1/messages',
+  'openai': 'https://api.openai.com/v1/responses',
+  'openai-chat': 'https://api.openai.com/v1/chat/completions'
+};
+
+const ANTHROPIC_API_VERSION = '2023-06-01';
 
 /**
  * Cloud-based inference provider using HTTP proxy
@@ -19,18 +38,28 @@ import { transformArgs, transformResponse } from './transformation';
  * This provider forwards inference requests to a user-controlled proxy endpoint,
  * which handles API keys and communicates with cloud LLM providers.
  *
+ * In direct mode, enabled by setting apiKey, requests are sent to the API of
+ * the model provider itself, using the same request and response
+ * transformations. This is meant for server-side use, where there is no
+ * secret to protect from the user.
+ *
  * Expected proxy contract:
  * - Request: POST to proxyUrl with JSON body containing GenerateArgs
  * 
  * Streaming Response (Content-Type: text/event-stream):
  * - Server-Sent Events (SSE) stream with chunks
  * - Each SSE event should be formatted as: data: {JSON}\n\n
- * - Expected JSON format: { token: string, tokenId?: number, isFirst?: boolean, isLast?: boolean }
+ * - Expected JSON format: a stream part, e.g. { type: 'text-delta', text: string }
+ * - Token chunks { token: string, tokenId?: number, isLast?: boolean } are still accepted
+ * - With modelProvider 'anthropic', 'openai' or 'openai-chat', native Messages API, Responses API
+ *   or Chat Completions API events are accepted as well
+ * - Errors are sent as: error: {"message": string, "statusCode"?: number, "code"?: string}\n\n
  * 
  * Non-Streaming Response (Content-Type: application/json):
  * - Complete JSON response with full content
  * - Supports OpenAI-style format: { choices: [{ message: { content: string } }] }
  * - Also supports custom format: { token: string, tokenId?: number }
+ * - With modelProvider 'anthropic', supports Messages API format: { content: [...], stop_reason, usage }
  */
 export class CloudProvider implements InferenceProvider {
   private readonly config: CloudProviderConfig;
@@ -51,7 +80,16 @@ export class CloudProvider implements InferenceProvider {
    * Validates the configuration for the cloud provider
    */
   private validateConfig(): void {
-    if (!this.config.proxyUrl) {
+    if (this.config.apiKey) {
+      if (!this.config.modelProvider) {
+        throw new ProviderConfigurationError('modelProvider is required for direct API requests');
+      }
+      if (typeof window !== 'undefined') {
+        logger.cloudProvider?.warn('Using an API key in a browser exposes it to users, use a proxy instead', {
+          model: this.config.model
+        });
+      }
+    } else if (!this.config.proxyUrl) {
       throw new ProviderConfigurationError('proxyUrl is required for cloud provider');
     }
     if (!this.config.model) {
@@ -113,7 +151,7 @@ export class CloudProvider implements InferenceProvider {
           logger.cloudProvider?.debug(`Retrying request (attempt ${attempt + 1}/${maxRetries}) after ${delay}ms`, {
             model: this.config.model
           });
-          await this.sleep(delay);
+          await this.sleep(delay, args.signal);
         }
 
         return await this.performRequest(args, timeout);
@@ -124,6 +162,7 @@ export class CloudProvider implements InferenceProvider {
         if (
           error instanceof ProviderConfigurationError ||
           error instanceof ProviderTimeoutError ||
+          error instanceof ProviderCancelledError ||
           (error instanceof ProviderAPIError && error.statusCode && error.statusCode < 500)
         ) {
           throw error;
@@ -148,47 +187,59 @@ export class CloudProvider implements InferenceProvider {
     args: GenerateArgs,
     timeout: number
   ): Promise<ModelResponse> {
-    this.abortController = new AbortController();
+    const { signal, priority, ...generateArgs } = args;
+    if (signal?.aborted) {
+      throw new ProviderCancelledError();
+    }
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
     const timeoutId = setTimeout(() => {
-      this.abortController?.abort();
+      abortController.abort();
     }, timeout);
 
+    // Cancelling the caller's signal aborts the fetch
+    const onAbort = () => abortController.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     const startTime = Date.now();
 
     try {
+      const { url, direct } = this.getEndpoint();
       const headers: HeadersInit = {
         'Content-Type': 'application/json',
         'Accept': 'text/event-stream',
+        ...this.getAuthHeaders(),
         ...this.config.headers
       };
 
-      logger.cloudProvider?.info('Sending generate request to proxy', {
+      logger.cloudProvider?.info(direct ? 'Sending generate request to API' : 'Sending generate request to proxy', {
         model: this.config.model,
-        proxyUrl: this.config.proxyUrl,
+        url,
         modelProvider: this.config.modelProvider
       });
 
-      // Transform request for model provider (OpenAI uses Response API format)
-      const requestPayload = this.config.modelProvider === 'openai'
-        ? transformArgs(args, this.config.modelProvider)
-        : { ...args };
+      // Transform request for model provider (OpenAI Response API or Anthropic Messages API)
+      const requestPayload = this.config.modelProvider
+        ? transformArgs(generateArgs, this.config.modelProvider)
+        : { ...generateArgs };
 
       logger.cloudProvider?.verbose('Generate request payload', { payload: requestPayload });
 
-      const response = await fetch(this.config.proxyUrl, {
+      const response = await fetch(url, {
         method: 'POST',
         headers,
         body: JSON.stringify({
           model: this.config.model,
           ...requestPayload,
         }),
-        signal: this.abortController.signal
+        signal: abortController.signal
       });
 
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'Unknown error');
         throw new ProviderAPIError(
-          `Proxy returned error: ${response.status} ${response.statusText} - ${errorText}`,
+          `${direct ? 'API' : 'Proxy'} returned error: ${response.status} ${response.statusText} - ${errorText}`,
           response.status,
           `HTTP_${response.status}`
         );
@@ -204,25 +255,19 @@ export class CloudProvider implements InferenceProvider {
       }
 
       // Handle streaming responses
-      const stream = this.handleStreamingResponse(response, startTime);
+      const stream = this.handleStreamingResponse(response, startTime, signal);
 
       // Check if non-streaming is requested
       if (args.stream === false) {
-        // Aggregate chunks into complete response
-        let fullContent = '';
+        // Aggregate parts into complete response
         let tokenCount = 0;
-
-        for await (const chunk of stream) {
-          if (!chunk.isLast) {
-            fullContent += chunk.token;
-            tokenCount++;
-          }
-        }
+        const aggregated = await collectStream(stream, part => {
+          if (part.type === 'text-delta') tokenCount++;
+        });
 
         return {
-          type: 'complete',
-          content: fullContent,
-          usage: {
+          ...aggregated,
+          usage: aggregated.usage ?? {
             promptTokens: 0,
             completionTokens: tokenCount,
             totalTokens: tokenCount
@@ -238,6 +283,9 @@ export class CloudProvider implements InferenceProvider {
 
     } catch (error: any) {
       if (error.name === 'AbortError') {
+        if (signal?.aborted) {
+          throw new ProviderCancelledError();
+        }
         throw new ProviderTimeoutError(timeout);
       }
 
@@ -256,17 +304,49 @@ export class CloudProvider implements InferenceProvider {
       );
     } finally {
       clearTimeout(timeoutId);
-      this.abortController = undefined;
+      signal?.removeEventListener('abort', onAbort);
+      if (this.abortController === abortController) {
+        this.abortController = undefined;
+      }
+    }
+  }
+
+  /**
+   * Returns the URL requests are sent to: the API of the model provider in
+   * direct mode, the proxy otherwise
+   */
+  private getEndpoint(): { url: string; direct: boolean } {
+    const { apiKey, apiUrl, proxyUrl, modelProvider } = this.config;
+    if (apiKey && modelProvider) {
+      return { url: apiUrl ?? DEFAULT_API_URLS[modelProvider], direct: true };
     }
+    return { url: proxyUrl!, direct: false };
+  }
+
+  /**
+   * Returns the authentication headers of the model provider in direct mode
+   */
+  private getAuthHeaders(): Record<string, string> {
+    const { apiKey, modelProvider } = this.config;
+    if (!apiKey) {
+      return {};
+    }
+    if (modelProvider === 'anthropic') {
+      return { 'x-api-key': apiKey, 'anthropic-version': ANTHROPIC_API_VERSION };
+    }
+    return { 'Authorization': `Bearer ${apiKey}` };
   }
 
   /**
    * Handle SSE streaming responses
+   *
+   * @param signal - Optional caller signal; aborting it cancels the body reader
    */
   private async *handleStreamingResponse(
     response: Response,
-    startTime: number
-  ): AsyncIterable<TokenStreamChunk> {
+    startTime: number,
+    signal?: AbortSignal
+  ): AsyncIterable<StreamPart> {
     if (!response.body) {
       throw new ProviderError('Response body is null', 'NO_RESPONSE_BODY', 500);
     }
@@ -274,13 +354,28 @@ export class CloudProvider implements InferenceProvider {
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
-    let tokenCount = 0;
-    let firstTokenTime: number | undefined;
+    let partCount = 0;
+    let hasToolCalls = false;
+    const transformState = createStreamTransformState();
+
+    // The request may already have returned, so cancel the reader directly
+    const onAbort = () => {
+      reader.cancel().catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
       while (true) {
+        if (signal?.aborted) {
+          throw new ProviderCancelledError();
+        }
+
         const { done, value } = await reader.read();
 
+        if (signal?.aborted) {
+          throw new ProviderCancelledError();
+        }
+
         if (done) {
           break;
         }
@@ -300,62 +395,56 @@ export class CloudProvider implements InferenceProvider {
               continue;
             }
 
+            let parts: StreamPart[];
             try {
-              const chunk = JSON.parse(data);
-
-              // Mark first token time for TTFB calculation
-              if (tokenCount === 0) {
-                firstTokenTime = Date.now();
-              }
-
-              const tokenChunk: TokenStreamChunk = {
-                token: chunk.token || '',
-                tokenId: chunk.tokenId ?? tokenCount,
-                isFirst: tokenCount === 0,
-                isLast: chunk.isLast ?? false,
-                ...(tokenCount === 0 && firstTokenTime ? { ttfbMs: firstTokenTime - startTime } : {})
-              };
+              const event = JSON.parse(data);
 
-              tokenCount++;
-              yield tokenChunk;
-
-              // If marked as last, we're done
-              if (tokenChunk.isLast) {
-                return;
-              }
+              // Native events of the model provider, or stream parts from the proxy
+              parts = (this.config.modelProvider &&
+                transformStreamEvent(event, this.config.modelProvider, transformState)) ||
+                toStreamParts(event);
             } catch (parseError: any) {
               logger.cloudProvider?.warn('Failed to parse SSE data', {
                 model: this.config.model,
                 data,
                 error: parseError.message
               });
+              continue;
             }
-          } else if (line.startsWith('error: ')) {
-            const errorData = line.slice(7).trim();
-            try {
-              const errorObj = JSON.parse(errorData);
-              throw new ProviderAPIError(
-                errorObj.message || 'Unknown API error',
-                errorObj.statusCode || 500,
-                errorObj.code
-              );
-            } catch (error: any) {
-              // Only catch JSON parse errors, re-throw if it's already a ProviderAPIError
-              if (error instanceof ProviderAPIError) {
-                throw error;
+
+            for (const part of parts) {
+              // Mark the first part with the time to first byte
+              if (partCount === 0 && part.type === 'text-delta') {
+                part.ttfbMs = Date.now() - startTime;
+              }
+              if (part.type === 'tool-call-delta') {
+                hasToolCalls = true;
+              }
+
+              partCount++;
+              yield part;
+
+              // A finish or error part ends the stream
+              if (part.type === 'finish' || part.type === 'error') {
+                return;
               }
-              throw new ProviderAPIError(errorData, 500);
             }
+          } else if (line.startsWith('error: ')) {
+            yield { type: 'error', error: toProviderAPIError(line.slice(7).trim()) };
+            return;
           }
         }
       }
 
-      // If we got here without seeing isLast, mark the last token we got as last
-      if (tokenCount === 0) {
+      if (partCount === 0) {
         throw new ProviderError('No tokens received from provider', 'NO_TOKENS', 500);
       }
 
+      // The stream ended without a finish part
+      yield { type: 'finish', finishReason: transformState.finishReason ?? (hasToolCalls ? 'tool_calls' : 'stop') };
+
     } finally {
+      signal?.removeEventListener('abort', onAbort);
       reader.releaseLock();
     }
   }
@@ -380,6 +469,7 @@ export class CloudProvider implements InferenceProvider {
     let usage = undefined;
     let toolCalls = undefined;
     let finishReason = undefined;
+    let reasoning: string | undefined;
     
     // Check if this is OpenAI Response API format (has 'output' field)
     if (this.config.modelProvider === 'openai' && data.output) {
@@ -433,12 +523,13 @@ export class CloudProvider implements InferenceProvider {
       }
     }
     // Handle Chat Completions API format (has 'choices' field)
-    else if (this.config.modelProvider === 'openai' && data.choices) {
+    else if ((this.config.modelProvider === 'openai' || this.config.modelProvider === 'openai-chat') && data.choices) {
       logger.cloudProvider?.debug('Using OpenAI Chat Completions format', {
         model: this.config.model
       });
 
       content = data.choices?.[0]?.message?.content || '';
+      reasoning = data.choices?.[0]?.message?.reasoning_content || undefined;
       usage = data.usage ? {
         promptTokens: data.usage.prompt_tokens || 0,
         completionTokens: data.usage.completion_tokens || 0,
@@ -447,6 +538,52 @@ export class CloudProvider implements InferenceProvider {
       toolCalls = data.choices?.[0]?.message?.tool_calls;
       finishReason = data.choices?.[0]?.finish_reason;
     }
+    // Handle Anthropic Messages API format (has 'content' blocks)
+    else if (this.config.modelProvider === 'anthropic' && Array.isArray(data.content)) {
+      logger.cloudProvider?.debug('Using Anthropic Messages API format transformation', {
+        model: this.config.model,
+        contentBlocks: data.content.length
+      });
+
+      const message = transformResponse(data, this.config.modelProvider)[0];
+      if (typeof message?.content === 'string') {
+        content = message.content;
+      } else if (message) {
+        content = message.content
+          .filter(c => c.type === 'text')
+          .map(c => (c as any).text)
+          .join('');
+
+        const toolUseItems = message.content.filter(c => c.type === 'tool_use');
+        if (toolUseItems.length > 0) {
+          toolCalls = toolUseItems.map(item => ({
+            id: (item as any).id,
+            type: 'function' as const,
+            function: {
+              name: (item as any).name,
+              arguments: JSON.stringify((item as any).arguments)
+            }
+          }));
+        }
+      }
+
+      reasoning = data.content
+        .filter((block: any) => block.type === 'thinking')
+        .map((block: any) => block.thinking)
+        .join('\n\n') || undefined;
+
+      if (data.usage) {
+        const promptTokens = data.usage.input_tokens || 0;
+        const completionTokens = data.usage.output_tokens || 0;
+        usage = {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens
+        };
+      }
+
+      finishReason = transformStopReason(data.stop_reason);
+    }
     // Generic format fallback
     else {
       content = data.content || data.message || data.text || '';
@@ -468,7 +605,8 @@ export class CloudProvider implements InferenceProvider {
       content,
       ...(usage && { usage }),
       ...(toolCalls && { toolCalls }),
-      ...(finishReason && { finishReason })
+      ...(finishReason && { finishReason }),
+      ...(reasoning && { reasoning })
     };
   }
 
@@ -508,9 +646,77 @@ export class CloudProvider implements InferenceProvider {
   }
 
   /**
-   * Sleep utility for retry backoff
+   * Sleep utility for retry backoff. Rejects early if the signal is aborted.
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new ProviderCancelledError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(new ProviderCancelledError());
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+const STREAM_PART_TYPES = new Set<StreamPart['type']>([
+  'text-delta',
+  'reasoning-delta',
+  'tool-call-delta',
+  'usage',
+  'finish',
+  'error'
+]);
+
+/**
+ * Converts an SSE data payload from the proxy into stream parts. Payloads
+ * are either stream parts or token chunks of the original proxy contract.
+ */
+function toStreamParts(data: any): StreamPart[] {
+  if (STREAM_PART_TYPES.has(data?.type)) {
+    if (data.type === 'error') {
+      return [{ type: 'error', error: toProviderAPIError(data.error) }];
+    }
+    return [data as StreamPart];
+  }
+
+  const parts: StreamPart[] = [];
+  if (data?.token) {
+    parts.push({ type: 'text-delta', text: data.token, ...(data.tokenId !== undefined && { tokenId: data.tokenId }) });
+  }
+  if (data?.isLast) {
+    parts.push({ type: 'finish', finishReason: 'stop' });
+  }
+  return parts;
+}
+
+/**
+ * Builds the error for an error reported in the stream, given as JSON,
+ * an object or plain text.
+ */
+function toProviderAPIError(error: unknown): ProviderAPIError {
+  let details: any = error;
+  if (typeof error === 'string') {
+    try {
+      details = JSON.parse(error);
+    } catch {
+      return new ProviderAPIError(error, 500);
+    }
+  }
+  if (typeof details !== 'object' || details === null) {
+    return new ProviderAPIError(String(details), 500);
   }
+  return new ProviderAPIError(
+    details.message || 'Unknown API error',
+    details.statusCode || 500,
+    details.code
+  );
 }
@@ -6,7 +6,14 @@
  */
 
 // Export types
-export type { ModelConfig, MessageTransformer, ResponseParser } from './types';
+export type {
+  ModelConfig,
+  MessageTransformer,
+  ResponseParser,
+  StreamParser,
+  StreamParserEvent,
+  StreamParserFactory,
+} from './types';
 
 // Export registry and utility functions
 export {
@@ -16,7 +23,9 @@ export {
   getSupportedModelIds,
   getMessageTransformer,
   getResponseParser,
+  getStreamParser,
 } from './registry';
 
 // Export individual model configurations for direct access if needed
 export { qwen3_06b } from './models/qwen3';
+export { Qwen3StreamParser } from './models/qwen3-stream-parser';
@@ -0,0 +1,234 @@
+import { TokenStreamChunk } from '../../../types/session';
+import { StreamParser, StreamParserEvent } from '../types';
+import { logger } from '../../../utils/logger';
+
+type Block = 'think' | 'tool_call';
+
+const OPEN_TAGS: Record<Block, string> = {
+  think: '<think>',
+  tool_call: '<tool_call>',
+};
+
+const CLOSE_TAGS: Record<Block, string> = {
+  think: '</think>',
+  tool_call: '</tool_call>',
+};
+
+// Start of a tool call body up to its arguments: {"name": "...", "arguments":
+const TOOL_CALL_HEADER = /^\s*\{\s*"name"\s*:\s*"((?:[^"\\]|\\.)*)"\s*,\s*"arguments"\s*:\s*/;
+
+interface ToolCallState {
+  index: number;
+  id: string;
+  body: string;
+  name?: string;
+  argumentsStart?: number;
+  argumentsSent: number;
+}
+
+/**
+ * Incremental parser for Qwen3 output.
+ *
+ * Text outside of tags streams as text deltas and `<think>` blocks as
+ * reasoning deltas. A `<tool_call>` block is announced as soon as its name is
+ * known and its arguments stream as they arrive; the end event carries the
+ * complete arguments. Tool calls whose JSON does not start with the name are
+ * reported once their closing tag arrives.
+ */
+export class Qwen3StreamParser implements StreamParser {
+  private pending = '';
+  private block: Block | undefined;
+  private toolCall: ToolCallState | undefined;
+  private toolCallCount = 0;
+
+  push(chunk: TokenStreamChunk): StreamParserEvent[] {
+    // The last chunk only marks the end of the stream
+    if (chunk.isLast) {
+      return this.flush();
+    }
+    this.pending += chunk.token;
+    return this.drain();
+  }
+
+  flush(): StreamParserEvent[] {
+    const events: StreamParserEvent[] = [];
+    const pending = this.pending;
+    this.pending = '';
+
+    if (this.block === 'think') {
+      pushDelta(events, 'reasoning-delta', pending);
+    } else if (this.block === 'tool_call' && this.toolCall) {
+      // Closing tag missing, e.g. because max_new_tokens was reached
+      this.toolCall.body += pending;
+      logger.agent?.warn('Detected truncated tool call - closing tag missing', {
+        toolName: this.toolCall.name,
+        hint: 'Consider increasing maxTokens for this workflow step'
+      });
+      this.endToolCall(events, false);
+    } else {
+      pushDelta(events, 'text-delta', pending);
+    }
+    this.block = undefined;
+    return events;
+  }
+
+  private drain(): StreamParserEvent[] {
+    const events: StreamParserEvent[] = [];
+
+    while (this.pending) {
+      if (!this.block) {
+        const open = findOpenTag(this.pending);
+        if (!open) {
+          const keep = partialTagLength(this.pending, Object.values(OPEN_TAGS));
+          pushDelta(events, 'text-delta', this.pending.slice(0, this.pending.length - keep));
+          this.pending = this.pending.slice(this.pending.length - keep);
+          break;
+        }
+        pushDelta(events, 'text-delta', this.pending.slice(0, open.index));
+        this.pending = this.pending.slice(open.index + OPEN_TAGS[open.block].length);
+        this.block = open.block;
+        if (open.block === 'tool_call') {
+          this.toolCall = {
+            index: this.toolCallCount,
+            id: `call_${Date.now()}_${this.toolCallCount}`,
+            body: '',
+            argumentsSent: 0,
+          };
+          this.toolCallCount++;
+        }
+        continue;
+      }
+
+      const closeTag = CLOSE_TAGS[this.block];
+      const end = this.pending.indexOf(closeTag);
+      const available = end === -1
+        ? this.pending.slice(0, this.pending.length - partialTagLength(this.pending, [closeTag]))
+        : this.pending.slice(0, end);
+
+      if (this.block === 'think') {
+        pushDelta(events, 'reasoning-delta', available);
+      } else {
+        this.toolCall!.body += available;
+        if (end === -1) {
+          this.streamToolCall(events);
+        } else {
+          this.endToolCall(events, true);
+        }
+      }
+
+      if (end === -1) {
+        this.pending = this.pending.slice(available.length);
+        break;
+      }
+      this.pending = this.pending.slice(end + closeTag.length);
+      this.block = undefined;
+    }
+
+    return events;
+  }
+
+  /**
+   * Announces the current tool call once its name is known and streams the
+   * arguments received so far, holding back what may be the closing brace
+   * of the tool call object.
+   */
+  private streamToolCall(events: StreamParserEvent[]): void {
+    const toolCall = this.toolCall!;
+    if (toolCall.argumentsStart === undefined) {
+      const header = TOOL_CALL_HEADER.exec(toolCall.body);
+      if (!header) return;
+      toolCall.name = JSON.parse(`"${header[1]}"`) as string;
+      toolCall.argumentsStart = header[0].length;
+      events.push({ type: 'tool-call-start', index: toolCall.index, id: toolCall.id, name: toolCall.name });
+    }
+
+    const args = toolCall.body.slice(toolCall.argumentsStart).replace(/\s*\}?\s*$/, '');
+    this.sendArguments(events, args);
+  }
+
+  /**
+   * Ends the current tool call. Bodies that were never announced are parsed
+   * as a whole, and kept as text if they are not a valid tool call.
+   *
+   * @param closed - Whether the closing tag arrived
+   */
+  private endToolCall(events: StreamParserEvent[], closed: boolean): void {
+    const toolCall = this.toolCall!;
+
+    if (toolCall.argumentsStart === undefined) {
+      this.streamToolCall(events);
+    }
+
+    let args: string;
+    if (toolCall.argumentsStart !== undefined) {
+      args = toolCall.body.slice(toolCall.argumentsStart).replace(/\s*\}\s*$/, '');
+    } else {
+      const toolCallJson = parseToolCall(toolCall.body);
+      if (!toolCallJson) {
+        this.toolCallCount--;
+        this.toolCall = undefined;
+        pushDelta(events, 'text-delta', OPEN_TAGS.tool_call + toolCall.body + (closed ? CLOSE_TAGS.tool_call : ''));
+        return;
+      }
+      toolCall.name = toolCallJson.name;
+      events.push({ type: 'tool-call-start', index: toolCall.index, id: toolCall.id, name: toolCallJson.name });
+      args = typeof toolCallJson.arguments === 'string'
+        ? toolCallJson.arguments
+        : JSON.stringify(toolCallJson.arguments ?? {});
+    }
+
+    this.sendArguments(events, args);
+    events.push({ type: 'tool-call-end', index: toolCall.index, id: toolCall.id, name: toolCall.name!, arguments: args });
+    this.toolCall = undefined;
+  }
+
+  private sendArguments(events: StreamParserEvent[], args: string): void {
+    const toolCall = this.toolCall!;
+    if (args.length > toolCall.argumentsSent) {
+      events.push({ type: 'tool-call-delta', index: toolCall.index, argumentsDelta: args.slice(toolCall.argumentsSent) });
+      toolCall.argumentsSent = args.length;
+    }
+  }
+}
+
+/**
+ * Parses a complete tool call body, returning undefined if it is not one.
+ */
+function parseToolCall(body: string): { name: string; arguments?: unknown } | undefined {
+  try {
+    const toolCallJson = JSON.parse(body);
+    return typeof toolCallJson?.name === 'string' ? toolCallJson : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function pushDelta(events: StreamParserEvent[], type: 'text-delta' | 'reasoning-delta', text: string): void {
+  if (text) {
+    events.push({ type, text });
+  }
+}
+
+function findOpenTag(text: string): { block: Block; index: number } | undefined {
+  let found: { block: Block; index: number } | undefined;
+  for (const block of Object.keys(OPEN_TAGS) as Block[]) {
+    const index = text.indexOf(OPEN_TAGS[block]);
+    if (index !== -1 && (!found || index < found.index)) {
+      found = { block, index };
+    }
+  }
+  return found;
+}
+
+/**
+ * Returns the length of the longest suffix of the text that is the start of
+ * one of the tags, so it can be held back until the next chunk decides it.
+ */
+function partialTagLength(text: string, tags: string[]): number {
+  const start = text.lastIndexOf('<');
+  if (start === -1) {
+    return 0;
+  }
+  const suffix = text.slice(start);
+  return tags.some(tag => tag.startsWith(suffix)) ? suffix.length : 0;
+}
@@ -3,6 +3,7 @@ import { Message } from '../../../types/worker';
 import { NonStreamingResponse } from '../../../types/session';
 import { ModelConfig } from '../types';
 import { logger } from '../../../utils/logger';
+import { Qwen3StreamParser } from './qwen3-stream-parser';
 
 /**
  * Qwen3 0.6B Model Configuration
@@ -12,6 +13,7 @@ export const qwen3_06b: ModelConfig = {
   displayName: 'Qwen3 0.6B (ONNX)',   
   toolSupport: true,
   reasoningSupport: true,
+  parameterCount: 600_000_000,
   notes: 'Lightweight model optimized for on-device inference',
 
   messageTransformer: (messages: Message[]) => {
@@ -140,4 +142,6 @@ export const qwen3_06b: ModelConfig = {
       ...(reasoning && { reasoning })
     };
   },
-};
\ No newline at end of file
+
+  streamParser: () => new Qwen3StreamParser(),
+};
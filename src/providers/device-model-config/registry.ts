@@ -1,4 +1,4 @@
-import { ModelConfig, MessageTransformer, ResponseParser } from './types';
+import { ModelConfig, MessageTransformer, ResponseParser, StreamParserFactory } from './types';
 import { qwen3_06b } from './models/qwen3';
 
 /**
@@ -59,3 +59,12 @@ export function getMessageTransformer(modelId: string): MessageTransformer {
 export function getResponseParser(modelId: string): ResponseParser | undefined {
   return getModelConfig(modelId).responseParser;
 }
+
+/**
+ * Get stream parser factory for a model
+ * @throws Error if model is not supported
+ * @returns Stream parser factory or undefined if model doesn't have one
+ */
+export function getStreamParser(modelId: string): StreamParserFactory | undefined {
+  return getModelConfig(modelId).streamParser;
+}
@@ -1,6 +1,6 @@
 import { Message as HFMessage } from '@huggingface/transformers';
 import { Message } from '../../types/worker';
-import { NonStreamingResponse } from '../../types/session';
+import { NonStreamingResponse, TokenStreamChunk } from '../../types/session';
 
 /**
  * Message transformer function type
@@ -19,6 +19,32 @@ export type ResponseParser = (content: string) => {
   reasoning?: string;
 };
 
+/**
+ * Structured event parsed from streamed model output
+ */
+export type StreamParserEvent =
+  | { type: 'text-delta'; text: string }
+  | { type: 'reasoning-delta'; text: string }
+  | { type: 'tool-call-start'; index: number; id: string; name: string }
+  | { type: 'tool-call-delta'; index: number; argumentsDelta: string }
+  | { type: 'tool-call-end'; index: number; id: string; name: string; arguments: string };
+
+/**
+ * Incremental parser for streamed model output
+ * Consumes token chunks as they arrive and emits structured events
+ */
+export interface StreamParser {
+  /** Parse a chunk, returning the events it completes */
+  push(chunk: TokenStreamChunk): StreamParserEvent[];
+  /** End the stream, returning the events of any output still buffered */
+  flush(): StreamParserEvent[];
+}
+
+/**
+ * Creates a stream parser for a single response
+ */
+export type StreamParserFactory = () => StreamParser;
+
 /**
  * Model configuration interface
  */
@@ -31,10 +57,14 @@ export interface ModelConfig {
   messageTransformer: MessageTransformer;
   /** Response parser function (optional, for models with custom output formats) */
   responseParser?: ResponseParser;
+  /** Stream parser factory (optional, for models that can stream tool calls) */
+  streamParser?: StreamParserFactory;
   /** Whether the model supports tool calling */
   toolSupport: boolean;
   /** Whether the model supports thinking/reasoning mode */
   reasoningSupport: boolean;
+  /** Number of model parameters (optional, to estimate the memory the model takes) */
+  parameterCount?: number;
   /** Additional model-specific notes */
   notes?: string;
 }
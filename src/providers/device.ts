@@ -1,17 +1,44 @@
-import type { GenerateArgs, WorkerInstance } from '../types/worker';
-import type { ModelResponse, NonStreamingResponse } from '../types/session';
-import { DeviceProviderConfig, ProviderError, InferenceProvider, ProviderConfigurationError } from '../types/provider';
+import type { GenerateArgs } from '../types/worker';
+import type { ModelResponse, NonStreamingResponse, StreamPart, TokenStreamChunk } from '../types/session';
+import {
+  DeviceProviderConfig,
+  ProviderError,
+  InferenceProvider,
+  ProviderConfigurationError,
+  ProviderCancelledError
+} from '../types/provider';
 import { EventEmitter } from '../utils/event-emitter';
 import { logger } from '../utils/logger';
-import { isSupportedModel, getSupportedModelIds, getResponseParser } from './device-model-config';
+import { isSupportedModel, getSupportedModelIds, getResponseParser, getStreamParser } from './device-model-config';
+import type { StreamParserEvent } from './device-model-config';
+import { WorkerChannel, createWorker } from './worker-channel';
+import type { WorkerLease, WorkerPool } from './worker-pool';
+
+/**
+ * A request waiting for the worker to finish the running generation
+ */
+interface QueuedGeneration {
+  priority: number;
+  start: () => void;
+  reject: (error: Error) => void;
+}
 
 /**
  * WebGPU-based inference provider using Web Workers
  */
 export class DeviceProvider implements InferenceProvider {
-  private workerInstance: WorkerInstance | null = null;
+  // The worker of the provider, when it is not hosted in a worker pool
+  private channel: WorkerChannel | null = null;
+  // The key of the model in its worker pool, once registered
+  private modelKey: string | undefined;
+  private initialized: boolean = false;
+  private disposed: boolean = false;
   private readonly config: DeviceProviderConfig;
   private eventEmitter: EventEmitter;
+  // A worker runs one generation at a time, later requests wait in priority order
+  private readonly concurrency: number;
+  private generating: number = 0;
+  private queue: QueuedGeneration[] = [];
 
   constructor(
     config: DeviceProviderConfig,
@@ -29,8 +56,13 @@ export class DeviceProvider implements InferenceProvider {
       );
     }
 
+    if (config.replicas !== undefined && (!config.pool || config.replicas < 1)) {
+      throw new ProviderConfigurationError('replicas must be at least 1 and requires a worker pool');
+    }
+
     this.config = config;
     this.eventEmitter = eventEmitter;
+    this.concurrency = config.pool ? config.replicas ?? 1 : 1;
   }
 
   /**
@@ -67,17 +99,25 @@ export class DeviceProvider implements InferenceProvider {
 
   /**
    * Initializes the provider. This method creates a new worker 
-   * instance to handle local model inference.
+   * instance to handle local model inference, or loads the model in its
+   * worker pool.
    * 
    * @returns A promise that resolves when the provider is initialized
    */
   async initialize(): Promise<void> {
-    if (this.workerInstance?.initialized) {
+    if (this.initialized || this.disposed) {
+      return;
+    }
+
+    const { pool } = this.config;
+    if (pool) {
+      await this.initializeInPool(pool);
+      this.initialized = true;
       return;
     }
 
     // Create worker instance if it doesn't exist
-    if (!this.workerInstance) {
+    if (!this.channel) {
       logger.deviceProvider?.debug('Creating Web Worker', { 
         model: this.config.model, 
         quantization: this.config.quantization, 
@@ -85,95 +125,39 @@ export class DeviceProvider implements InferenceProvider {
         hfToken: this.config.hfToken ? 'present' : 'missing'
       });
 
-      const worker = new Worker(
-        new URL('./runtime/worker.js', import.meta.url),
-        { type: 'module' }
-      );
-
-      this.workerInstance = {
-        worker,
-        model: this.config,
-        initialized: false,
-        disposed: false,
-        inflightId: 0,
-      };
+      this.channel = new WorkerChannel(createWorker());
     }
 
-    // Initialize the worker
-    if (!this.workerInstance.initialized && !this.workerInstance.disposed) {
-      const initStartTime = Date.now();
-
-      // Emit worker init start event
-      this.eventEmitter.emit({
-        type: 'worker:init:start',
-        modelName: this.config.model,
-        timestamp: initStartTime
-      });
-
-      const initId = this.nextId();
-
-      this.workerInstance.worker.postMessage({
-        type: 'init',
-        requestId: initId,
-        args: {
-          config: this.config,
-        },
-      });
-
-      try {
-        await this.once(
-          initId,
-          undefined,
-          // Progress callback
-          (msg) => {
-            if (msg.type === 'progress' && msg.args) {
-              this.eventEmitter.emit({
-                type: 'worker:init:progress',
-                modelName: this.config.model,
-                progress: msg.args.progress,
-                stage: msg.args.status || msg.args.file || 'loading',
-                timestamp: Date.now()
-              });
-            }
-          }
-        );
+    await this.channel.init(this.config, event => this.eventEmitter.emit(event));
+    this.initialized = true;
+  }
 
-        this.workerInstance.initialized = true;
-
-        // Emit worker init complete event
-        this.eventEmitter.emit({
-          type: 'worker:init:complete',
-          modelName: this.config.model,
-          duration: Date.now() - initStartTime,
-          timestamp: Date.now()
-        });
-
-        logger.deviceProvider?.info('Device provider initialized successfully', {
-          model: this.config.model,
-          duration: Date.now() - initStartTime
-        });
-      } catch (error: any) {
-        logger.deviceProvider?.error('Device provider initialization failed', {
-          model: this.config.model,
-          error: error.message
-        });
-        throw new ProviderError(
-          `Failed to initialize WebGPU provider: ${error.message}`,
-          'device',
-          500
-        );
-      }
+  /**
+   * Registers the model with its worker pool and loads it, so the first
+   * request does not wait for the download
+   */
+  private async initializeInPool(pool: WorkerPool): Promise<void> {
+    this.modelKey ??= pool.register(this.config, this.eventEmitter);
+    try {
+      pool.release(await pool.acquire(this.modelKey));
+    } catch (error) {
+      await pool.unregister(this.modelKey, this.eventEmitter);
+      this.modelKey = undefined;
+      throw error;
     }
   }
 
   /**
-   * Generates a response for the given arguments.
+   * Generates a response for the given arguments. Requests made while the
+   * model generates wait in a queue, ordered by priority and then by arrival.
    * 
    * @param args - The generation arguments
    * @returns A promise that resolves to the model response
+   * @throws ProviderError with code QUEUE_FULL if maxQueueDepth requests are waiting
+   * @throws ProviderCancelledError if the signal is aborted while the request waits
    */
   async generate(args: GenerateArgs): Promise<ModelResponse> {
-    if (!this.workerInstance || !this.workerInstance.initialized) {
+    if (!this.initialized) {
       throw new ProviderError(
         'Provider not initialized. Call initialize() first.',
         'UNINITIALIZED',
@@ -181,7 +165,7 @@ export class DeviceProvider implements InferenceProvider {
       );
     }
   
-    if (this.workerInstance.disposed) {
+    if (this.disposed) {
       throw new ProviderError(
         'Provider has been disposed',
         'DISPOSED',
@@ -189,44 +173,51 @@ export class DeviceProvider implements InferenceProvider {
       );
     }
   
-    const requestId = this.nextId();
+    const { signal, priority, ...generateArgs } = args;
+    if (signal?.aborted) {
+      throw new ProviderCancelledError();
+    }
+
+    await this.waitForTurn(priority ?? 0, signal);
+
+    let lease: WorkerLease | undefined;
+    try {
+      lease = await this.acquireWorker(signal);
+    } catch (error) {
+      this.releaseTurn();
+      throw error;
+    }
+    const channel = lease?.channel ?? this.channel!;
+    const requestId = channel.nextId();
+
+    // The next request starts once the worker is done with this one, also
+    // when it was cancelled or the stream is never read
+    const release = () => {
+      if (lease) {
+        this.config.pool?.release(lease);
+      }
+      this.releaseTurn();
+    };
+    channel.once(requestId, msg => msg.type === 'done' || msg.type === 'error')
+      .then(release, release);
   
     // Post generate message to worker
-    this.workerInstance.worker.postMessage({
+    channel.post({
       type: 'generate',
       requestId,
-      args,
+      ...(lease && { modelKey: lease.modelKey }),
+      args: generateArgs,
     });
   
+    const chunks = this.streamChunks(channel, requestId, signal);
+
     // Check if non-streaming is requested
     if (args.stream === false) {
       // Aggregate chunks into complete response
       let fullContent = '';
       let tokenCount = 0;
   
-      const stream = this.streamMessages(requestId, (msg) => {
-        if (msg.type === 'chunk' && msg.args) {
-          logger.deviceProvider?.verbose('Received chunk from worker', { chunk: msg.args });
-          return {
-            token: msg.args.token,
-            tokenId: msg.args.tokenId,
-            isFirst: msg.args.isFirst,
-            isLast: msg.args.isLast,
-            ttfbMs: msg.args.ttfbMs,
-          };
-        } else if (msg.type === 'done') {
-          return null;
-        } else if (msg.type === 'error') {
-          throw new ProviderError(
-            msg.args?.error || 'Unknown error from worker',
-            'WORKER_ERROR',
-            500
-          );
-        }
-        return undefined;
-      });
-  
-      for await (const chunk of stream) {
+      for await (const chunk of chunks) {
         if (!chunk.isLast) {
           fullContent += chunk.token;
           tokenCount++;
@@ -263,31 +254,9 @@ export class DeviceProvider implements InferenceProvider {
     }
   
     // Return streaming response (default)
-    const stream = this.streamMessages(requestId, (msg) => {
-      if (msg.type === 'chunk' && msg.args) {
-        logger.deviceProvider?.verbose('Received chunk from worker', { chunk: msg.args });
-        return {
-          token: msg.args.token,
-          tokenId: msg.args.tokenId,
-          isFirst: msg.args.isFirst,
-          isLast: msg.args.isLast,
-          ttfbMs: msg.args.ttfbMs,
-        };
-      } else if (msg.type === 'done') {
-        return null;
-      } else if (msg.type === 'error') {
-        throw new ProviderError(
-          msg.args?.error || 'Unknown error from worker',
-          'WORKER_ERROR',
-          500
-        );
-      }
-      return undefined;
-    });
-  
     return {
       type: 'streaming',
-      stream
+      stream: this.streamParts(chunks)
     };
   }
 
@@ -295,20 +264,30 @@ export class DeviceProvider implements InferenceProvider {
    * Disposes the provider and cleans up resources.
    */
   async dispose(): Promise<void> {
-    if (!this.workerInstance || this.workerInstance.disposed) {
+    if (this.disposed || (!this.channel && this.modelKey === undefined)) {
       return;
     }
 
+    // Requests still waiting for the model will never run
+    const queued = this.queue.splice(0);
+    queued.forEach(generation => generation.reject(
+      new ProviderError('Provider has been disposed', 'DISPOSED', 400)
+    ));
+
     logger.deviceProvider?.info('Disposing WebGPU provider', {
       model: this.config.model
     });
 
-    this.workerInstance.disposed = true;
-    const requestId = this.nextId();
-
-    this.workerInstance.worker.postMessage({ type: 'dispose', requestId });
-    await this.once(requestId).catch(() => {});
-    this.workerInstance.worker.terminate();
+    this.disposed = true;
+    if (this.config.pool && this.modelKey !== undefined) {
+      // The pool unloads the model once no other provider uses it
+      await this.config.pool.unregister(this.modelKey, this.eventEmitter);
+    } else if (this.channel) {
+      const requestId = this.channel.nextId();
+      this.channel.post({ type: 'dispose', requestId });
+      await this.channel.once(requestId).catch(() => {});
+      this.channel.terminate();
+    }
 
     // Emit worker disposed event
     this.eventEmitter.emit({
@@ -323,7 +302,7 @@ export class DeviceProvider implements InferenceProvider {
   }
 
   isInitialized(): boolean {
-    return this.workerInstance?.initialized ?? false;
+    return this.initialized;
   }
 
   getModelName(): string {
@@ -331,184 +310,194 @@ export class DeviceProvider implements InferenceProvider {
   }
 
   /**
-   * Generate next request ID
+   * Waits until the worker is free for a request, in priority order
+   *
+   * @param priority - The priority of the request, higher runs first
+   * @param signal - Optional signal that removes the request from the queue
    */
-  private nextId(): string {
-    if (!this.workerInstance) {
-      throw new ProviderError(
-        'Worker instance not created',
-        'device',
-        400
-      );
+  private async waitForTurn(priority: number, signal?: AbortSignal): Promise<void> {
+    if (this.generating < this.concurrency) {
+      this.generating += 1;
+      return;
     }
-    this.workerInstance.inflightId += 1;
-    return String(this.workerInstance.inflightId);
-  }
 
-  /**
-   * Wait for a single response from the worker
-   * 
-   * @param requestId - The request ID to wait for
-   * @param filter - A filter function to apply to the message
-   * @param onProgress - A callback function to handle progress messages
-   * @returns A promise that resolves to the message
-   */
-  private once<T = unknown>(
-    requestId: string,
-    filter?: (m: any) => boolean,
-    onProgress?: (msg: any) => void
-  ): Promise<T> {
-    if (!this.workerInstance) {
-      return Promise.reject(
-        new ProviderError('Worker instance not created', 'device', 400)
+    const { maxQueueDepth } = this.config;
+    if (maxQueueDepth !== undefined && this.queue.length >= maxQueueDepth) {
+      throw new ProviderError(
+        `Request queue of model ${this.config.model} is full (${maxQueueDepth} waiting)`,
+        'QUEUE_FULL',
+        429
       );
     }
 
-    return new Promise((resolve, reject) => {
-      const onMessage = (ev: MessageEvent<any>) => {
-        const msg = ev.data;
-        if (!msg || msg.requestId !== requestId) return;
-
-        // Handle progress messages separately
-        if (msg.type === 'progress' && onProgress) {
-          onProgress(msg);
-          return; // Don't resolve/reject on progress
-        }
-
-        if (filter && !filter(msg)) return;
-
-        this.workerInstance!.worker.removeEventListener('message', onMessage as any);
-        this.workerInstance!.worker.removeEventListener('error', onError as any);
-
-        if (msg.type === 'error') {
-          reject(new ProviderError(
-            msg.args?.error || 'Worker error',
-            'webgpu',
-            500
-          ));
-        } else {
-          resolve(msg);
+    const queuedAt = Date.now();
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== generation);
+        reject(new ProviderCancelledError());
+      };
+      const generation: QueuedGeneration = {
+        priority,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
         }
       };
 
-      const onError = (e: ErrorEvent) => {
-        this.workerInstance!.worker.removeEventListener('message', onMessage as any);
-        this.workerInstance!.worker.removeEventListener('error', onError as any);
-        reject(
-          new ProviderError(
-            e.error?.message || e.message || 'Worker error',
-            'webgpu',
-            500
-          )
-        );
-      };
+      // Behind every request of the same or a higher priority
+      const index = this.queue.findIndex(queued => queued.priority < priority);
+      const position = index === -1 ? this.queue.length : index;
+      this.queue.splice(position, 0, generation);
+      signal?.addEventListener('abort', onAbort, { once: true });
 
-      this.workerInstance!.worker.addEventListener('message', onMessage as any);
-      this.workerInstance!.worker.addEventListener('error', onError as any);
+      logger.deviceProvider?.debug('Request queued', {
+        model: this.config.model,
+        position: position + 1,
+        queueDepth: this.queue.length
+      });
+      this.eventEmitter.emit({
+        type: 'generation:queued',
+        modelName: this.config.model,
+        position: position + 1,
+        queueDepth: this.queue.length,
+        priority,
+        timestamp: queuedAt
+      });
+    });
+
+    this.eventEmitter.emit({
+      type: 'generation:dequeued',
+      modelName: this.config.model,
+      waitMs: Date.now() - queuedAt,
+      timestamp: Date.now()
     });
   }
 
   /**
-   * Stream messages from the worker
+   * Hands the worker to the next queued request, if any
    */
-  private async *streamMessages<T>(
-    requestId: string,
-    handler: (msg: any) => T | null | undefined
-  ): AsyncIterable<T> {
-    if (!this.workerInstance) {
-      throw new ProviderError('Worker instance not created', 'device', 400);
+  private releaseTurn(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next.start();
+    } else {
+      this.generating -= 1;
     }
+  }
 
-    const messageQueue: T[] = [];
-    let isDone = false;
-    let error: Error | null = null;
-    let resolveNext: ((value: IteratorResult<T>) => void) | null = null;
-
-    const onMessage = (ev: MessageEvent<any>) => {
-      const msg = ev.data;
-      if (!msg || msg.requestId !== requestId) return;
-
-      try {
-        const result = handler(msg);
+  /**
+   * Takes a worker of the pool that has the model loaded, loading it again
+   * if the pool unloaded it
+   *
+   * @returns The lease of the pooled worker, or undefined for the worker of the provider
+   */
+  private async acquireWorker(signal?: AbortSignal): Promise<WorkerLease | undefined> {
+    const { pool } = this.config;
+    if (!pool || this.modelKey === undefined) {
+      return undefined;
+    }
+    return pool.acquire(this.modelKey, signal);
+  }
 
-        if (result === null) {
-          // Signal to end stream
-          isDone = true;
-          if (resolveNext) {
-            resolveNext({ value: undefined as any, done: true });
-            resolveNext = null;
-          }
-        } else if (result !== undefined) {
-          // Add to queue
-          messageQueue.push(result);
-          if (resolveNext) {
-            const value = messageQueue.shift()!;
-            resolveNext({ value, done: false });
-            resolveNext = null;
-          }
-        }
-      } catch (e: any) {
-        error = e;
-        isDone = true;
-        if (resolveNext) {
-          resolveNext({ value: undefined as any, done: true });
-          resolveNext = null;
-        }
+  /**
+   * Stream the tokens of a generation from the worker
+   *
+   * @param channel - The worker that generates
+   * @param requestId - The request ID of the generation
+   * @param signal - Optional signal that cancels the generation in the worker
+   */
+  private streamChunks(
+    channel: WorkerChannel,
+    requestId: string,
+    signal?: AbortSignal
+  ): AsyncIterable<TokenStreamChunk> {
+    return channel.stream(requestId, (msg) => {
+      if (msg.type === 'chunk' && msg.args) {
+        logger.deviceProvider?.verbose('Received chunk from worker', { chunk: msg.args });
+        return {
+          token: msg.args.token,
+          tokenId: msg.args.tokenId,
+          isFirst: msg.args.isFirst,
+          isLast: msg.args.isLast,
+          ttfbMs: msg.args.ttfbMs,
+        };
+      } else if (msg.type === 'done') {
+        return null;
+      } else if (msg.type === 'error') {
+        throw new ProviderError(
+          msg.args?.error || 'Unknown error from worker',
+          'WORKER_ERROR',
+          500
+        );
       }
-    };
+      return undefined;
+    }, signal);
+  }
 
-    const onError = (e: ErrorEvent) => {
-      error = new ProviderError(
-        e.error?.message || e.message || 'Worker error',
-        'device',
-        500
-      );
-      isDone = true;
-      if (resolveNext) {
-        resolveNext({ value: undefined as any, done: true });
-        resolveNext = null;
-      }
+  /**
+   * Turn the tokens of a generation into stream parts, parsing reasoning
+   * and tool calls with the model's stream parser
+   *
+   * @param chunks - The tokens streamed from the worker
+   */
+  private async *streamParts(chunks: AsyncIterable<TokenStreamChunk>): AsyncIterable<StreamPart> {
+    const parser = getStreamParser(this.config.model)?.();
+    let tokenCount = 0;
+    let hasToolCalls = false;
+
+    const toParts = (events: StreamParserEvent[], chunk?: TokenStreamChunk): StreamPart[] => {
+      return events.flatMap((event): StreamPart[] => {
+        switch (event.type) {
+          case 'text-delta':
+            return [{
+              type: 'text-delta',
+              text: event.text,
+              ...(chunk && { tokenId: chunk.tokenId }),
+              ...(chunk?.ttfbMs !== undefined && { ttfbMs: chunk.ttfbMs })
+            }];
+          case 'reasoning-delta':
+            return [event];
+          case 'tool-call-start':
+            hasToolCalls = true;
+            return [{ type: 'tool-call-delta', index: event.index, id: event.id, name: event.name, argumentsDelta: '' }];
+          case 'tool-call-delta':
+            return [{ type: 'tool-call-delta', index: event.index, argumentsDelta: event.argumentsDelta }];
+          case 'tool-call-end':
+            return [];
+        }
+      });
     };
 
-    this.workerInstance.worker.addEventListener('message', onMessage as any);
-    this.workerInstance.worker.addEventListener('error', onError as any);
- 
     try {
-      while (true) {
-        if (error) {
-          throw error;
-        }
-
-        if (messageQueue.length > 0) {
-          yield messageQueue.shift()!;
+      for await (const chunk of chunks) {
+        if (chunk.isLast) {
           continue;
         }
-
-        if (isDone) {
-          break;
-        }
-
-        // Wait for next message
-        const result = await new Promise<IteratorResult<T>>((resolve) => {
-          resolveNext = resolve;
-        });
-
-        if (error) {
-          throw error;
-        }
-
-        // If we got a value from the promise resolution, yield it
-        if (!result.done && result.value !== undefined) {
-          yield result.value;
-        }
-
-        if (isDone) {
-          break;
-        }
+        tokenCount++;
+        yield* parser
+          ? toParts(parser.push(chunk), chunk)
+          : toParts([{ type: 'text-delta', text: chunk.token }], chunk);
       }
-    } finally {
-      this.workerInstance.worker.removeEventListener('message', onMessage as any);
-      this.workerInstance.worker.removeEventListener('error', onError as any);
+    } catch (error) {
+      // Generation errors end the stream; cancellation is still thrown
+      if (error instanceof ProviderError && error.code === 'WORKER_ERROR') {
+        yield { type: 'error', error };
+        return;
+      }
+      throw error;
+    }
+
+    if (parser) {
+      yield* toParts(parser.flush());
     }
+    yield {
+      type: 'usage',
+      usage: { promptTokens: 0, completionTokens: tokenCount, totalTokens: tokenCount }
+    };
+    yield { type: 'finish', finishReason: hasToolCalls ? 'tool_calls' : 'stop' };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,180 @@
+import type { GenerateArgs } from '../types/worker';
+import type { ModelResponse, StreamPart } from '../types/session';
+import {
+  FallbackTrigger,
+  InferenceProvider,
+  ModelRoute,
+  ProviderAPIError,
+  ProviderCancelledError,
+  ProviderConfigurationError,
+  ProviderInitializationError,
+  ProviderNetworkError,
+  ProviderTimeoutError
+} from '../types/provider';
+import { EventEmitter } from '../utils/event-emitter';
+import { logger } from '../utils/logger';
+
+const DEFAULT_FALLBACK_TRIGGERS: FallbackTrigger[] = ['network', 'timeout', 'server-error', 'initialization'];
+
+/**
+ * Inference provider of a named route, which tries the models of the route
+ * in order and falls back to the next model when one fails with an error
+ * the route falls back on.
+ *
+ * A streamed response falls back as well when the stream fails before its
+ * first part. Once a part is received the model has answered, and later
+ * errors are passed on.
+ */
+export class FallbackProvider implements InferenceProvider {
+  private readonly route: ModelRoute;
+  private readonly resolveProvider: (model: string) => Promise<InferenceProvider>;
+  private eventEmitter: EventEmitter;
+  private initialized: boolean = false;
+
+  constructor(
+    route: ModelRoute,
+    resolveProvider: (model: string) => Promise<InferenceProvider>,
+    eventEmitter: EventEmitter
+  ) {
+    if (!route.name) {
+      throw new ProviderConfigurationError('name is required for model routes');
+    }
+    if (route.models.length === 0) {
+      throw new ProviderConfigurationError(`Route ${route.name} has no models`);
+    }
+    this.route = route;
+    this.resolveProvider = resolveProvider;
+    this.eventEmitter = eventEmitter;
+  }
+
+  /**
+   * The models of the route are initialized when they are registered
+   */
+  async initialize(): Promise<void> {
+    this.initialized = true;
+  }
+
+  /**
+   * Generates a response with the first model of the route that answers.
+   *
+   * @param args - The generation arguments, passed to each model
+   * @returns A promise that resolves to the response of the answering model
+   * @throws The error of the last model tried, when no model answers
+   */
+  async generate(args: GenerateArgs): Promise<ModelResponse> {
+    const { models } = this.route;
+
+    for (const [index, model] of models.entries()) {
+      try {
+        const provider = await this.resolveProvider(model);
+        const response = await this.firstPartOf(await provider.generate(args));
+
+        this.eventEmitter.emit({
+          type: 'route:resolved',
+          route: this.route.name,
+          modelName: model,
+          attempts: index + 1,
+          timestamp: Date.now()
+        });
+        return response;
+      } catch (error: any) {
+        const nextModel = models[index + 1];
+        if (nextModel === undefined || args.signal?.aborted || !this.shouldFallBack(error)) {
+          throw error;
+        }
+
+        logger.inferenceProviderManager?.warn('Model failed, falling back', {
+          route: this.route.name,
+          failedModel: model,
+          nextModel,
+          error: error.message
+        });
+        this.eventEmitter.emit({
+          type: 'route:fallback',
+          route: this.route.name,
+          failedModel: model,
+          nextModel,
+          error: error.message,
+          timestamp: Date.now()
+        });
+      }
+    }
+
+    // Routes have at least one model, so the loop returns or throws
+    throw new ProviderConfigurationError(`Route ${this.route.name} has no models`);
+  }
+
+  /**
+   * Waits for the first part of a streamed response, so a stream that fails
+   * right away rejects like a failed request
+   */
+  private async firstPartOf(response: ModelResponse): Promise<ModelResponse> {
+    if (response.type !== 'streaming') {
+      return response;
+    }
+
+    const iterator = response.stream[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    if (!first.done && first.value.type === 'error') {
+      await iterator.return?.();
+      throw first.value.error;
+    }
+
+    return {
+      type: 'streaming',
+      stream: (async function* (): AsyncIterable<StreamPart> {
+        if (first.done) {
+          return;
+        }
+        yield first.value;
+        yield* { [Symbol.asyncIterator]: () => iterator };
+      })()
+    };
+  }
+
+  /**
+   * Whether the model is one of the models of the route
+   */
+  hasModel(model: string): boolean {
+    return this.route.models.includes(model);
+  }
+
+  private shouldFallBack(error: Error): boolean {
+    if (error instanceof ProviderCancelledError) {
+      return false;
+    }
+    return (this.route.fallbackOn ?? DEFAULT_FALLBACK_TRIGGERS).some(trigger => matchesTrigger(trigger, error));
+  }
+
+  /**
+   * The models of the route are disposed by the manager that registered them
+   */
+  async dispose(): Promise<void> {
+    this.initialized = false;
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  getModelName(): string {
+    return this.route.name;
+  }
+}
+
+function matchesTrigger(trigger: FallbackTrigger, error: Error): boolean {
+  switch (trigger) {
+    case 'network':
+      return error instanceof ProviderNetworkError;
+    case 'timeout':
+      return error instanceof ProviderTimeoutError;
+    case 'server-error':
+      return error instanceof ProviderAPIError && (error.statusCode ?? 0) >= 500;
+    case 'rate-limit':
+      return error instanceof ProviderAPIError && error.statusCode === 429;
+    case 'initialization':
+      return error instanceof ProviderInitializationError;
+    default:
+      return trigger(error);
+  }
+}
@@ -1,13 +1,20 @@
-import type { DeviceProviderConfig, CloudProviderConfig, InferenceProvider, InferenceProviderConfig } from '../types/provider';
-import { ProviderConfigurationError } from '../types/provider';
+import type { InferenceProvider, InferenceProviderConfig, ModelRoute, ModelRouterConfig } from '../types/provider';
+import { ProviderConfigurationError, ProviderInitializationError } from '../types/provider';
 import { EventEmitter } from '../utils/event-emitter';
 import { logger } from '../utils/logger';
+import { getProviderFactory } from './registry';
+import { FallbackProvider } from './fallback';
+import { RouterProvider } from './router';
 
 /**
  * Manages models and their associated inference providers
  */
 export class InferenceProviderManager {
   private models: Map<string, InferenceProvider> = new Map();
+  private routes: Map<string, FallbackProvider> = new Map();
+  private routers: Map<string, RouterProvider> = new Map();
+  // Models of routes that failed to initialize, so routes can fall back past them
+  private failedModels: Map<string, ProviderInitializationError> = new Map();
   private eventEmitter: EventEmitter;
 
   constructor(eventEmitter: EventEmitter) {
@@ -17,20 +24,85 @@ export class InferenceProviderManager {
   async registerModels(models: InferenceProviderConfig[]): Promise<void> {
     logger.inferenceProviderManager?.debug('Registering models', { modelCount: models.length });
     for (const modelConfig of models) {
-      const inferenceProvider = await this.createProvider(modelConfig.model, modelConfig);
+      let inferenceProvider: InferenceProvider;
+      try {
+        inferenceProvider = await this.createProvider(modelConfig.model, modelConfig);
+      } catch (error: any) {
+        if (!this.isRouteModel(modelConfig.model) || error instanceof ProviderConfigurationError) {
+          throw error;
+        }
+        logger.inferenceProviderManager?.warn('Model of a route failed to initialize', {
+          model: modelConfig.model,
+          error: error.message
+        });
+        this.failedModels.set(modelConfig.model, new ProviderInitializationError(modelConfig.model, error));
+        continue;
+      }
+      this.failedModels.delete(modelConfig.model);
       this.models.set(modelConfig.model, inferenceProvider);
     }
     logger.inferenceProviderManager?.info('Models registered successfully', { modelCount: models.length });
   }
 
   /**
-   * Get a provider for the given model
+   * Register named routes that fall back between models. Models of routes
+   * that fail to initialize are skipped instead of failing registration, so
+   * routes should be registered before their models.
+   *
+   * @param routes - The routes to register
+   */
+  async registerRoutes(routes: ModelRoute[]): Promise<void> {
+    for (const route of routes) {
+      if (this.models.has(route.name) || this.routers.has(route.name)) {
+        throw new ProviderConfigurationError(`Route ${route.name} has the name of a registered model`);
+      }
+      const nestedRoute = route.models.find(model => this.routes.has(model) || this.routers.has(model) || model === route.name);
+      if (nestedRoute) {
+        throw new ProviderConfigurationError(`Route ${route.name} contains route ${nestedRoute}, routes can only contain models`);
+      }
+
+      const provider = new FallbackProvider(route, model => this.getProvider(model), this.eventEmitter);
+      await provider.initialize();
+      this.routes.set(route.name, provider);
+    }
+    logger.inferenceProviderManager?.info('Routes registered successfully', { routeCount: routes.length });
+  }
+
+  /**
+   * Register model routers that pick a model or route per request
+   *
+   * @param routers - The routers to register
+   */
+  async registerRouters(routers: ModelRouterConfig[]): Promise<void> {
+    for (const router of routers) {
+      if (this.models.has(router.name) || this.routes.has(router.name)) {
+        throw new ProviderConfigurationError(`Router ${router.name} has the name of a registered model`);
+      }
+
+      const provider = new RouterProvider(router, model => this.getProvider(model), this.eventEmitter);
+      const nestedRouter = provider.getModels().find(model => this.routers.has(model) || model === router.name);
+      if (nestedRouter) {
+        throw new ProviderConfigurationError(`Router ${router.name} contains router ${nestedRouter}, routers can only pick models and routes`);
+      }
+      await provider.initialize();
+      this.routers.set(router.name, provider);
+    }
+    logger.inferenceProviderManager?.info('Routers registered successfully', { routerCount: routers.length });
+  }
+
+  /**
+   * Get a provider for the given model, route or router
    * 
-   * @param model - The name of the model to get a provider for
+   * @param model - The name of the model, route or router to get a provider for
    * @returns A promise that resolves to the inference provider
+   * @throws ProviderInitializationError if the model of a route failed to initialize
    */
   async getProvider(model: string): Promise<InferenceProvider> {
-    let provider = this.models.get(model);
+    let provider = this.models.get(model) ?? this.routes.get(model) ?? this.routers.get(model);
+    const initializationError = this.failedModels.get(model);
+    if (!provider && initializationError) {
+      throw initializationError;
+    }
     if (!provider) {
       const provider = this.getAllProviders();
       throw new Error(`No model configuration found for: ${model}. Available models: ${Array.from(provider.keys()).join(', ')}`);
@@ -45,8 +117,12 @@ export class InferenceProviderManager {
     return this.models;
   }
 
+  private isRouteModel(model: string): boolean {
+    return Array.from(this.routes.values()).some(route => route.hasModel(model));
+  }
+
   /**
-   * Create a provider instance based on runtime
+   * Create a provider instance with the factory registered for its runtime
    */
   private async createProvider(
     model: string,
@@ -54,27 +130,8 @@ export class InferenceProviderManager {
   ): Promise<InferenceProvider> {
     logger.inferenceProviderManager?.debug('Creating inference provider', { model, runtime: config.runtime });
 
-    let provider: InferenceProvider;
-
-    switch (config.runtime) {
-      case 'transformers-js': {
-        const { DeviceProvider } = await import('./device');
-        provider = new DeviceProvider(config as DeviceProviderConfig, this.eventEmitter);
-        break;
-      }
-      case 'openai':
-      case 'anthropic':
-      case 'custom': {
-        const { CloudProvider } = await import('./cloud');
-        provider = new CloudProvider(config as CloudProviderConfig, this.eventEmitter);
-        break;
-      }
-
-      default:
-        throw new ProviderConfigurationError(
-          `Unknown runtime: ${(config as InferenceProviderConfig).runtime}`
-        );
-    }
+    const factory = getProviderFactory(config.runtime);
+    const provider = await factory(config, this.eventEmitter);
 
     // Initialize the provider
     await provider.initialize();
@@ -96,6 +153,9 @@ export class InferenceProviderManager {
 
     await Promise.all(disposePromises);
     this.models.clear();
+    this.routes.clear();
+    this.routers.clear();
+    this.failedModels.clear();
 
     logger.inferenceProviderManager?.info('All providers disposed successfully');
   }
@@ -0,0 +1,230 @@
+import type { GenerateArgs } from '../types/worker';
+import type { ModelResponse, StreamPart } from '../types/session';
+import {
+  InferenceProvider,
+  MockProviderConfig,
+  MockResponse,
+  ProviderAPIError,
+  ProviderCancelledError,
+  ProviderConfigurationError,
+  ProviderError
+} from '../types/provider';
+import { EventEmitter } from '../utils/event-emitter';
+import { StreamCollector } from '../processing/content/stream-collector';
+import { logger } from '../utils/logger';
+
+/**
+ * Inference provider that replays scripted responses, for testing sessions
+ * and workflows without network access or a GPU.
+ *
+ * Responses stream word by word unless streaming is disabled, and every
+ * GenerateArgs the provider receives is recorded in `calls`.
+ *
+ * @example
+ * ```typescript
+ * const session = await createSession({
+ *   models: [{
+ *     runtime: 'mock',
+ *     model: 'mock-model',
+ *     responses: [
+ *       { toolCalls: [{ name: 'get_weather', arguments: { city: 'Oslo' } }] },
+ *       { text: 'It is 18°C in Oslo.' }
+ *     ]
+ *   }]
+ * });
+ * ```
+ */
+export class MockProvider implements InferenceProvider {
+  private readonly config: MockProviderConfig;
+  private eventEmitter: EventEmitter;
+  private initialized: boolean = false;
+
+  /**
+   * Arguments of every generate call, in order
+   */
+  readonly calls: GenerateArgs[] = [];
+
+  constructor(
+    config: MockProviderConfig,
+    eventEmitter: EventEmitter
+  ) {
+    this.config = config;
+    this.eventEmitter = eventEmitter;
+    if (!config.model) {
+      throw new ProviderConfigurationError('model is required for mock provider');
+    }
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+    this.initialized = true;
+
+    this.eventEmitter.emit({
+      type: 'worker:init:complete',
+      modelName: this.config.model,
+      duration: 0,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Replays the next scripted response.
+   *
+   * @param args - The generation arguments, recorded in `calls`
+   * @returns A promise that resolves to the scripted response
+   * @throws The scripted error, or ProviderError when no response is left
+   */
+  async generate(args: GenerateArgs): Promise<ModelResponse> {
+    if (!this.initialized) {
+      throw new ProviderError(
+        'Provider not initialized. Call initialize() first.',
+        'UNINITIALIZED',
+        400
+      );
+    }
+
+    const callIndex = this.calls.length;
+    this.calls.push(args);
+
+    const { responses } = this.config;
+    const response = typeof responses === 'function' ? responses(args, callIndex) : responses[callIndex];
+    if (!response) {
+      throw new ProviderError(
+        `No scripted response for call ${callIndex + 1} of mock model ${this.config.model}`,
+        'MOCK_RESPONSES_EXHAUSTED',
+        500
+      );
+    }
+
+    logger.inferenceProviderManager?.debug('Replaying mock response', {
+      model: this.config.model,
+      callIndex
+    });
+
+    await sleep(response.delayMs, args.signal);
+    if (response.error !== undefined) {
+      throw toError(response.error);
+    }
+
+    const parts = toStreamParts(response, callIndex);
+    if (args.stream === false) {
+      if (response.streamError !== undefined) {
+        throw toError(response.streamError);
+      }
+      const collector = new StreamCollector();
+      parts.forEach(part => collector.push(part));
+      return collector.toResponse();
+    }
+
+    return {
+      type: 'streaming',
+      stream: this.streamParts(parts, response, args.signal)
+    };
+  }
+
+  private async *streamParts(
+    parts: StreamPart[],
+    response: MockResponse,
+    signal?: AbortSignal
+  ): AsyncIterable<StreamPart> {
+    for (const [index, part] of parts.entries()) {
+      if (index > 0) {
+        await sleep(response.chunkDelayMs, signal);
+      }
+      if (signal?.aborted) {
+        throw new ProviderCancelledError();
+      }
+      yield part;
+    }
+  }
+
+  /**
+   * Clears the recorded calls, so scripted responses replay from the start
+   */
+  reset(): void {
+    this.calls.length = 0;
+  }
+
+  async dispose(): Promise<void> {
+    if (!this.initialized) {
+      return;
+    }
+    this.initialized = false;
+
+    this.eventEmitter.emit({
+      type: 'worker:disposed',
+      modelName: this.config.model,
+      timestamp: Date.now()
+    });
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  getModelName(): string {
+    return this.config.model;
+  }
+}
+
+/**
+ * Builds the stream parts of a scripted response, with text split into words
+ */
+function toStreamParts(response: MockResponse, callIndex: number): StreamPart[] {
+  const parts: StreamPart[] = [];
+  if (response.reasoning) {
+    parts.push({ type: 'reasoning-delta', text: response.reasoning });
+  }
+  for (const word of response.text?.match(/\s*\S+\s*/g) ?? []) {
+    parts.push({ type: 'text-delta', text: word });
+  }
+  response.toolCalls?.forEach((toolCall, index) => {
+    parts.push({
+      type: 'tool-call-delta',
+      index,
+      id: toolCall.id ?? `call_mock_${callIndex}_${index}`,
+      name: toolCall.name,
+      argumentsDelta: typeof toolCall.arguments === 'string'
+        ? toolCall.arguments
+        : JSON.stringify(toolCall.arguments ?? {})
+    });
+  });
+  if (response.usage) {
+    parts.push({ type: 'usage', usage: response.usage });
+  }
+  if (response.streamError !== undefined) {
+    parts.push({ type: 'error', error: toError(response.streamError) });
+  } else {
+    parts.push({ type: 'finish', finishReason: response.finishReason ?? (response.toolCalls?.length ? 'tool_calls' : 'stop') });
+  }
+  return parts;
+}
+
+function toError(error: Error | string): Error {
+  return typeof error === 'string' ? new ProviderAPIError(error, 500) : error;
+}
+
+/**
+ * Waits for the given time, rejecting early if the signal is aborted
+ */
+function sleep(ms: number | undefined, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(new ProviderCancelledError());
+  }
+  if (!ms) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new ProviderCancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,82 @@
+import type {
+  BaseProviderConfig,
+  CloudProviderConfig,
+  DeviceProviderConfig,
+  InferenceProviderFactory,
+  MockProviderConfig,
+  ProviderConfigFor
+} from '../types/provider';
+import { ProviderConfigurationError } from '../types/provider';
+import { logger } from '../utils/logger';
+
+// Factories by runtime. A factory is only called with configurations of its
+// runtime, which is what makes the narrowing in registerProviderFactory safe.
+const providerFactories = new Map<string, InferenceProviderFactory<BaseProviderConfig>>();
+
+/**
+ * Registers the factory that creates the inference providers of a runtime.
+ * Models whose configuration has this runtime are then created with the
+ * factory, so custom providers can be used without changing the library.
+ * Registering a built-in runtime again replaces its factory.
+ *
+ * @param runtime - The runtime name used in model configurations
+ * @param factory - Creates a provider from a model configuration
+ *
+ * @example
+ * ```typescript
+ * registerProviderFactory('webllm', (config, eventEmitter) =>
+ *   new WebLLMProvider(config, eventEmitter)
+ * );
+ *
+ * const session = await createSession({
+ *   models: [{ runtime: 'webllm', model: 'Llama-3.2-1B-Instruct-q4f16_1-MLC' }]
+ * });
+ * ```
+ */
+export function registerProviderFactory<TRuntime extends string>(
+  runtime: TRuntime,
+  factory: InferenceProviderFactory<ProviderConfigFor<TRuntime>>
+): void {
+  if (!runtime) {
+    throw new ProviderConfigurationError('runtime is required to register a provider factory');
+  }
+  if (providerFactories.has(runtime)) {
+    logger.inferenceProviderManager?.debug('Replacing provider factory', { runtime });
+  }
+  providerFactories.set(runtime, (config, eventEmitter) =>
+    factory(config as ProviderConfigFor<TRuntime>, eventEmitter)
+  );
+}
+
+/**
+ * Get the factory registered for the given runtime
+ *
+ * @throws ProviderConfigurationError if no factory is registered for the runtime
+ */
+export function getProviderFactory(runtime: string): InferenceProviderFactory<BaseProviderConfig> {
+  const factory = providerFactories.get(runtime);
+  if (!factory) {
+    throw new ProviderConfigurationError(
+      `Unknown runtime: ${runtime}. Registered runtimes: ${Array.from(providerFactories.keys()).join(', ')}`
+    );
+  }
+  return factory;
+}
+
+// Built-in runtimes, whose providers are imported on first use
+const createCloudProvider: InferenceProviderFactory<CloudProviderConfig> = async (config, eventEmitter) => {
+  const { CloudProvider } = await import('./cloud');
+  return new CloudProvider(config, eventEmitter);
+};
+
+registerProviderFactory('transformers-js', async (config: DeviceProviderConfig, eventEmitter) => {
+  const { DeviceProvider } = await import('./device');
+  return new DeviceProvider(config, eventEmitter);
+});
+registerProviderFactory('openai', createCloudProvider);
+registerProviderFactory('anthropic', createCloudProvider);
+registerProviderFactory('custom', createCloudProvider);
+registerProviderFactory('mock', async (config: MockProviderConfig, eventEmitter) => {
+  const { MockProvider } = await import('./mock');
+  return new MockProvider(config, eventEmitter);
+});
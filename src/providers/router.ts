@@ -0,0 +1,213 @@
+import type { GenerateArgs } from '../types/worker';
+import type { ModelResponse } from '../types/session';
+import {
+  DeviceCapabilities,
+  InferenceProvider,
+  ModelRouterConfig,
+  ProviderConfigurationError,
+  ProviderError,
+  RoutingCondition,
+  RoutingRequest
+} from '../types/provider';
+import { EventEmitter } from '../utils/event-emitter';
+import { TokenCounter } from '../utils/token-counter';
+import { logger } from '../utils/logger';
+
+const DEFAULT_EXPECTED_COMPLETION_TOKENS = 500;
+
+/**
+ * Inference provider of a model router, which picks a registered model or
+ * route per request with the first rule whose conditions hold, e.g. short
+ * prompts on the device and long reasoning in the cloud.
+ */
+export class RouterProvider implements InferenceProvider {
+  private readonly config: ModelRouterConfig;
+  private readonly resolveProvider: (model: string) => Promise<InferenceProvider>;
+  private eventEmitter: EventEmitter;
+  private tokenCounter = new TokenCounter();
+  private capabilities: DeviceCapabilities;
+  private initialized: boolean = false;
+
+  constructor(
+    config: ModelRouterConfig,
+    resolveProvider: (model: string) => Promise<InferenceProvider>,
+    eventEmitter: EventEmitter
+  ) {
+    if (!config.name) {
+      throw new ProviderConfigurationError('name is required for model routers');
+    }
+    if (config.rules.length === 0) {
+      throw new ProviderConfigurationError(`Router ${config.name} has no rules`);
+    }
+    const emptyRule = config.rules.findIndex(rule => this.modelsOf(rule.model).length === 0);
+    if (emptyRule !== -1) {
+      throw new ProviderConfigurationError(`Rule ${emptyRule} of router ${config.name} has no models`);
+    }
+    this.config = config;
+    this.resolveProvider = resolveProvider;
+    this.eventEmitter = eventEmitter;
+    this.capabilities = config.capabilities ?? detectCapabilities();
+  }
+
+  /**
+   * The models of the router are initialized when they are registered
+   */
+  async initialize(): Promise<void> {
+    this.initialized = true;
+  }
+
+  /**
+   * Generates a response with the model the rules pick for the request.
+   *
+   * @param args - The generation arguments
+   * @returns A promise that resolves to the response of the picked model
+   * @throws ProviderError if no rule matches the request
+   */
+  async generate(args: GenerateArgs): Promise<ModelResponse> {
+    const model = this.selectModel(args);
+    const provider = await this.resolveProvider(model);
+    return provider.generate(args);
+  }
+
+  /**
+   * Picks the model for the request, without generating a response
+   *
+   * @param args - The generation arguments
+   * @returns The name of the model or route that the rules pick
+   * @throws ProviderError if no rule matches the request
+   */
+  selectModel(args: GenerateArgs): string {
+    const request: RoutingRequest = {
+      args,
+      promptTokens: this.tokenCounter.estimateTokens(args.messages),
+      capabilities: this.capabilities
+    };
+
+    const ruleIndex = this.config.rules.findIndex(rule => !rule.when || matchesCondition(rule.when, request));
+    const rule = this.config.rules[ruleIndex];
+    if (!rule) {
+      throw new ProviderError(
+        `No rule of router ${this.config.name} matches the request`,
+        'NO_MATCHING_ROUTE',
+        400
+      );
+    }
+
+    const model = this.cheapestOf(this.modelsOf(rule.model), request);
+    logger.inferenceProviderManager?.debug('Router selected model', {
+      router: this.config.name,
+      model,
+      rule: ruleIndex,
+      promptTokens: request.promptTokens
+    });
+    this.eventEmitter.emit({
+      type: 'route:selected',
+      route: this.config.name,
+      modelName: model,
+      rule: ruleIndex,
+      promptTokens: request.promptTokens,
+      timestamp: Date.now()
+    });
+    return model;
+  }
+
+  /**
+   * Names of the models and routes the rules can pick
+   */
+  getModels(): string[] {
+    return Array.from(new Set(this.config.rules.flatMap(rule => this.modelsOf(rule.model))));
+  }
+
+  /**
+   * Picks the model with the lowest estimated cost or latency, keeping the
+   * order of the rule for ties and models without an entry in the cost table
+   */
+  private cheapestOf(models: string[], request: RoutingRequest): string {
+    const completionTokens = request.args.max_new_tokens
+      ?? this.config.expectedCompletionTokens
+      ?? DEFAULT_EXPECTED_COMPLETION_TOKENS;
+
+    const rank = (model: string): number => {
+      const cost = this.config.costs?.[model];
+      if (!cost) {
+        return Infinity;
+      }
+      if (this.config.prefer === 'latency') {
+        return cost.latencyMs ?? Infinity;
+      }
+      return (request.promptTokens * (cost.inputCost ?? 0) + completionTokens * (cost.outputCost ?? 0)) / 1_000_000;
+    };
+
+    let selected = models[0]!;
+    let selectedRank = rank(selected);
+    for (const model of models.slice(1)) {
+      const modelRank = rank(model);
+      if (modelRank < selectedRank) {
+        selected = model;
+        selectedRank = modelRank;
+      }
+    }
+    return selected;
+  }
+
+  private modelsOf(model: string | string[]): string[] {
+    return typeof model === 'string' ? [model] : model;
+  }
+
+  /**
+   * The models of the router are disposed by the manager that registered them
+   */
+  async dispose(): Promise<void> {
+    this.initialized = false;
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  getModelName(): string {
+    return this.config.name;
+  }
+}
+
+function matchesCondition(condition: RoutingCondition, request: RoutingRequest): boolean {
+  const { args, promptTokens, capabilities } = request;
+
+  if (condition.minPromptTokens !== undefined && promptTokens < condition.minPromptTokens) {
+    return false;
+  }
+  if (condition.maxPromptTokens !== undefined && promptTokens > condition.maxPromptTokens) {
+    return false;
+  }
+  if (condition.tools !== undefined && condition.tools !== Boolean(args.tools?.length)) {
+    return false;
+  }
+  if (condition.thinking !== undefined && condition.thinking !== Boolean(args.enable_thinking)) {
+    return false;
+  }
+  if (condition.webgpu !== undefined && condition.webgpu !== capabilities.webgpu) {
+    return false;
+  }
+  if (
+    condition.minDeviceMemory !== undefined &&
+    (capabilities.deviceMemory === undefined || capabilities.deviceMemory < condition.minDeviceMemory)
+  ) {
+    return false;
+  }
+  return !condition.match || condition.match(request);
+}
+
+/**
+ * Detects the capabilities of the device from the browser
+ */
+function detectCapabilities(): DeviceCapabilities {
+  if (typeof navigator === 'undefined') {
+    return { webgpu: false };
+  }
+  const capabilities: DeviceCapabilities = { webgpu: 'gpu' in navigator };
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  if (deviceMemory !== undefined) {
+    capabilities.deviceMemory = deviceMemory;
+  }
+  return capabilities;
+}
@@ -1,9 +1,11 @@
 import type { GenerateArgs, Message, MessageContent, ToolUseContent, ToolResultContent, TextContent } from '../types/worker';
+import type { NonStreamingResponse, StreamPart } from '../types/session';
+import { ProviderAPIError } from '../types/provider';
 
 /**
  * Supported model provider types for message transformation
  */
-export type ModelProvider = 'anthropic' | 'openai';
+export type ModelProvider = 'anthropic' | 'openai' | 'openai-chat';
 
 /**
  * OpenAI Response API types
@@ -101,14 +103,226 @@ export namespace OpenAI {
       error?: Error | null;
       incomplete_details?: IncompleteDetails | null;
     }
+
+    /**
+     * Server-sent events of a streamed response
+     * https://platform.openai.com/docs/api-reference/responses-streaming
+     */
+    export type StreamEvent =
+      | { type: 'response.created' | 'response.in_progress'; response: ResponseObject }
+      | { type: 'response.completed' | 'response.incomplete' | 'response.failed'; response: ResponseObject }
+      | { type: 'response.output_item.added' | 'response.output_item.done'; output_index: number; item: OutputItem }
+      | { type: 'response.output_text.delta'; output_index: number; content_index: number; delta: string }
+      | { type: 'response.reasoning_summary_text.delta'; output_index: number; delta: string }
+      | { type: 'response.function_call_arguments.delta'; output_index: number; item_id: string; delta: string }
+      | { type: 'error'; code: string | null; message: string };
+  }
+}
+
+/**
+ * OpenAI Chat Completions API types, also spoken by OpenAI-compatible servers
+ * such as llama.cpp, vLLM, Ollama and LM Studio
+ * https://platform.openai.com/docs/api-reference/chat
+ */
+export namespace OpenAIChat {
+  /**
+   * Request format types
+   */
+  export namespace Request {
+    export interface ToolCall {
+      id: string;
+      type: 'function';
+      function: {
+        name: string;
+        arguments: string;
+      };
+    }
+
+    export type ChatMessage =
+      | { role: 'system' | 'user'; content: string }
+      | { role: 'assistant'; content: string | null; tool_calls?: ToolCall[] }
+      | { role: 'tool'; tool_call_id: string; content: string };
+
+    export interface Tool {
+      type: 'function';
+      function: {
+        name: string;
+        description: string;
+        parameters: Record<string, any>;
+      };
+    }
+  }
+
+  /**
+   * Response format types
+   */
+  export namespace Response {
+    export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'function_call';
+
+    export interface Usage {
+      prompt_tokens: number;
+      completion_tokens: number;
+      total_tokens: number;
+    }
+
+    export interface ChatCompletion {
+      id: string;
+      object: 'chat.completion';
+      model: string;
+      choices: Array<{
+        index: number;
+        message: {
+          role: 'assistant';
+          content: string | null;
+          reasoning_content?: string | null; // Reasoning of llama.cpp, vLLM and DeepSeek
+          tool_calls?: Request.ToolCall[];
+        };
+        finish_reason: FinishReason | null;
+      }>;
+      usage?: Usage;
+    }
+
+    export interface ToolCallDelta {
+      index: number;
+      id?: string;
+      type?: 'function';
+      function?: {
+        name?: string;
+        arguments?: string;
+      };
+    }
+
+    export interface ChatCompletionChunk {
+      id: string;
+      object: 'chat.completion.chunk';
+      model: string;
+      choices: Array<{
+        index: number;
+        delta: {
+          role?: 'assistant';
+          content?: string | null;
+          reasoning_content?: string | null;
+          reasoning?: string | null; // Reasoning of Ollama
+          tool_calls?: ToolCallDelta[];
+        };
+        finish_reason: FinishReason | null;
+      }>;
+      usage?: Usage | null; // Final chunk when stream_options.include_usage is set
+    }
+
+    export interface Error {
+      message: string;
+      type?: string;
+      code?: string | null;
+    }
+  }
+}
+
+/**
+ * Anthropic Messages API types
+ * https://docs.anthropic.com/en/api/messages
+ */
+export namespace Anthropic {
+  /**
+   * Request format types
+   */
+  export namespace Request {
+    export interface TextBlock {
+      type: 'text';
+      text: string;
+    }
+
+    export interface ToolUseBlock {
+      type: 'tool_use';
+      id: string;
+      name: string;
+      input: Record<string, any>;
+    }
+
+    export interface ToolResultBlock {
+      type: 'tool_result';
+      tool_use_id: string;
+      content: string;
+    }
+
+    export type ContentBlock = TextBlock | ToolUseBlock | ToolResultBlock;
+
+    export interface MessageParam {
+      role: 'user' | 'assistant';
+      content: string | ContentBlock[];
+    }
+
+    export interface Tool {
+      name: string;
+      description: string;
+      input_schema: Record<string, any>;
+    }
+  }
+
+  /**
+   * Response format types
+   */
+  export namespace Response {
+    export interface TextBlock {
+      type: 'text';
+      text: string;
+    }
+
+    export interface ThinkingBlock {
+      type: 'thinking';
+      thinking: string;
+      signature?: string;
+    }
+
+    export interface ToolUseBlock {
+      type: 'tool_use';
+      id: string;
+      name: string;
+      input: Record<string, any>;
+    }
+
+    export type ContentBlock = TextBlock | ThinkingBlock | ToolUseBlock;
+
+    export type StopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | 'pause_turn' | 'refusal';
+
+    export interface Usage {
+      input_tokens: number;
+      output_tokens: number;
+    }
+
+    export interface Message {
+      id: string;
+      type: 'message';
+      role: 'assistant';
+      model: string;
+      content: ContentBlock[];
+      stop_reason: StopReason | null;
+      usage: Usage;
+    }
+
+    export interface Error {
+      type: string;
+      message: string;
+    }
   }
 }
 
 /**
- * Transform GenerateArgs to OpenAI Response API request format
+ * max_tokens sent to Anthropic when the request does not set max_new_tokens
+ */
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 1024;
+
+function toContentBlocks(content: string | Anthropic.Request.ContentBlock[]): Anthropic.Request.ContentBlock[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * Transform GenerateArgs to the request format of a model provider:
+ * the OpenAI Response API, the OpenAI Chat Completions API or the
+ * Anthropic Messages API
  * 
  * @param generateArgs - Native GenerateArgs format
- * @param provider - Target provider ('anthropic' or 'openai')
+ * @param provider - Target provider ('anthropic', 'openai' or 'openai-chat')
  * @returns Transformed request payload for the provider
  */
 export function transformArgs(
@@ -183,8 +397,20 @@ export function transformArgs(
         ...tool
       }));
 
-      // Destructure to exclude fields we don't want in the OpenAI payload
-      const { max_new_tokens, messages: _, ...restArgs } = generateArgs;
+      // Destructure to exclude fields we don't want in the OpenAI payload,
+      // including options of the on-device runtime and the Chat Completions
+      // options (seed, stop) that the Responses API rejects
+      const {
+        max_new_tokens,
+        messages: _,
+        top_k: _topK,
+        repetition_penalty: _repetitionPenalty,
+        enable_thinking: _enableThinking,
+        deterministic: _deterministic,
+        seed: _seed,
+        stop: _stop,
+        ...restArgs
+      } = generateArgs;
 
       // Return full OpenAI request payload
       return {
@@ -195,16 +421,151 @@ export function transformArgs(
       };
     }
     
+    case 'openai-chat': {
+      const messages: OpenAIChat.Request.ChatMessage[] = [];
+
+      for (const message of generateArgs.messages) {
+        if (typeof message.content === 'string') {
+          messages.push({ role: message.role, content: message.content });
+          continue;
+        }
+
+        let text = '';
+        const toolCalls: OpenAIChat.Request.ToolCall[] = [];
+        for (const content of message.content) {
+          if (content.type === 'text') {
+            text += content.text;
+          } else if (content.type === 'tool_use') {
+            toolCalls.push({
+              id: content.id,
+              type: 'function',
+              function: {
+                name: content.name,
+                arguments: typeof content.arguments === 'string'
+                  ? content.arguments
+                  : JSON.stringify(content.arguments)
+              }
+            });
+          } else if (content.type === 'tool_result') {
+            // Tool results are messages of their own with the tool role
+            messages.push({ role: 'tool', tool_call_id: content.tool_use_id, content: content.result });
+          }
+        }
+
+        if (message.role === 'assistant') {
+          if (text || toolCalls.length > 0) {
+            messages.push({
+              role: 'assistant',
+              content: text || null,
+              ...(toolCalls.length > 0 && { tool_calls: toolCalls })
+            });
+          }
+        } else if (text) {
+          messages.push({ role: message.role, content: text });
+        }
+      }
+
+      const tools: OpenAIChat.Request.Tool[] | undefined = generateArgs.tools?.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }
+      }));
+
+      // Only fields of the Chat Completions API are sent, OpenAI rejects unknown ones
+      return {
+        messages,
+        ...(tools && { tools }),
+        ...(generateArgs.max_new_tokens !== undefined && { max_tokens: generateArgs.max_new_tokens }),
+        ...(generateArgs.temperature !== undefined && { temperature: generateArgs.temperature }),
+        ...(generateArgs.top_p !== undefined && { top_p: generateArgs.top_p }),
+        ...(generateArgs.seed !== undefined && { seed: generateArgs.seed }),
+        ...(generateArgs.stop && { stop: generateArgs.stop }),
+        ...(generateArgs.stream !== undefined && { stream: generateArgs.stream }),
+        // Usage is only streamed when asked for
+        ...(generateArgs.stream && { stream_options: { include_usage: true } })
+      };
+    }
+
+    case 'anthropic': {
+      // System messages move to the top-level system prompt
+      const system = generateArgs.messages
+        .filter(message => message.role === 'system')
+        .map(message => typeof message.content === 'string'
+          ? message.content
+          : message.content.map(content => content.type === 'text' ? content.text : '').join(''))
+        .filter(Boolean)
+        .join('\n\n');
+
+      const messages: Anthropic.Request.MessageParam[] = [];
+      for (const message of generateArgs.messages) {
+        if (message.role === 'system') {
+          continue;
+        }
+
+        const blocks: Anthropic.Request.ContentBlock[] = typeof message.content === 'string'
+          ? [{ type: 'text', text: message.content }]
+          : message.content.map((content): Anthropic.Request.ContentBlock => {
+              switch (content.type) {
+                case 'text':
+                  return { type: 'text', text: content.text };
+                case 'tool_use':
+                  return { type: 'tool_use', id: content.id, name: content.name, input: content.arguments };
+                case 'tool_result':
+                  return { type: 'tool_result', tool_use_id: content.tool_use_id, content: content.result };
+              }
+            });
+
+        // Anthropic rejects empty text blocks
+        const content = blocks.filter(block => block.type !== 'text' || block.text);
+        if (content.length === 0) {
+          continue;
+        }
+
+        // Consecutive messages of the same role are merged into one turn
+        const previous = messages[messages.length - 1];
+        if (previous?.role === message.role) {
+          previous.content = [...toContentBlocks(previous.content), ...content];
+        } else if (typeof message.content === 'string') {
+          messages.push({ role: message.role, content: message.content });
+        } else {
+          messages.push({ role: message.role, content });
+        }
+      }
+
+      const tools: Anthropic.Request.Tool[] | undefined = generateArgs.tools?.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters
+      }));
+
+      // Only fields of the Messages API are sent, it rejects unknown ones
+      return {
+        messages,
+        ...(system && { system }),
+        ...(tools && { tools }),
+        max_tokens: generateArgs.max_new_tokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS, // Required by Anthropic
+        ...(generateArgs.temperature !== undefined && { temperature: generateArgs.temperature }),
+        ...(generateArgs.top_p !== undefined && { top_p: generateArgs.top_p }),
+        ...(generateArgs.top_k !== undefined && { top_k: generateArgs.top_k }),
+        ...(generateArgs.stop && { stop_sequences: generateArgs.stop }),
+        ...(generateArgs.stream !== undefined && { stream: generateArgs.stream })
+      };
+    }
+
     default:
       return generateArgs;
   }
 }
 
 /**
- * Transform OpenAI Response API response to native Message format
+ * Transform an OpenAI Response API, OpenAI Chat Completions API or
+ * Anthropic Messages API response to native Message format
  * 
- * @param responseData - OpenAI Response API response object
- * @param provider - Source provider ('anthropic' or 'openai')
+ * @param responseData - Response object of the provider
+ * @param provider - Source provider ('anthropic', 'openai' or 'openai-chat')
  * @returns Messages in native format
  */
 export function transformResponse(
@@ -259,6 +620,56 @@ export function transformResponse(
       return messages;
     }
     
+    case 'openai-chat': {
+      const message = responseData.choices?.[0]?.message;
+      if (!message) {
+        return [];
+      }
+
+      const content: MessageContent[] = [];
+      if (message.content) {
+        content.push({ type: 'text', text: message.content });
+      }
+      for (const toolCall of (message.tool_calls ?? []) as OpenAIChat.Request.ToolCall[]) {
+        content.push({
+          type: 'tool_use',
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {}
+        });
+      }
+
+      return [{
+        role: 'assistant',
+        content: content.length === 1 && content[0]?.type === 'text'
+          ? content[0].text
+          : content
+      }];
+    }
+
+    case 'anthropic': {
+      if (!Array.isArray(responseData.content)) {
+        return [];
+      }
+
+      // Thinking blocks are reasoning, not part of the message
+      const content: MessageContent[] = [];
+      for (const block of responseData.content as Anthropic.Response.ContentBlock[]) {
+        if (block.type === 'text') {
+          content.push({ type: 'text', text: block.text });
+        } else if (block.type === 'tool_use') {
+          content.push({ type: 'tool_use', id: block.id, name: block.name, arguments: block.input ?? {} });
+        }
+      }
+
+      return [{
+        role: 'assistant',
+        content: content.length === 1 && content[0]?.type === 'text'
+          ? content[0].text
+          : content
+      }];
+    }
+
     default:
       return [];
   }
@@ -285,3 +696,275 @@ export function transformMessagesToProvider(
   return messages;
 }
 
+/**
+ * Map an Anthropic stop reason to a finish reason
+ *
+ * @param stopReason - The stop_reason of an Anthropic message
+ * @returns The finish reason, or undefined if there is none
+ */
+export function transformStopReason(
+  stopReason: Anthropic.Response.StopReason | null | undefined
+): NonStreamingResponse['finishReason'] {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'stop_sequence':
+    case 'pause_turn':
+      return 'stop';
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    case 'refusal':
+      return 'content_filter';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * State of a stream whose native events are transformed into stream parts
+ */
+export interface StreamTransformState {
+  toolCallIndexes: Map<number, number>; // Content block or output item index to tool call index
+  promptTokens: number;
+  finishReason?: NonStreamingResponse['finishReason']; // Finish reason held back until usage arrives
+}
+
+export function createStreamTransformState(): StreamTransformState {
+  return { toolCallIndexes: new Map(), promptTokens: 0 };
+}
+
+// HTTP status of each OpenAI error code
+const OPENAI_ERROR_STATUS: Record<string, number> = {
+  invalid_prompt: 400,
+  invalid_request_error: 400,
+  rate_limit_exceeded: 429,
+  server_error: 500
+};
+
+// HTTP status of each Anthropic error type
+const ANTHROPIC_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529
+};
+
+/**
+ * Transform a native SSE event of a model provider into stream parts
+ *
+ * @param event - The parsed data of the SSE event
+ * @param provider - The model provider that sent the event
+ * @param state - The state of the stream, updated by the event
+ * @returns The stream parts, or undefined if the event is not a native event of the provider
+ */
+export function transformStreamEvent(
+  event: any,
+  provider: ModelProvider,
+  state: StreamTransformState
+): StreamPart[] | undefined {
+  switch (provider) {
+    case 'openai': {
+      switch (event?.type) {
+        case 'response.output_item.added': {
+          const item: OpenAI.Response.OutputItem | undefined = event.item;
+          if (item?.type !== 'function_call') {
+            return [];
+          }
+          const index = state.toolCallIndexes.size;
+          state.toolCallIndexes.set(event.output_index, index);
+          return [{ type: 'tool-call-delta', index, id: item.call_id, name: item.name, argumentsDelta: item.arguments ?? '' }];
+        }
+
+        case 'response.output_text.delta':
+          return event.delta ? [{ type: 'text-delta', text: event.delta }] : [];
+
+        case 'response.reasoning_summary_text.delta':
+          return event.delta ? [{ type: 'reasoning-delta', text: event.delta }] : [];
+
+        case 'response.function_call_arguments.delta': {
+          const index = state.toolCallIndexes.get(event.output_index);
+          return index !== undefined && event.delta
+            ? [{ type: 'tool-call-delta', index, argumentsDelta: event.delta }]
+            : [];
+        }
+
+        case 'response.completed':
+        case 'response.incomplete': {
+          const response: OpenAI.Response.ResponseObject | undefined = event.response;
+          const parts: StreamPart[] = [];
+          if (response?.usage) {
+            const { input_tokens: promptTokens = 0, output_tokens: completionTokens = 0 } = response.usage;
+            parts.push({
+              type: 'usage',
+              usage: { promptTokens, completionTokens, totalTokens: response.usage.total_tokens ?? promptTokens + completionTokens }
+            });
+          }
+          let finishReason: NonNullable<NonStreamingResponse['finishReason']> =
+            state.toolCallIndexes.size > 0 ? 'tool_calls' : 'stop';
+          if (event.type === 'response.incomplete') {
+            finishReason = response?.incomplete_details?.reason === 'content_filter' ? 'content_filter' : 'length';
+          }
+          parts.push({ type: 'finish', finishReason });
+          return parts;
+        }
+
+        case 'response.failed':
+        case 'error': {
+          // Failed responses carry the error in the response, error events at the top level
+          if (event.type === 'error' && typeof event.message !== 'string') {
+            return undefined;
+          }
+          const error: OpenAI.Response.Error | null | undefined =
+            event.type === 'error' ? event : event.response?.error;
+          const code = error?.code ?? 'server_error';
+          return [{
+            type: 'error',
+            error: new ProviderAPIError(error?.message || 'Unknown API error', OPENAI_ERROR_STATUS[code] ?? 500, code)
+          }];
+        }
+
+        default:
+          // Lifecycle events such as response.created carry no content
+          return typeof event?.type === 'string' && event.type.startsWith('response.') ? [] : undefined;
+      }
+    }
+
+    case 'openai-chat': {
+      if (!Array.isArray(event?.choices)) {
+        // Errors in the middle of a stream are sent without choices
+        const error: OpenAIChat.Response.Error | undefined = event?.error;
+        if (event?.type !== undefined || typeof error?.message !== 'string') {
+          return undefined;
+        }
+        const code = error.code ?? error.type ?? 'server_error';
+        return [{
+          type: 'error',
+          error: new ProviderAPIError(error.message || 'Unknown API error', OPENAI_ERROR_STATUS[code] ?? 500, code)
+        }];
+      }
+
+      const chunk = event as OpenAIChat.Response.ChatCompletionChunk;
+      const parts: StreamPart[] = [];
+      const choice = chunk.choices[0];
+      const delta = choice?.delta;
+
+      const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+      if (reasoning) {
+        parts.push({ type: 'reasoning-delta', text: reasoning });
+      }
+      if (delta?.content) {
+        parts.push({ type: 'text-delta', text: delta.content });
+      }
+      for (const toolCall of delta?.tool_calls ?? []) {
+        // Servers that send whole tool calls may leave out the index
+        const index = toolCall.index ?? state.toolCallIndexes.size;
+        const part: StreamPart = { type: 'tool-call-delta', index, argumentsDelta: toolCall.function?.arguments ?? '' };
+        if (!state.toolCallIndexes.has(index)) {
+          state.toolCallIndexes.set(index, index);
+        }
+        if (toolCall.id) part.id = toolCall.id;
+        if (toolCall.function?.name) part.name = toolCall.function.name;
+        parts.push(part);
+      }
+
+      if (choice?.finish_reason) {
+        state.finishReason = choice.finish_reason === 'function_call' ? 'tool_calls' : choice.finish_reason;
+      }
+
+      // With stream_options.include_usage, usage follows the finish reason in a
+      // chunk without choices, so the stream only finishes once it arrives
+      if (chunk.usage) {
+        const { prompt_tokens: promptTokens = 0, completion_tokens: completionTokens = 0 } = chunk.usage;
+        parts.push(
+          {
+            type: 'usage',
+            usage: { promptTokens, completionTokens, totalTokens: chunk.usage.total_tokens ?? promptTokens + completionTokens }
+          },
+          { type: 'finish', finishReason: state.finishReason ?? (state.toolCallIndexes.size > 0 ? 'tool_calls' : 'stop') }
+        );
+      }
+      return parts;
+    }
+
+    case 'anthropic': {
+      switch (event?.type) {
+        case 'message_start':
+          state.promptTokens = event.message?.usage?.input_tokens ?? 0;
+          return [];
+
+        case 'content_block_start': {
+          const block = event.content_block;
+          if (block?.type !== 'tool_use') {
+            return [];
+          }
+          const index = state.toolCallIndexes.size;
+          state.toolCallIndexes.set(event.index, index);
+          return [{ type: 'tool-call-delta', index, id: block.id, name: block.name, argumentsDelta: '' }];
+        }
+
+        case 'content_block_delta': {
+          const delta = event.delta;
+          switch (delta?.type) {
+            case 'text_delta':
+              return delta.text ? [{ type: 'text-delta', text: delta.text }] : [];
+            case 'thinking_delta':
+              return delta.thinking ? [{ type: 'reasoning-delta', text: delta.thinking }] : [];
+            case 'input_json_delta': {
+              const index = state.toolCallIndexes.get(event.index);
+              return index !== undefined && delta.partial_json
+                ? [{ type: 'tool-call-delta', index, argumentsDelta: delta.partial_json }]
+                : [];
+            }
+            default:
+              return [];
+          }
+        }
+
+        case 'message_delta': {
+          // Usage in message_delta is cumulative
+          const parts: StreamPart[] = [];
+          if (event.usage) {
+            const completionTokens = event.usage.output_tokens ?? 0;
+            const promptTokens = event.usage.input_tokens ?? state.promptTokens;
+            parts.push({
+              type: 'usage',
+              usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+            });
+          }
+          const finishReason = transformStopReason(event.delta?.stop_reason);
+          if (finishReason) {
+            parts.push({ type: 'finish', finishReason });
+          }
+          return parts;
+        }
+
+        case 'content_block_stop':
+        case 'message_stop':
+        case 'ping':
+          return [];
+
+        case 'error': {
+          const error: Anthropic.Response.Error | undefined = event.error;
+          if (typeof error?.type !== 'string') {
+            return undefined;
+          }
+          return [{
+            type: 'error',
+            error: new ProviderAPIError(error.message || 'Unknown API error', ANTHROPIC_ERROR_STATUS[error.type] ?? 500, error.type)
+          }];
+        }
+
+        default:
+          return undefined;
+      }
+    }
+
+    default:
+      return undefined;
+  }
+}
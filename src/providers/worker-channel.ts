@@ -0,0 +1,296 @@
+import type { InboundMessage } from '../types/worker';
+import type { SessionEvent } from '../types/events';
+import { DeviceProviderConfig, ProviderError, ProviderCancelledError } from '../types/provider';
+import { logger } from '../utils/logger';
+
+/**
+ * Creates a worker running the device inference runtime
+ */
+export function createWorker(): Worker {
+  return new Worker(
+    new URL('./runtime/worker.js', import.meta.url),
+    { type: 'module' }
+  );
+}
+
+/**
+ * Request and response messaging with a device inference worker
+ */
+export class WorkerChannel {
+  readonly worker: Worker;
+  private inflightId: number = 0;
+
+  constructor(worker: Worker) {
+    this.worker = worker;
+  }
+
+  /**
+   * Generate next request ID
+   */
+  nextId(): string {
+    this.inflightId += 1;
+    return String(this.inflightId);
+  }
+
+  post(message: InboundMessage): void {
+    this.worker.postMessage(message);
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+  }
+
+  /**
+   * Loads a model in the worker, emitting the worker init events
+   *
+   * @param config - The configuration of the model
+   * @param emit - Emits the init events of the model
+   * @param modelKey - Optional key of the model, for workers that host several models
+   */
+  async init(
+    config: DeviceProviderConfig,
+    emit: (event: SessionEvent) => void,
+    modelKey?: string
+  ): Promise<void> {
+    const initStartTime = Date.now();
+
+    // Emit worker init start event
+    emit({
+      type: 'worker:init:start',
+      modelName: config.model,
+      timestamp: initStartTime
+    });
+
+    const initId = this.nextId();
+    // The pool stays on this side, the worker only needs the model settings
+    const { pool, ...workerConfig } = config;
+
+    this.post({
+      type: 'init',
+      requestId: initId,
+      ...(modelKey !== undefined && { modelKey }),
+      args: {
+        config: workerConfig,
+      },
+    });
+
+    try {
+      await this.once(
+        initId,
+        undefined,
+        // Progress callback
+        (msg) => {
+          if (msg.type === 'progress' && msg.args) {
+            emit({
+              type: 'worker:init:progress',
+              modelName: config.model,
+              progress: msg.args.progress,
+              stage: msg.args.status || msg.args.file || 'loading',
+              timestamp: Date.now()
+            });
+          }
+        }
+      );
+
+      // Emit worker init complete event
+      emit({
+        type: 'worker:init:complete',
+        modelName: config.model,
+        duration: Date.now() - initStartTime,
+        timestamp: Date.now()
+      });
+
+      logger.deviceProvider?.info('Device provider initialized successfully', {
+        model: config.model,
+        duration: Date.now() - initStartTime
+      });
+    } catch (error: any) {
+      logger.deviceProvider?.error('Device provider initialization failed', {
+        model: config.model,
+        error: error.message
+      });
+      throw new ProviderError(
+        `Failed to initialize WebGPU provider: ${error.message}`,
+        'device',
+        500
+      );
+    }
+  }
+
+  /**
+   * Wait for a single response from the worker
+   *
+   * @param requestId - The request ID to wait for
+   * @param filter - A filter function to apply to the message
+   * @param onProgress - A callback function to handle progress messages
+   * @returns A promise that resolves to the message
+   */
+  once<T = unknown>(
+    requestId: string,
+    filter?: (m: any) => boolean,
+    onProgress?: (msg: any) => void
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const onMessage = (ev: MessageEvent<any>) => {
+        const msg = ev.data;
+        if (!msg || msg.requestId !== requestId) return;
+
+        // Handle progress messages separately
+        if (msg.type === 'progress' && onProgress) {
+          onProgress(msg);
+          return; // Don't resolve/reject on progress
+        }
+
+        if (filter && !filter(msg)) return;
+
+        this.worker.removeEventListener('message', onMessage as any);
+        this.worker.removeEventListener('error', onError as any);
+
+        if (msg.type === 'error') {
+          reject(new ProviderError(
+            msg.args?.error || 'Worker error',
+            'webgpu',
+            500
+          ));
+        } else {
+          resolve(msg);
+        }
+      };
+
+      const onError = (e: ErrorEvent) => {
+        this.worker.removeEventListener('message', onMessage as any);
+        this.worker.removeEventListener('error', onError as any);
+        reject(
+          new ProviderError(
+            e.error?.message || e.message || 'Worker error',
+            'webgpu',
+            500
+          )
+        );
+      };
+
+      this.worker.addEventListener('message', onMessage as any);
+      this.worker.addEventListener('error', onError as any);
+    });
+  }
+
+  /**
+   * Stream messages from the worker
+   *
+   * @param requestId - The request ID to stream messages for
+   * @param handler - Maps a worker message to a value, null to end the stream or undefined to skip it
+   * @param signal - Optional signal that cancels the generation in the worker
+   */
+  async *stream<T>(
+    requestId: string,
+    handler: (msg: any) => T | null | undefined,
+    signal?: AbortSignal
+  ): AsyncIterable<T> {
+    const messageQueue: T[] = [];
+    let isDone = false;
+    let error: Error | null = null;
+    let resolveNext: ((value: IteratorResult<T>) => void) | null = null;
+
+    const onMessage = (ev: MessageEvent<any>) => {
+      const msg = ev.data;
+      if (!msg || msg.requestId !== requestId) return;
+
+      try {
+        const result = handler(msg);
+
+        if (result === null) {
+          // Signal to end stream
+          isDone = true;
+          if (resolveNext) {
+            resolveNext({ value: undefined as any, done: true });
+            resolveNext = null;
+          }
+        } else if (result !== undefined) {
+          // Add to queue
+          messageQueue.push(result);
+          if (resolveNext) {
+            const value = messageQueue.shift()!;
+            resolveNext({ value, done: false });
+            resolveNext = null;
+          }
+        }
+      } catch (e: any) {
+        error = e;
+        isDone = true;
+        if (resolveNext) {
+          resolveNext({ value: undefined as any, done: true });
+          resolveNext = null;
+        }
+      }
+    };
+
+    const onError = (e: ErrorEvent) => {
+      error = new ProviderError(
+        e.error?.message || e.message || 'Worker error',
+        'device',
+        500
+      );
+      isDone = true;
+      if (resolveNext) {
+        resolveNext({ value: undefined as any, done: true });
+        resolveNext = null;
+      }
+    };
+
+    const onAbort = () => {
+      // Stop token generation in the worker; its remaining messages are ignored
+      this.post({ type: 'cancel', requestId });
+      error = new ProviderCancelledError();
+      if (resolveNext) {
+        resolveNext({ value: undefined as any, done: true });
+        resolveNext = null;
+      }
+    };
+
+    this.worker.addEventListener('message', onMessage as any);
+    this.worker.addEventListener('error', onError as any);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (signal?.aborted) {
+      onAbort();
+    }
+
+    try {
+      while (true) {
+        if (error) {
+          throw error;
+        }
+
+        if (messageQueue.length > 0) {
+          yield messageQueue.shift()!;
+          continue;
+        }
+
+        if (isDone) {
+          break;
+        }
+
+        // Wait for next message
+        const result = await new Promise<IteratorResult<T>>((resolve) => {
+          resolveNext = resolve;
+        });
+
+        if (error) {
+          throw error;
+        }
+
+        // If we got a value from the promise resolution, yield it
+        if (!result.done && result.value !== undefined) {
+          yield result.value;
+        }
+
+        if (isDone) {
+          break;
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this.worker.removeEventListener('message', onMessage as any);
+      this.worker.removeEventListener('error', onError as any);
+    }
+  }
+}
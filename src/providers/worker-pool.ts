@@ -0,0 +1,421 @@
+import type { SessionEvent } from '../types/events';
+import {
+  DeviceProviderConfig,
+  ProviderCancelledError,
+  ProviderConfigurationError,
+  ProviderError
+} from '../types/provider';
+import { EventEmitter } from '../utils/event-emitter';
+import { logger } from '../utils/logger';
+import { getModelConfig, isSupportedModel } from './device-model-config';
+import { WorkerChannel, createWorker } from './worker-channel';
+
+// Weights take the bytes of their data type, plus room for activations and the KV cache
+const BYTES_PER_PARAMETER: Record<string, number> = {
+  fp32: 4,
+  fp16: 2,
+  q8: 1,
+  int8: 1,
+  uint8: 1,
+  q4: 0.5,
+  bnb4: 0.5,
+  q4f16: 0.5
+};
+const MEMORY_OVERHEAD = 1.2;
+
+export interface WorkerPoolOptions {
+  /**
+   * Maximum number of workers (default: 1)
+   */
+  maxWorkers?: number;
+
+  /**
+   * Memory the loaded models may take together, in MB (default: unlimited).
+   * Idle models are unloaded, least recently used first, to make room.
+   */
+  maxMemoryMB?: number;
+
+  /**
+   * Unload models that were not used for this many milliseconds
+   * (default: models stay loaded until they need to make room)
+   */
+  idleTimeoutMs?: number;
+}
+
+export interface WorkerPoolStats {
+  workers: number;
+  memoryMB: number;
+  models: Array<{ model: string; replicas: number; memoryMB: number }>;
+}
+
+/**
+ * A worker the pool gives out to generate with one of its models
+ */
+export interface WorkerLease {
+  channel: WorkerChannel;
+  modelKey: string;
+}
+
+interface PooledWorker {
+  channel: WorkerChannel;
+  models: Map<string, { lastUsed: number; idleTimer?: ReturnType<typeof setTimeout> }>;
+  active?: string | undefined;  // The model key loading or generating in the worker
+}
+
+interface PoolEntry {
+  config: DeviceProviderConfig;
+  memoryMB: number;
+  replicas: number;
+  // Registered providers by their event emitter, which providers of a session share
+  eventEmitters: Map<EventEmitter, number>;
+}
+
+/**
+ * Pool of device inference workers shared by device models. A worker can
+ * host several models, and a model can be loaded in several workers to
+ * answer requests concurrently. Models are loaded on first use, unloaded
+ * when they are idle and memory is needed or their idle timeout passes, and
+ * loaded again when they are used next.
+ *
+ * @example
+ * ```typescript
+ * const pool = new WorkerPool({ maxWorkers: 2, maxMemoryMB: 2048, idleTimeoutMs: 300000 });
+ *
+ * const session = await createSession({
+ *   models: [
+ *     { runtime: 'transformers-js', model: 'onnx-community/Qwen3-0.6B-ONNX', quantization: 'q4', pool, replicas: 2 }
+ *   ]
+ * });
+ * ```
+ */
+export class WorkerPool {
+  private readonly options: WorkerPoolOptions;
+  private workers: PooledWorker[] = [];
+  private entries: Map<string, PoolEntry> = new Map();
+  private waiters: Array<{ resume: () => void }> = [];
+  private disposed: boolean = false;
+
+  constructor(options: WorkerPoolOptions = {}) {
+    if (options.maxWorkers !== undefined && options.maxWorkers < 1) {
+      throw new ProviderConfigurationError('maxWorkers of a worker pool must be at least 1');
+    }
+    this.options = options;
+  }
+
+  /**
+   * Registers a model of a device provider with the pool. Providers with
+   * the same model, quantization and engine share the loaded model.
+   *
+   * @param config - The configuration of the model
+   * @param eventEmitter - Receives the init and unload events of the model
+   * @returns The key of the model in the pool
+   */
+  register(config: DeviceProviderConfig, eventEmitter: EventEmitter): string {
+    const modelKey = `${config.model}|${config.quantization}|${config.engine ?? 'auto'}`;
+    const memoryMB = estimateMemoryMB(config);
+    const { maxMemoryMB } = this.options;
+    if (maxMemoryMB !== undefined && memoryMB > maxMemoryMB) {
+      throw new ProviderConfigurationError(
+        `Model ${config.model} needs ${memoryMB}MB, more than the ${maxMemoryMB}MB of its worker pool`
+      );
+    }
+
+    const entry = this.entries.get(modelKey);
+    if (entry) {
+      entry.replicas = Math.max(entry.replicas, config.replicas ?? 1);
+      entry.eventEmitters.set(eventEmitter, (entry.eventEmitters.get(eventEmitter) ?? 0) + 1);
+    } else {
+      this.entries.set(modelKey, {
+        config,
+        memoryMB,
+        replicas: config.replicas ?? 1,
+        eventEmitters: new Map([[eventEmitter, 1]])
+      });
+    }
+    return modelKey;
+  }
+
+  /**
+   * Removes a device provider from the pool, unloading its model once no
+   * provider uses it
+   *
+   * @param modelKey - The key returned by register
+   * @param eventEmitter - The event emitter the provider registered with
+   */
+  async unregister(modelKey: string, eventEmitter: EventEmitter): Promise<void> {
+    const entry = this.entries.get(modelKey);
+    if (!entry) {
+      return;
+    }
+    const providers = entry.eventEmitters.get(eventEmitter) ?? 0;
+    if (providers > 1) {
+      entry.eventEmitters.set(eventEmitter, providers - 1);
+    } else {
+      entry.eventEmitters.delete(eventEmitter);
+    }
+    if (entry.eventEmitters.size > 0) {
+      return;
+    }
+
+    this.entries.delete(modelKey);
+    // Workers still generating with the model unload it when they are released
+    const idleWorkers = this.workers.filter(worker => worker.models.has(modelKey) && worker.active !== modelKey);
+    await Promise.all(idleWorkers.map(worker => this.unload(worker, modelKey)));
+    this.resumeWaiters();
+  }
+
+  /**
+   * Waits for a worker that has the model loaded and is free, loading the
+   * model in a worker when it has fewer replicas than configured
+   *
+   * @param modelKey - The key returned by register
+   * @param signal - Optional signal that stops waiting
+   * @returns The worker to generate with, to be released when the worker is done
+   */
+  async acquire(modelKey: string, signal?: AbortSignal): Promise<WorkerLease> {
+    while (true) {
+      if (signal?.aborted) {
+        throw new ProviderCancelledError();
+      }
+      if (this.disposed) {
+        throw new ProviderError('Worker pool has been disposed', 'DISPOSED', 400);
+      }
+      const entry = this.entries.get(modelKey);
+      if (!entry) {
+        throw new ProviderError(`Model ${modelKey} is not registered with the worker pool`, 'UNREGISTERED', 400);
+      }
+
+      const loaded = this.workers.find(worker => !worker.active && worker.models.has(modelKey));
+      if (loaded) {
+        return this.lease(loaded, modelKey);
+      }
+
+      const replicas = this.workers.filter(worker => worker.models.has(modelKey)).length;
+      if (replicas < entry.replicas) {
+        const worker = await this.workerToLoad(modelKey, entry.memoryMB);
+        if (worker) {
+          return this.load(worker, modelKey, entry);
+        }
+      }
+
+      await this.waitForRelease(signal);
+    }
+  }
+
+  /**
+   * Returns a worker to the pool once its generation is done
+   *
+   * @param lease - The lease returned by acquire
+   */
+  release(lease: WorkerLease): void {
+    const worker = this.workers.find(pooled => pooled.channel === lease.channel);
+    if (!worker) {
+      return;
+    }
+    worker.active = undefined;
+
+    const loadedModel = worker.models.get(lease.modelKey);
+    if (loadedModel) {
+      loadedModel.lastUsed = Date.now();
+      if (!this.entries.has(lease.modelKey)) {
+        // Unregistered while it was generating
+        this.unload(worker, lease.modelKey).catch(() => {});
+      } else if (this.options.idleTimeoutMs !== undefined) {
+        loadedModel.idleTimer = setTimeout(() => {
+          if (worker.active !== lease.modelKey) {
+            this.unload(worker, lease.modelKey, 'idle').catch(() => {});
+          }
+        }, this.options.idleTimeoutMs);
+      }
+    }
+    this.resumeWaiters();
+  }
+
+  /**
+   * Workers, memory and loaded replicas of the pool
+   */
+  getStats(): WorkerPoolStats {
+    const models = Array.from(this.entries.entries()).map(([modelKey, entry]) => ({
+      model: entry.config.model,
+      replicas: this.workers.filter(worker => worker.models.has(modelKey)).length,
+      memoryMB: entry.memoryMB
+    }));
+    return { workers: this.workers.length, memoryMB: this.usedMemoryMB(), models };
+  }
+
+  /**
+   * Terminates the workers of the pool
+   */
+  async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.resumeWaiters();
+
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(async (worker) => {
+      worker.models.forEach(loadedModel => clearTimeout(loadedModel.idleTimer));
+      const requestId = worker.channel.nextId();
+      worker.channel.post({ type: 'dispose', requestId });
+      await worker.channel.once(requestId).catch(() => {});
+      worker.channel.terminate();
+    }));
+    logger.deviceProvider?.info('Worker pool disposed', { workerCount: workers.length });
+  }
+
+  private lease(worker: PooledWorker, modelKey: string): WorkerLease {
+    const loadedModel = worker.models.get(modelKey)!;
+    clearTimeout(loadedModel.idleTimer);
+    loadedModel.lastUsed = Date.now();
+    worker.active = modelKey;
+    return { channel: worker.channel, modelKey };
+  }
+
+  /**
+   * Finds a free worker with memory to load the model in: an empty worker,
+   * a new one, or one hosting other models. Unloads idle models, least
+   * recently used first, to make room.
+   */
+  private async workerToLoad(modelKey: string, memoryMB: number): Promise<PooledWorker | undefined> {
+    const free = this.workers.filter(worker => !worker.active && !worker.models.has(modelKey));
+    let worker = free.find(pooled => pooled.models.size === 0);
+    if (!worker && this.workers.length < (this.options.maxWorkers ?? 1)) {
+      worker = { channel: new WorkerChannel(createWorker()), models: new Map() };
+      this.workers.push(worker);
+      logger.deviceProvider?.debug('Worker added to pool', { workerCount: this.workers.length });
+    }
+    worker ??= free[0];
+    if (!worker) {
+      return undefined;
+    }
+    // Reserved while memory is made, so no other request takes the worker
+    worker.active = modelKey;
+
+    const { maxMemoryMB } = this.options;
+    while (maxMemoryMB !== undefined && this.usedMemoryMB() + memoryMB > maxMemoryMB) {
+      const leastRecentlyUsed = this.idleModels()
+        .filter(idle => idle.modelKey !== modelKey)
+        .sort((a, b) => a.lastUsed - b.lastUsed)[0];
+      if (!leastRecentlyUsed) {
+        worker.active = undefined;
+        this.removeIfEmpty(worker);
+        return undefined;
+      }
+      await this.unload(leastRecentlyUsed.worker, leastRecentlyUsed.modelKey, 'memory');
+    }
+    return worker;
+  }
+
+  private async load(worker: PooledWorker, modelKey: string, entry: PoolEntry): Promise<WorkerLease> {
+    worker.active = modelKey;
+    worker.models.set(modelKey, { lastUsed: Date.now() });
+    logger.deviceProvider?.debug('Loading model in pooled worker', { model: entry.config.model, modelKey });
+
+    try {
+      await worker.channel.init(entry.config, event => this.emit(entry, event), modelKey);
+    } catch (error) {
+      worker.models.delete(modelKey);
+      worker.active = undefined;
+      this.removeIfEmpty(worker);
+      this.resumeWaiters();
+      throw error;
+    }
+    return this.lease(worker, modelKey);
+  }
+
+  private async unload(worker: PooledWorker, modelKey: string, reason?: 'idle' | 'memory'): Promise<void> {
+    const loadedModel = worker.models.get(modelKey);
+    if (!loadedModel) {
+      return;
+    }
+    clearTimeout(loadedModel.idleTimer);
+    worker.models.delete(modelKey);
+
+    const entry = this.entries.get(modelKey);
+    logger.deviceProvider?.info('Unloading model from pooled worker', { modelKey, reason });
+    if (entry && reason) {
+      this.emit(entry, {
+        type: 'worker:unloaded',
+        modelName: entry.config.model,
+        reason,
+        timestamp: Date.now()
+      });
+    }
+
+    const requestId = worker.channel.nextId();
+    worker.channel.post({ type: 'unload', requestId, modelKey });
+    await worker.channel.once(requestId).catch(() => {});
+    this.removeIfEmpty(worker);
+  }
+
+  /**
+   * Terminates a worker that hosts no models, as it only takes memory
+   */
+  private removeIfEmpty(worker: PooledWorker): void {
+    if (worker.models.size > 0 || worker.active || !this.workers.includes(worker)) {
+      return;
+    }
+    this.workers = this.workers.filter(pooled => pooled !== worker);
+    worker.channel.terminate();
+    logger.deviceProvider?.debug('Empty worker removed from pool', { workerCount: this.workers.length });
+  }
+
+  private idleModels(): Array<{ worker: PooledWorker; modelKey: string; lastUsed: number }> {
+    return this.workers.flatMap(worker => Array.from(worker.models.entries())
+      .filter(([modelKey]) => worker.active !== modelKey)
+      .map(([modelKey, loadedModel]) => ({ worker, modelKey, lastUsed: loadedModel.lastUsed })));
+  }
+
+  private usedMemoryMB(): number {
+    return this.workers.reduce((total, worker) => total + Array.from(worker.models.keys())
+      .reduce((workerTotal, modelKey) => workerTotal + (this.entries.get(modelKey)?.memoryMB ?? 0), 0), 0);
+  }
+
+  private emit(entry: PoolEntry, event: SessionEvent): void {
+    entry.eventEmitters.forEach((_providers, eventEmitter) => eventEmitter.emit(event));
+  }
+
+  private waitForRelease(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(queued => queued !== waiter);
+        reject(new ProviderCancelledError());
+      };
+      const waiter = {
+        resume: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Lets waiting requests check the workers again, in the order they came
+   */
+  private resumeWaiters(): void {
+    const waiters = this.waiters.splice(0);
+    waiters.forEach(waiter => waiter.resume());
+  }
+}
+
+/**
+ * Memory the loaded model takes in MB, configured or estimated from the
+ * model size and quantization
+ */
+function estimateMemoryMB(config: DeviceProviderConfig): number {
+  if (config.memoryMB !== undefined) {
+    return config.memoryMB;
+  }
+  const parameterCount = isSupportedModel(config.model)
+    ? getModelConfig(config.model).parameterCount
+    : undefined;
+  const bytesPerParameter = BYTES_PER_PARAMETER[String(config.quantization)];
+  if (!parameterCount || !bytesPerParameter) {
+    return 0;
+  }
+  return Math.ceil(parameterCount * bytesPerParameter * MEMORY_OVERHEAD / (1024 * 1024));
+}
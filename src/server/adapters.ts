@@ -0,0 +1,131 @@
+import type { ModelResponse } from '../types/session';
+import type { CloudProviderConfig } from '../types/provider';
+import { CloudProvider } from '../providers/cloud';
+import { EventEmitter } from '../utils/event-emitter';
+import type { ProxyAdapter, ProxyRequest } from './proxy-handler';
+
+export interface VendorAdapterOptions {
+  /**
+   * API key of the model provider
+   */
+  apiKey: string;
+
+  /**
+   * Optional API endpoint, e.g. of an OpenAI-compatible server or a mock
+   * Default: the endpoint of the model provider
+   */
+  apiUrl?: string;
+
+  /**
+   * Optional headers to send to the model provider
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Optional timeout in milliseconds (default: 60000)
+   */
+  timeout?: number;
+
+  /**
+   * Optional maximum number of retries for failed requests (default: 3)
+   */
+  maxRetries?: number;
+
+  /**
+   * Optional number of models whose providers are kept (default: 16).
+   * The least recently used provider is dropped to make room for another.
+   */
+  maxProviders?: number;
+}
+
+const DEFAULT_MAX_PROVIDERS = 16;
+
+/**
+ * Proxy adapter that calls the API of a model provider with a CloudProvider
+ * in direct mode, so requests and responses go through the same
+ * transformations as on the client. One provider is created per model, and
+ * at most `maxProviders` are kept, since clients choose the model.
+ */
+export class VendorProxyAdapter implements ProxyAdapter {
+  private readonly modelProvider: NonNullable<CloudProviderConfig['modelProvider']>;
+  private readonly options: VendorAdapterOptions;
+  private readonly eventEmitter = new EventEmitter();
+  private providers = new Map<string, CloudProvider>();
+
+  constructor(
+    modelProvider: NonNullable<CloudProviderConfig['modelProvider']>,
+    options: VendorAdapterOptions
+  ) {
+    this.modelProvider = modelProvider;
+    this.options = options;
+  }
+
+  async generate(request: ProxyRequest, signal: AbortSignal): Promise<ModelResponse> {
+    const { model, ...args } = request;
+    const provider = await this.getProvider(model);
+    return provider.generate({ ...args, signal });
+  }
+
+  private async getProvider(model: string): Promise<CloudProvider> {
+    let provider = this.providers.get(model);
+    if (provider) {
+      // Map order is insertion order: move the model to the most recent end
+      this.providers.delete(model);
+      this.providers.set(model, provider);
+    } else {
+      const config: CloudProviderConfig = {
+        runtime: this.modelProvider === 'anthropic' ? 'anthropic' : 'openai',
+        model,
+        modelProvider: this.modelProvider,
+        apiKey: this.options.apiKey
+      };
+      if (this.options.apiUrl !== undefined) config.apiUrl = this.options.apiUrl;
+      if (this.options.headers !== undefined) config.headers = this.options.headers;
+      if (this.options.timeout !== undefined) config.timeout = this.options.timeout;
+      if (this.options.maxRetries !== undefined) config.maxRetries = this.options.maxRetries;
+
+      provider = new CloudProvider(config, this.eventEmitter);
+      this.providers.set(model, provider);
+
+      // Dropped, not disposed: disposing would abort its in-flight requests
+      const maxProviders = this.options.maxProviders ?? DEFAULT_MAX_PROVIDERS;
+      for (const leastRecentModel of this.providers.keys()) {
+        if (this.providers.size <= maxProviders) break;
+        this.providers.delete(leastRecentModel);
+      }
+    }
+    await provider.initialize();
+    return provider;
+  }
+}
+
+/**
+ * Creates a proxy adapter for the Anthropic Messages API.
+ *
+ * @param options - API key and request options
+ * @returns The proxy adapter
+ */
+export function createAnthropicAdapter(options: VendorAdapterOptions): VendorProxyAdapter {
+  return new VendorProxyAdapter('anthropic', options);
+}
+
+/**
+ * Creates a proxy adapter for the OpenAI Responses API.
+ *
+ * @param options - API key and request options
+ * @returns The proxy adapter
+ */
+export function createOpenAIAdapter(options: VendorAdapterOptions): VendorProxyAdapter {
+  return new VendorProxyAdapter('openai', options);
+}
+
+/**
+ * Creates a proxy adapter for the OpenAI Chat Completions API, also spoken by
+ * OpenAI-compatible servers such as vLLM, llama.cpp, Ollama and LM Studio.
+ *
+ * @param options - API key and request options; set apiUrl for other servers
+ * @returns The proxy adapter
+ */
+export function createOpenAIChatAdapter(options: VendorAdapterOptions): VendorProxyAdapter {
+  return new VendorProxyAdapter('openai-chat', options);
+}
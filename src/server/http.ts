@@ -0,0 +1,247 @@
+import { ProxyHandler, ProxyHandlerOptions, ProxyResult, toErrorResult } from './proxy-handler';
+import { ProviderAPIError } from '../types/provider';
+
+/**
+ * Default size limit of request bodies: 1 MiB
+ */
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+export interface HttpHandlerOptions extends ProxyHandlerOptions {
+  /**
+   * Optional size limit of request bodies in bytes (default: 1 MiB).
+   * Larger bodies are answered with 413 without being read to the end.
+   */
+  maxBodyBytes?: number;
+}
+
+/**
+ * The parts of a Node `http.IncomingMessage` the proxy reads. Express
+ * requests that were parsed with `express.json()` carry the body already.
+ */
+export interface NodeProxyRequest extends AsyncIterable<string | Uint8Array> {
+  body?: unknown;
+}
+
+/**
+ * The parts of a Node `http.ServerResponse` the proxy writes. Express
+ * responses are Node responses as well.
+ */
+export interface NodeProxyResponse {
+  readonly headersSent: boolean;
+  readonly writableEnded: boolean;
+  writeHead(status: number, headers: Record<string, string>): unknown;
+  write(chunk: string): unknown;
+  end(chunk?: string): unknown;
+  on(event: 'close', listener: () => void): unknown;
+}
+
+/**
+ * Creates a Fetch API handler for the CloudProvider proxy contract, e.g. for
+ * Next.js route handlers, edge functions, Deno or Bun.
+ *
+ * @param options - The adapter, request options and body size limit
+ * @returns A handler that answers a `Request` with a `Response`
+ *
+ * @example
+ * ```typescript
+ * // app/api/chat/route.ts
+ * export const POST = createFetchHandler({
+ *   adapter: createAnthropicAdapter({ apiKey: process.env.ANTHROPIC_API_KEY! })
+ * });
+ * ```
+ */
+export function createFetchHandler(options: HttpHandlerOptions): (request: Request) => Promise<Response> {
+  const handler = new ProxyHandler(options);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  return async (request: Request) => {
+    // Aborted when the client disconnects or the response stream is cancelled
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let body: unknown;
+    try {
+      body = await readFetchJson(request, maxBodyBytes);
+    } catch (error) {
+      request.signal?.removeEventListener('abort', onAbort);
+      const result = toErrorResult(error);
+      return new Response(result.body as string, { status: result.status, headers: result.headers });
+    }
+
+    const result = await handler.handle(body, abortController.signal);
+    if (typeof result.body === 'string') {
+      request.signal?.removeEventListener('abort', onAbort);
+      return new Response(result.body, { status: result.status, headers: result.headers });
+    }
+
+    const iterator = result.body[Symbol.asyncIterator]();
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await iterator.next();
+        if (done) {
+          request.signal?.removeEventListener('abort', onAbort);
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      },
+      async cancel() {
+        abortController.abort();
+        await iterator.return?.();
+      }
+    });
+    return new Response(stream, { status: result.status, headers: result.headers });
+  };
+}
+
+/**
+ * Creates a Node `http` handler for the CloudProvider proxy contract, which
+ * can be mounted as an Express route as well.
+ *
+ * @param options - The adapter, request options and body size limit
+ * @returns A handler for a request and response pair
+ *
+ * @example
+ * ```typescript
+ * app.post('/api/chat', express.json(), createNodeHandler({
+ *   adapter: createOpenAIAdapter({ apiKey: process.env.OPENAI_API_KEY! })
+ * }));
+ * ```
+ */
+export function createNodeHandler(
+  options: HttpHandlerOptions
+): (req: NodeProxyRequest, res: NodeProxyResponse) => Promise<void> {
+  const handler = new ProxyHandler(options);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  return async (req: NodeProxyRequest, res: NodeProxyResponse) => {
+    const abortController = new AbortController();
+    res.on('close', () => {
+      // Closed before the response was complete: the client disconnected
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    // http.createServer does not await the handler, so failures are answered
+    // here instead of becoming unhandled rejections
+    let body: unknown;
+    try {
+      body = req.body !== undefined ? req.body : await readNodeJson(req, maxBodyBytes);
+    } catch (error: any) {
+      if (isBodyTooLarge(error)) {
+        // The rest of the body is left unread, so the connection cannot be reused
+        const result = toErrorResult(error);
+        await writeResult(res, { ...result, headers: { ...result.headers, 'Connection': 'close' } }, abortController.signal);
+        return;
+      }
+      await writeError(res, new ProviderAPIError(
+        `Request body could not be read: ${error?.message || 'Unknown error'}`,
+        400,
+        'INVALID_REQUEST'
+      ));
+      return;
+    }
+
+    try {
+      const result = await handler.handle(body, abortController.signal);
+      await writeResult(res, result, abortController.signal);
+    } catch (error) {
+      await writeError(res, error);
+    }
+  };
+}
+
+async function readFetchJson(request: Request, maxBodyBytes: number): Promise<unknown> {
+  const contentLength = Number(request.headers.get('Content-Length'));
+  if (contentLength > maxBodyBytes) {
+    throw bodyTooLarge(maxBodyBytes);
+  }
+  if (!request.body) {
+    return undefined;
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (let read = await reader.read(); !read.done; read = await reader.read()) {
+      size += read.value.byteLength;
+      if (size > maxBodyBytes) {
+        void reader.cancel();
+        throw bodyTooLarge(maxBodyBytes);
+      }
+      chunks.push(read.value);
+    }
+  } catch (error) {
+    if (isBodyTooLarge(error)) {
+      throw error;
+    }
+    return undefined;
+  }
+  return parseJson(chunks);
+}
+
+async function readNodeJson(req: NodeProxyRequest, maxBodyBytes: number): Promise<unknown> {
+  // Iterated by hand: leaving a for-await loop early would destroy the
+  // request, and with it the socket the 413 response is written to
+  const iterator = req[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let read = await iterator.next(); !read.done; read = await iterator.next()) {
+    const chunk = typeof read.value === 'string' ? encoder.encode(read.value) : read.value;
+    size += chunk.byteLength;
+    if (size > maxBodyBytes) {
+      throw bodyTooLarge(maxBodyBytes);
+    }
+    chunks.push(chunk);
+  }
+  return parseJson(chunks);
+}
+
+function parseJson(chunks: Uint8Array[]): unknown {
+  const decoder = new TextDecoder();
+  const text = chunks.map(chunk => decoder.decode(chunk, { stream: true })).join('') + decoder.decode();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function bodyTooLarge(maxBodyBytes: number): ProviderAPIError {
+  return new ProviderAPIError(`Request body exceeds ${maxBodyBytes} bytes`, 413, 'PAYLOAD_TOO_LARGE');
+}
+
+function isBodyTooLarge(error: unknown): error is ProviderAPIError {
+  return error instanceof ProviderAPIError && error.statusCode === 413;
+}
+
+async function writeError(res: NodeProxyResponse, error: unknown): Promise<void> {
+  if (res.headersSent) {
+    // Part of the response went out already; end it where it stopped
+    if (!res.writableEnded) {
+      res.end();
+    }
+    return;
+  }
+  await writeResult(res, toErrorResult(error), new AbortController().signal);
+}
+
+async function writeResult(res: NodeProxyResponse, result: ProxyResult, signal: AbortSignal): Promise<void> {
+  res.writeHead(result.status, result.headers);
+  if (typeof result.body === 'string') {
+    res.end(result.body);
+    return;
+  }
+  for await (const event of result.body) {
+    if (signal.aborted) {
+      break;
+    }
+    res.write(event);
+  }
+  res.end();
+}
@@ -0,0 +1,12 @@
+// Server-side implementation of the CloudProvider proxy contract
+export { ProxyHandler, validateProxyRequest, formatStreamPart } from './proxy-handler';
+export type { ProxyRequest, ProxyAdapter, ProxyHandlerOptions, ProxyResult } from './proxy-handler';
+export {
+  VendorProxyAdapter,
+  createAnthropicAdapter,
+  createOpenAIAdapter,
+  createOpenAIChatAdapter
+} from './adapters';
+export type { VendorAdapterOptions } from './adapters';
+export { createFetchHandler, createNodeHandler } from './http';
+export type { HttpHandlerOptions, NodeProxyRequest, NodeProxyResponse } from './http';
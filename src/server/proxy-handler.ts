@@ -0,0 +1,285 @@
+import type { GenerateArgs, Message } from '../types/worker';
+import type { ModelResponse, NonStreamingResponse, StreamPart } from '../types/session';
+import { ProviderAPIError, ProviderCancelledError, ProviderError } from '../types/provider';
+import { collectStream } from '../processing/content/stream-collector';
+import { logger } from '../utils/logger';
+
+/**
+ * A validated request of a CloudProvider to the proxy
+ */
+export type ProxyRequest = Omit<GenerateArgs, 'signal'> & {
+  model: string;
+};
+
+/**
+ * Generates responses for proxy requests, usually by calling the API of a
+ * model provider. The signal is aborted when the client disconnects.
+ */
+export interface ProxyAdapter {
+  generate(request: ProxyRequest, signal: AbortSignal): Promise<ModelResponse>;
+}
+
+export interface ProxyHandlerOptions {
+  /**
+   * Adapter that calls the model provider
+   */
+  adapter: ProxyAdapter;
+
+  /**
+   * Optional models clients may request. Other models are rejected.
+   */
+  allowedModels?: string[];
+}
+
+/**
+ * Framework-independent response of the proxy. The body is a JSON string,
+ * or the SSE lines of a stream.
+ */
+export interface ProxyResult {
+  status: number;
+  headers: Record<string, string>;
+  body: string | AsyncIterable<string>;
+}
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive'
+};
+
+const JSON_HEADERS = {
+  'Content-Type': 'application/json'
+};
+
+const MESSAGE_ROLES = new Set<Message['role']>(['user', 'assistant', 'system']);
+
+// Model names of the vendors and of OpenAI-compatible servers, e.g.
+// "claude-3-5-sonnet-20241022", "meta-llama/Llama-3.1-8B" or "qwen2.5:7b"
+const MODEL_NAME = /^[\w.:/@+-]{1,256}$/;
+
+/**
+ * Server-side implementation of the CloudProvider proxy contract.
+ *
+ * Requests are validated, passed to the adapter and answered with an SSE
+ * stream of stream parts, or with JSON when the client disabled streaming.
+ * Errors in the middle of a stream are sent as `error:` lines.
+ */
+export class ProxyHandler {
+  private readonly options: ProxyHandlerOptions;
+
+  constructor(options: ProxyHandlerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Handles a request of a CloudProvider.
+   *
+   * @param body - The parsed JSON body of the request
+   * @param signal - Signal that is aborted when the client disconnects
+   * @returns The response to send to the client
+   */
+  async handle(body: unknown, signal: AbortSignal): Promise<ProxyResult> {
+    let request: ProxyRequest;
+    let response: ModelResponse;
+    try {
+      request = validateProxyRequest(body, this.options.allowedModels);
+
+      logger.cloudProvider?.debug('Proxy request received', {
+        model: request.model,
+        messages: request.messages.length,
+        stream: request.stream !== false
+      });
+
+      response = await this.options.adapter.generate(request, signal);
+    } catch (error: any) {
+      return toErrorResult(error);
+    }
+
+    if (request.stream === false) {
+      try {
+        const complete = response.type === 'complete' ? response : await collectStream(response.stream);
+        return { status: 200, headers: JSON_HEADERS, body: JSON.stringify(toProxyJson(complete)) };
+      } catch (error: any) {
+        return toErrorResult(error);
+      }
+    }
+
+    const parts = response.type === 'streaming' ? response.stream : toStreamParts(response);
+    return { status: 200, headers: SSE_HEADERS, body: formatStream(parts, signal) };
+  }
+}
+
+/**
+ * Validates the body of a proxy request. Fields that are not part of
+ * GenerateArgs are dropped.
+ *
+ * @param body - The parsed JSON body of the request
+ * @param allowedModels - Optional models clients may request
+ * @returns The validated request
+ * @throws ProviderAPIError with status 400 if the request is invalid
+ */
+export function validateProxyRequest(body: unknown, allowedModels?: string[]): ProxyRequest {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw invalidRequest('Request body must be a JSON object');
+  }
+  const args = body as Record<string, unknown>;
+
+  if (typeof args.model !== 'string' || !args.model) {
+    throw invalidRequest('model must be a non-empty string');
+  }
+  if (!MODEL_NAME.test(args.model)) {
+    throw invalidRequest('model must be at most 256 letters, digits or ._:/@+- characters');
+  }
+  if (allowedModels && !allowedModels.includes(args.model)) {
+    throw invalidRequest(`Model ${args.model} is not allowed`);
+  }
+
+  if (!Array.isArray(args.messages) || args.messages.length === 0) {
+    throw invalidRequest('messages must be a non-empty array');
+  }
+  args.messages.forEach((message: any, index) => {
+    if (!MESSAGE_ROLES.has(message?.role)) {
+      throw invalidRequest(`messages[${index}].role must be one of user, assistant or system`);
+    }
+    if (typeof message.content !== 'string' && !Array.isArray(message.content)) {
+      throw invalidRequest(`messages[${index}].content must be a string or an array`);
+    }
+  });
+
+  if (args.tools !== undefined && !Array.isArray(args.tools)) {
+    throw invalidRequest('tools must be an array');
+  }
+  if (args.stop !== undefined && (!Array.isArray(args.stop) || args.stop.some(stop => typeof stop !== 'string'))) {
+    throw invalidRequest('stop must be an array of strings');
+  }
+
+  const request: ProxyRequest = {
+    model: args.model,
+    messages: args.messages as Message[]
+  };
+  if (args.tools !== undefined) request.tools = args.tools as ProxyRequest['tools'] & {};
+  if (args.stop !== undefined) request.stop = args.stop as string[];
+
+  for (const field of ['max_new_tokens', 'temperature', 'top_p', 'top_k', 'repetition_penalty', 'seed'] as const) {
+    const value = args[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw invalidRequest(`${field} must be a number`);
+    }
+    request[field] = value;
+  }
+  for (const field of ['stream', 'enable_thinking', 'deterministic'] as const) {
+    const value = args[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') {
+      throw invalidRequest(`${field} must be a boolean`);
+    }
+    request[field] = value;
+  }
+
+  return request;
+}
+
+/**
+ * Formats a stream part as an SSE event of the proxy contract. Error parts
+ * are formatted as `error:` lines.
+ *
+ * @param part - The stream part
+ * @returns The SSE event, including the blank line that ends it
+ */
+export function formatStreamPart(part: StreamPart): string {
+  if (part.type === 'error') {
+    return `error: ${JSON.stringify(toErrorJson(part.error))}\n\n`;
+  }
+  // The client measures its own time to first byte
+  if (part.type === 'text-delta' && part.ttfbMs !== undefined) {
+    const { ttfbMs: _, ...rest } = part;
+    return `data: ${JSON.stringify(rest)}\n\n`;
+  }
+  return `data: ${JSON.stringify(part)}\n\n`;
+}
+
+async function* formatStream(parts: AsyncIterable<StreamPart>, signal: AbortSignal): AsyncIterable<string> {
+  try {
+    for await (const part of parts) {
+      yield formatStreamPart(part);
+      if (part.type === 'error') {
+        return;
+      }
+    }
+  } catch (error: any) {
+    // Nobody is listening once the client disconnected
+    if (signal.aborted || error instanceof ProviderCancelledError) {
+      return;
+    }
+    logger.cloudProvider?.error('Proxy stream failed', { error: error.message });
+    yield formatStreamPart({ type: 'error', error });
+  }
+}
+
+/**
+ * Turns a complete response into the stream parts that would have produced it
+ */
+function toStreamParts(response: NonStreamingResponse): AsyncIterable<StreamPart> {
+  const parts: StreamPart[] = [];
+  if (response.reasoning) {
+    parts.push({ type: 'reasoning-delta', text: response.reasoning });
+  }
+  if (response.content) {
+    parts.push({ type: 'text-delta', text: response.content });
+  }
+  response.toolCalls?.forEach((toolCall, index) => {
+    parts.push({
+      type: 'tool-call-delta',
+      index,
+      id: toolCall.id,
+      name: toolCall.function.name,
+      argumentsDelta: toolCall.function.arguments
+    });
+  });
+  if (response.usage) {
+    parts.push({ type: 'usage', usage: response.usage });
+  }
+  parts.push({ type: 'finish', finishReason: response.finishReason ?? (response.toolCalls ? 'tool_calls' : 'stop') });
+
+  return (async function* () {
+    yield* parts;
+  })();
+}
+
+/**
+ * Builds the JSON body of a non-streaming response, in the generic format
+ * CloudProvider reads when no modelProvider is set
+ */
+function toProxyJson(response: NonStreamingResponse): Record<string, unknown> {
+  return {
+    content: response.content,
+    ...(response.toolCalls && { tool_calls: response.toolCalls }),
+    ...(response.usage && { usage: response.usage }),
+    ...(response.finishReason && { finish_reason: response.finishReason }),
+    ...(response.reasoning && { reasoning: response.reasoning })
+  };
+}
+
+function toErrorJson(error: any): { message: string; statusCode: number; code?: string } {
+  return {
+    message: error?.message || 'Unknown error',
+    statusCode: error instanceof ProviderError && error.statusCode ? error.statusCode : 500,
+    ...(error instanceof ProviderError && error.code && { code: error.code })
+  };
+}
+
+/**
+ * Builds the JSON error response for an error, with its status code
+ */
+export function toErrorResult(error: any): ProxyResult {
+  const details = toErrorJson(error);
+  if (details.statusCode >= 500) {
+    logger.cloudProvider?.error('Proxy request failed', details);
+  }
+  return { status: details.statusCode, headers: JSON_HEADERS, body: JSON.stringify({ error: details }) };
+}
+
+function invalidRequest(message: string): ProviderAPIError {
+  return new ProviderAPIError(message, 400, 'INVALID_REQUEST');
+}
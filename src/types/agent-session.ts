@@ -1,16 +1,43 @@
 import { Tool } from "./worker";
 import { Session } from "./session";
 import { MemoryConfig } from "./memory";
+import { WorkflowSnapshot, WorkflowStorage } from "./workflow-state";
+
+export interface WorkflowToolCall {
+  id?: string;
+  name?: string;
+  args?: Record<string, any>;
+  result?: string;
+  error?: string; // Set when the call was rejected, e.g. for invalid arguments
+  round?: number; // Tool round of the step the call was made in, starting at 1
+  approval?: ToolApprovalDecision['action']; // How the app decided on a call that required approval
+}
+
+/**
+ * A tool call waiting for the app to decide whether it may run.
+ */
+export interface WorkflowToolApproval {
+  id: string;         // Pass to resolveToolApproval()
+  stepId: string;
+  toolCallId: string;
+  toolName: string;
+  args: Record<string, any>; // Validated arguments proposed by the model
+}
+
+export type ToolApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'edit'; args: Record<string, any> } // Run the tool with these arguments instead
+  | { action: 'reject'; reason?: string };         // Skip the call and tell the model why
 
 export interface WorkflowIterationResponse {
   stepId?: string;
+  loopIndex?: number;
   error?: WorkflowStepError;
   content?: string;
-  toolCall?: {
-    name?: string;
-    args?: Record<string, any>;
-    result?: string;
-  };
+  toolCall?: WorkflowToolCall;    // Last tool call of the step
+  toolCalls?: WorkflowToolCall[]; // Every tool call of the step, in order
+  pendingApproval?: WorkflowToolApproval; // Set on iterations that pause for a tool approval
+  delta?: string; // Content generated since the last delta of the step, with the `stream` run option
   metadata?: Record<string, any>;
 }
 
@@ -18,6 +45,50 @@ export interface WorkflowStepError {
   message: string;
 }
 
+/**
+ * A possible next step. Predicate routes are taken when `when` returns true;
+ * a route without `when` acts as the default. Model routers use the
+ * description to explain the option to the model.
+ */
+export interface WorkflowStepRoute {
+  stepId: string;
+  description?: string;
+  when?: (result: WorkflowIterationResponse) => boolean;
+}
+
+/**
+ * Lets a model choose the next step from a set of routes.
+ */
+export interface WorkflowStepRouter {
+  model: string;
+  prompt?: string;
+  routes: WorkflowStepRoute[];
+}
+
+/**
+ * Where to go after a step completes: a fixed step ID, predicate routes,
+ * or a model-chosen route.
+ */
+export type WorkflowStepNext = string | WorkflowStepRoute[] | WorkflowStepRouter;
+
+/**
+ * Asks a model whether a loop is done. The loop exits when the model answers yes.
+ */
+export interface WorkflowLoopJudge {
+  model: string;
+  prompt: string;
+}
+
+/**
+ * Repeats a step, or a group of steps ending with it, until the condition
+ * holds or maxLoops passes have run. Each pass starts with fresh step state.
+ */
+export interface WorkflowStepLoop {
+  steps?: string[]; // Step IDs repeated together, ending with this step; defaults to this step only
+  until?: ((result: WorkflowIterationResponse, loopIndex: number) => boolean) | WorkflowLoopJudge;
+  maxLoops: number;
+}
+
 export interface WorkflowStep {
   id: string;
   prompt: string;
@@ -25,9 +96,13 @@ export interface WorkflowStep {
   temperature?: number;
   model: string;
   enableThinking?: boolean;
-//   dependentSteps?: number[]; // TODO: Step IDs that must complete before this step
-//   nextSteps?: number[];    // TODO: Possible next step IDs after this step
+  dependentSteps?: string[]; // Step IDs that must complete before this step
+  next?: WorkflowStepNext;    // Step to run next; unselected route targets are skipped
+  loop?: WorkflowStepLoop;
   toolChoice?: string[];
+  maxToolRounds?: number;   // Model/tool round trips before the step ends (default: 1)
+  toolConcurrency?: number; // Tool calls of one response that run at once (default: 1)
+  coerceToolArguments?: boolean; // Convert arguments like "42" to the schema type (default: true)
   maxAttempts?: number;
 }
 
@@ -37,16 +112,57 @@ export interface Workflow {
   context?: Record<string, any>;
   timeout?: number;
   maxIterations?: number;
+  maxConcurrency?: number; // Maximum number of independent steps run at once (default: 1)
   steps: WorkflowStep[];
   tools: Tool[];
 }
 
+/**
+ * Thrown when a workflow definition is invalid, e.g. when step dependencies
+ * reference unknown step IDs or form a cycle.
+ */
+export class WorkflowValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly workflowId: string,
+    public readonly stepId?: string
+  ) {
+    super(message);
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+/**
+ * The abort reason of a workflow stopped through the `signal` run option.
+ */
+export class WorkflowCancelledError extends Error {
+  constructor(public readonly workflowId: string) {
+    super('Workflow cancelled');
+    this.name = 'WorkflowCancelledError';
+  }
+}
+
+export interface WorkflowRunOptions {
+  signal?: AbortSignal; // Cancels the workflow, including in-flight model and tool calls
+  storage?: WorkflowStorage; // Saves a snapshot before every iteration; deleted once the workflow finishes
+  runId?: string; // Key the snapshot is saved under (default: the workflow ID)
+  stream?: boolean; // Yield content deltas while steps generate, before each step's result
+}
+
 export interface AgentSession extends Session {
   runWorkflow(
     prompt: string, 
     workflow: Workflow, 
-    memoryConfig?: MemoryConfig
+    memoryConfig?: MemoryConfig,
+    options?: WorkflowRunOptions
+  ): AsyncIterable<WorkflowIterationResponse>;
+  resumeWorkflow(
+    snapshot: WorkflowSnapshot,
+    workflow: Workflow,
+    memoryConfig?: MemoryConfig,
+    options?: WorkflowRunOptions
   ): AsyncIterable<WorkflowIterationResponse>;
   registerTools(tools: Tool[]): void;
   getRegisteredTools(): Tool[];
+  resolveToolApproval(approvalId: string, decision: ToolApprovalDecision): void;
 }
\ No newline at end of file
@@ -30,6 +30,13 @@ export type WorkerDisposedEvent = {
   timestamp: number;
 };
 
+export type WorkerUnloadedEvent = {
+  type: 'worker:unloaded';
+  modelName: string;
+  reason: 'idle' | 'memory';
+  timestamp: number;
+};
+
 // Generation events
 export type GenerationStartEvent = {
   type: 'generation:start';
@@ -63,6 +70,49 @@ export type GenerationErrorEvent = {
   timestamp: number;
 };
 
+export type GenerationQueuedEvent = {
+  type: 'generation:queued';
+  modelName: string;
+  position: number; // 1 is next
+  queueDepth: number;
+  priority: number;
+  timestamp: number;
+};
+
+export type GenerationDequeuedEvent = {
+  type: 'generation:dequeued';
+  modelName: string;
+  waitMs: number;
+  timestamp: number;
+};
+
+// Route events
+export type RouteFallbackEvent = {
+  type: 'route:fallback';
+  route: string;
+  failedModel: string;
+  nextModel: string;
+  error: string;
+  timestamp: number;
+};
+
+export type RouteResolvedEvent = {
+  type: 'route:resolved';
+  route: string;
+  modelName: string; // The model that answered
+  attempts: number;
+  timestamp: number;
+};
+
+export type RouteSelectedEvent = {
+  type: 'route:selected';
+  route: string;
+  modelName: string; // The model or route the router picked
+  rule: number;
+  promptTokens: number;
+  timestamp: number;
+};
+
 // Memory events
 export type MemoryCheckpointEvent = {
   type: 'memory:checkpoint';
@@ -121,11 +171,39 @@ export type ToolCallErrorEvent = {
   timestamp: number;
 };
 
+export type ToolCallTimeoutEvent = {
+  type: 'tool:call:timeout';
+  stepId?: string;
+  toolName: string;
+  timeoutMs: number;
+  duration: number;
+  timestamp: number;
+};
+
+export type ToolApprovalRequestedEvent = {
+  type: 'tool:approval:requested';
+  approvalId: string;
+  stepId: string;
+  toolName: string;
+  args: Record<string, any>;
+  timestamp: number;
+};
+
+export type ToolApprovalResolvedEvent = {
+  type: 'tool:approval:resolved';
+  approvalId: string;
+  stepId: string;
+  toolName: string;
+  action: 'approve' | 'edit' | 'reject';
+  timestamp: number;
+};
+
 // Workflow events
 export type WorkflowStartEvent = {
   type: 'workflow:start';
   workflowId: string;
   stepCount: number;
+  resumedFromIteration?: number; // Set when the run continues from a snapshot
   timestamp: number;
 };
 
@@ -159,6 +237,26 @@ export type WorkflowStepRetryEvent = {
   timestamp: number;
 };
 
+export type WorkflowStepBranchEvent = {
+  type: 'workflow:step:branch';
+  workflowId: string;
+  stepId: string;
+  nextStepId?: string;
+  skippedStepIds: string[];
+  reason: 'static' | 'predicate' | 'model' | 'default' | 'none';
+  timestamp: number;
+};
+
+export type WorkflowStepLoopEvent = {
+  type: 'workflow:step:loop';
+  workflowId: string;
+  stepId: string;
+  loopIndex: number;
+  maxLoops: number;
+  repeat: boolean;
+  timestamp: number;
+};
+
 export type WorkflowCompleteEvent = {
   type: 'workflow:complete';
   workflowId: string;
@@ -192,6 +290,15 @@ export type WorkflowErrorEvent = {
   timestamp: number;
 };
 
+export type WorkflowSnapshotErrorEvent = {
+  type: 'workflow:snapshot:error';
+  workflowId: string;
+  runId: string;
+  iteration: number;
+  error: string;
+  timestamp: number;
+};
+
 // Generic error event
 export type ErrorEvent = {
   type: 'error';
@@ -206,10 +313,16 @@ export type SessionEvent =
   | WorkerInitProgressEvent
   | WorkerInitCompleteEvent
   | WorkerDisposedEvent
+  | WorkerUnloadedEvent
   | GenerationStartEvent
   | GenerationTokenEvent
   | GenerationCompleteEvent
   | GenerationErrorEvent
+  | GenerationQueuedEvent
+  | GenerationDequeuedEvent
+  | RouteFallbackEvent
+  | RouteResolvedEvent
+  | RouteSelectedEvent
   | MemoryCheckpointEvent
   | MemoryRollbackEvent
   | MemoryCompressedEvent
@@ -217,14 +330,20 @@ export type SessionEvent =
   | ToolCallStartEvent
   | ToolCallCompleteEvent
   | ToolCallErrorEvent
+  | ToolCallTimeoutEvent
+  | ToolApprovalRequestedEvent
+  | ToolApprovalResolvedEvent
   | WorkflowStartEvent
   | WorkflowStepStartEvent
   | WorkflowStepCompleteEvent
   | WorkflowStepRetryEvent
+  | WorkflowStepBranchEvent
+  | WorkflowStepLoopEvent
   | WorkflowCompleteEvent
   | WorkflowTimeoutEvent
   | WorkflowCancelledEvent
   | WorkflowErrorEvent
+  | WorkflowSnapshotErrorEvent
   | ErrorEvent;
 
 // Event handler type
@@ -28,6 +28,14 @@ export interface MemoryMetrics {
   lastCompressionTime: number | undefined;
 }
 
+// Serializable copy of a memory's messages and checkpoints
+export interface MemorySnapshot {
+  messages: MemoryMessage[];
+  checkpoints: Record<string, MemoryMessage[]>;
+  compressionCount: number;
+  lastCompressionTime?: number;
+}
+
 // Formatter interface for decoupling prompt construction
 export interface MemoryFormatter {
   // Format messages for LLM consumption
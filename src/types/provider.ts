@@ -1,5 +1,7 @@
 import type { GenerateArgs } from './worker';
 import type { ModelResponse } from './session';
+import type { EventEmitter } from '../utils/event-emitter';
+import type { WorkerPool } from '../providers/worker-pool';
 import { DataType, DeviceType } from '@huggingface/transformers';
 
 /**
@@ -35,10 +37,58 @@ export interface InferenceProvider {
   getModelName(): string;
 }
 
+/**
+ * Fields every inference provider configuration has
+ */
+export interface BaseProviderConfig {
+  runtime: string;
+  model: string;
+}
+
+/**
+ * Configurations of the inference provider runtimes, by runtime name.
+ * Custom runtimes registered with registerProviderFactory() add their
+ * configuration through declaration merging:
+ *
+ * @example
+ * ```typescript
+ * declare module 'agentary-js' {
+ *   interface InferenceProviderConfigMap {
+ *     'webllm': { runtime: 'webllm'; model: string; contextWindow?: number };
+ *   }
+ * }
+ * ```
+ */
+export interface InferenceProviderConfigMap {
+  'transformers-js': DeviceProviderConfig;
+  'openai': CloudProviderConfig;
+  'anthropic': CloudProviderConfig;
+  'custom': CloudProviderConfig;
+  'mock': MockProviderConfig;
+}
+
 /**
  * Configuration for inference providers
  */
-export type InferenceProviderConfig = CloudProviderConfig | DeviceProviderConfig;
+export type InferenceProviderConfig = InferenceProviderConfigMap[keyof InferenceProviderConfigMap];
+
+/**
+ * Configuration of the given runtime: the registered configuration of the
+ * runtime, or the base configuration for runtimes that were not added to
+ * InferenceProviderConfigMap
+ */
+export type ProviderConfigFor<TRuntime extends string> = TRuntime extends keyof InferenceProviderConfigMap
+  ? InferenceProviderConfigMap[TRuntime]
+  : BaseProviderConfig & { runtime: TRuntime };
+
+/**
+ * Creates the inference provider of a model. The provider is initialized
+ * by the manager after it is created.
+ */
+export type InferenceProviderFactory<TConfig extends BaseProviderConfig = BaseProviderConfig> = (
+  config: TConfig,
+  eventEmitter: EventEmitter
+) => InferenceProvider | Promise<InferenceProvider>;
 
 /**
  * Configuration for device providers using Transformers.js runtime
@@ -49,6 +99,31 @@ export interface DeviceProviderConfig {
   quantization: DataType;
   engine?: DeviceType;
   hfToken?: string;
+
+  /**
+   * Optional maximum number of requests waiting for the model while it
+   * generates; further requests are rejected (default: unlimited)
+   */
+  maxQueueDepth?: number;
+
+  /**
+   * Optional worker pool that hosts the model together with other device
+   * models (default: the model gets a worker of its own)
+   */
+  pool?: WorkerPool;
+
+  /**
+   * Optional number of workers of the pool that load the model, to answer
+   * that many requests at once (default: 1)
+   */
+  replicas?: number;
+
+  /**
+   * Optional memory the loaded model takes in MB, counted against the
+   * memory limit of its pool (default: estimated from the model size and
+   * quantization)
+   */
+  memoryMB?: number;
 }
 
 /**
@@ -58,10 +133,23 @@ export interface CloudProviderConfig {
   runtime: 'openai' | 'anthropic' | 'custom';
 
   /**
-   * URL of the user's backend proxy endpoint
+   * URL of the user's backend proxy endpoint, required unless apiKey is set
    * Example: '/api/anthropic/messages' or 'https://my-backend.com/api/openai'
    */
-  proxyUrl: string;
+  proxyUrl?: string;
+
+  /**
+   * Optional API key of the model provider for direct mode: requests are sent
+   * to the provider's API instead of a proxy. Requires modelProvider.
+   * For server-side use only, never expose an API key in a browser.
+   */
+  apiKey?: string;
+
+  /**
+   * Optional API endpoint for direct mode, e.g. of an OpenAI-compatible server
+   * Default: the endpoint of modelProvider, e.g. 'https://api.anthropic.com/v1/messages'
+   */
+  apiUrl?: string;
 
   /**
    * Model name to use
@@ -70,10 +158,12 @@ export interface CloudProviderConfig {
 
   /**
    * Optional model provider type to enable message format transformation
-   * - 'anthropic': Transform messages to Anthropic format
-   * - 'openai': Transform messages to OpenAI format
+   * - 'anthropic': Send Anthropic Messages API requests and read its responses and SSE events
+   * - 'openai': Send OpenAI Responses API requests and read its responses and SSE events
+   * - 'openai-chat': Send OpenAI Chat Completions API requests and read its responses and
+   *   SSE chunks, for OpenAI-compatible servers such as llama.cpp, vLLM, Ollama and LM Studio
    */
-  modelProvider?: 'anthropic' | 'openai';
+  modelProvider?: 'anthropic' | 'openai' | 'openai-chat';
 
   /**
    * Optional custom headers to send with requests
@@ -91,6 +181,188 @@ export interface CloudProviderConfig {
   maxRetries?: number;
 }
 
+/**
+ * Configuration for mock providers that replay scripted responses, for tests
+ */
+export interface MockProviderConfig {
+  runtime: 'mock';
+  model: string;
+
+  /**
+   * Responses in the order of the generate calls, or a function that returns
+   * the response of each call
+   */
+  responses: MockResponse[] | ((args: GenerateArgs, callIndex: number) => MockResponse);
+}
+
+/**
+ * Scripted response of a mock provider
+ */
+export interface MockResponse {
+  text?: string;
+  reasoning?: string;
+  toolCalls?: MockToolCall[];
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  finishReason?: 'stop' | 'length' | 'tool_calls' | 'content_filter';
+
+  /**
+   * Error the generate call rejects with, instead of responding
+   */
+  error?: Error | string;
+
+  /**
+   * Error that ends the stream after the response, as an error part
+   */
+  streamError?: Error | string;
+
+  /**
+   * Delay in milliseconds before the response
+   */
+  delayMs?: number;
+
+  /**
+   * Delay in milliseconds between the parts of a streamed response
+   */
+  chunkDelayMs?: number;
+}
+
+export interface MockToolCall {
+  id?: string;
+  name: string;
+  arguments?: Record<string, unknown> | string;
+}
+
+/**
+ * Errors a route falls back on:
+ * - 'network': ProviderNetworkError
+ * - 'timeout': ProviderTimeoutError
+ * - 'server-error': ProviderAPIError with a 5xx status
+ * - 'rate-limit': ProviderAPIError with status 429
+ * - 'initialization': ProviderInitializationError, the model failed to load
+ * - a function that returns true for the errors to fall back on
+ */
+export type FallbackTrigger =
+  | 'network'
+  | 'timeout'
+  | 'server-error'
+  | 'rate-limit'
+  | 'initialization'
+  | ((error: Error) => boolean);
+
+/**
+ * Named route over registered models, usable wherever a model name is
+ * accepted. The models are tried in order, falling back to the next one
+ * when a model fails with one of the fallbackOn errors.
+ *
+ * @example
+ * ```typescript
+ * { name: 'assistant', models: ['onnx-community/Qwen3-0.6B-ONNX', 'claude-3-5-haiku-latest'] }
+ * ```
+ */
+export interface ModelRoute {
+  name: string;
+  models: string[];
+
+  /**
+   * Errors to fall back on (default: network, timeout, server-error and initialization)
+   */
+  fallbackOn?: FallbackTrigger[];
+}
+
+/**
+ * What a model router knows about a request when it picks a model
+ */
+export interface RoutingRequest {
+  args: GenerateArgs;
+  promptTokens: number;  // Estimated with TokenCounter
+  capabilities: DeviceCapabilities;
+}
+
+/**
+ * Capabilities of the device the session runs on
+ */
+export interface DeviceCapabilities {
+  webgpu: boolean;
+  deviceMemory?: number;  // In GB, where the browser reports it
+}
+
+/**
+ * Conditions of a routing rule, which all have to hold for the rule to match
+ */
+export interface RoutingCondition {
+  minPromptTokens?: number;
+  maxPromptTokens?: number;
+  tools?: boolean;           // Whether the request has tools
+  thinking?: boolean;        // Whether the request enables thinking
+  webgpu?: boolean;          // Whether the device supports WebGPU
+  minDeviceMemory?: number;  // In GB, unknown device memory doesn't match
+  match?: (request: RoutingRequest) => boolean;
+}
+
+/**
+ * Rule of a model router. With several models, the router picks the
+ * cheapest or fastest of them from its cost table.
+ */
+export interface RoutingRule {
+  model: string | string[];
+  when?: RoutingCondition;
+}
+
+/**
+ * Cost and latency of a model, for the cost table of a model router
+ */
+export interface ModelCost {
+  inputCost?: number;   // Per million prompt tokens
+  outputCost?: number;  // Per million completion tokens
+  latencyMs?: number;   // Typical time to the first token
+}
+
+/**
+ * Model router, usable wherever a model name is accepted, which picks a
+ * registered model or route per request with the first matching rule.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   name: 'auto',
+ *   rules: [
+ *     { model: 'onnx-community/Qwen3-0.6B-ONNX', when: { maxPromptTokens: 500, tools: false, thinking: false, webgpu: true } },
+ *     { model: ['claude-3-5-haiku-latest', 'gpt-4o-mini'] }
+ *   ],
+ *   costs: {
+ *     'claude-3-5-haiku-latest': { inputCost: 0.8, outputCost: 4 },
+ *     'gpt-4o-mini': { inputCost: 0.15, outputCost: 0.6 }
+ *   }
+ * }
+ * ```
+ */
+export interface ModelRouterConfig {
+  name: string;
+  rules: RoutingRule[];
+  costs?: Record<string, ModelCost>;
+
+  /**
+   * How to pick among the models of a rule (default: 'cost'). Models
+   * without an entry in the cost table are picked last.
+   */
+  prefer?: 'cost' | 'latency';
+
+  /**
+   * Completion tokens assumed for cost estimates when the request has no
+   * max_new_tokens (default: 500)
+   */
+  expectedCompletionTokens?: number;
+
+  /**
+   * Capabilities of the device, detected from the browser by default
+   */
+  capabilities?: DeviceCapabilities;
+}
+
 /**
  * Standard error types for providers
  */
@@ -123,6 +395,13 @@ export class ProviderTimeoutError extends ProviderError {
   }
 }
 
+export class ProviderCancelledError extends ProviderError {
+  constructor() {
+    super('Request was cancelled', 'CANCELLED');
+    this.name = 'ProviderCancelledError';
+  }
+}
+
 export class ProviderConfigurationError extends ProviderError {
   constructor(message: string) {
     super(message, 'CONFIGURATION_ERROR');
@@ -139,4 +418,14 @@ export class ProviderAPIError extends ProviderError {
     super(message, code, statusCode);
     this.name = 'ProviderAPIError';
   }
-}
\ No newline at end of file
+}
+
+export class ProviderInitializationError extends ProviderError {
+  constructor(
+    public readonly model: string,
+    public readonly originalError: Error
+  ) {
+    super(`Failed to initialize model ${model}: ${originalError.message}`, 'INITIALIZATION_FAILED', 500);
+    this.name = 'ProviderInitializationError';
+  }
+}
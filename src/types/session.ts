@@ -1,6 +1,6 @@
 import { GenerateArgs } from "./worker";
 import { EventHandler, UnsubscribeFn } from "./events";
-import { InferenceProviderConfig } from "./provider";
+import { InferenceProviderConfig, ModelRoute, ModelRouterConfig } from "./provider";
 import { EventEmitter } from "../utils/event-emitter";
 import { InferenceProviderManager } from "../providers/manager";
 
@@ -11,6 +11,16 @@ import { InferenceProviderManager } from "../providers/manager";
 
 export interface CreateSessionArgs {
   models?: InferenceProviderConfig[];
+  /**
+   * Named routes that fall back between the models, usable wherever a model
+   * name is accepted
+   */
+  routes?: ModelRoute[];
+  /**
+   * Model routers that pick a model or route per request, usable wherever
+   * a model name is accepted
+   */
+  routers?: ModelRouterConfig[];
 }
 
 export interface NonStreamingResponse {
@@ -33,6 +43,9 @@ export interface NonStreamingResponse {
   reasoning?: string;
 }
 
+/**
+ * A raw token generated by a device model, before its markup is parsed.
+ */
 export interface TokenStreamChunk {
   token: string;
   tokenId: number;
@@ -42,15 +55,72 @@ export interface TokenStreamChunk {
   tokensPerSecond?: number;
 }
 
+export interface TextDeltaPart {
+  type: 'text-delta';
+  text: string;
+  tokenId?: number;
+  ttfbMs?: number;  // Time to the first part of the stream
+}
+
+export interface ReasoningDeltaPart {
+  type: 'reasoning-delta';
+  text: string;
+}
+
+/**
+ * A piece of a tool call. The first delta of each call carries its id and
+ * name; argument deltas concatenate to the call's JSON arguments.
+ */
+export interface ToolCallDeltaPart {
+  type: 'tool-call-delta';
+  index: number;
+  id?: string;
+  name?: string;
+  argumentsDelta: string;
+}
+
+export interface UsagePart {
+  type: 'usage';
+  usage: NonNullable<NonStreamingResponse['usage']>;
+}
+
+export interface FinishPart {
+  type: 'finish';
+  finishReason: NonNullable<NonStreamingResponse['finishReason']>;
+}
+
+/**
+ * An error reported by the model or vendor while streaming. The stream ends
+ * after it. Cancellation and transport failures are thrown instead.
+ */
+export interface ErrorPart {
+  type: 'error';
+  error: Error;
+}
+
+/**
+ * A part of a streamed response. A stream that completes ends with a
+ * finish part, optionally preceded by usage.
+ */
+export type StreamPart =
+  | TextDeltaPart
+  | ReasoningDeltaPart
+  | ToolCallDeltaPart
+  | UsagePart
+  | FinishPart
+  | ErrorPart;
+
 export interface StreamingResponse {
   type: 'streaming';  // Add this discriminator
-  stream: AsyncIterable<TokenStreamChunk>;
+  stream: AsyncIterable<StreamPart>;
 }
 
 export type ModelResponse = NonStreamingResponse | StreamingResponse;
 
 export interface Session {
   registerModels(models: InferenceProviderConfig[]): Promise<void>;
+  registerRoutes(routes: ModelRoute[]): Promise<void>;
+  registerRouters(routers: ModelRouterConfig[]): Promise<void>;
   createResponse(model: string, args: GenerateArgs): Promise<ModelResponse>;
   dispose(): Promise<void>;
   /**
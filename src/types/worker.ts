@@ -57,9 +57,50 @@ export interface ToolDefinition {
   };
 }
 
+/**
+ * Passed to tool implementations as the second argument.
+ */
+export interface ToolExecutionContext {
+  signal: AbortSignal; // Aborted when the tool times out or the workflow is cancelled
+  stepId?: string;
+  toolCallId?: string;
+}
+
 export interface Tool {
   definition: ToolDefinition;
-  implementation?: (...args: any[]) => any;
+  implementation?: (...args: any[]) => any; // Called with (args, context: ToolExecutionContext)
+  timeoutMs?: number;
+  requiresApproval?: boolean; // Pause the workflow until the app approves, edits or rejects each call
+}
+
+export interface ToolArgumentError {
+  path: string;      // Location of the invalid value, e.g. "location.city" or "dates[1]"
+  message: string;
+}
+
+export class ToolArgumentValidationError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly errors: ToolArgumentError[],
+    public readonly toolCallId?: string,
+    public readonly args?: unknown
+  ) {
+    super(
+      `Invalid arguments for tool ${toolName}: ` +
+      errors.map(error => error.path ? `${error.path} ${error.message}` : error.message).join('; ')
+    );
+    this.name = 'ToolArgumentValidationError';
+  }
+}
+
+export class ToolTimeoutError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`Tool ${toolName} timed out after ${timeoutMs}ms`);
+    this.name = 'ToolTimeoutError';
+  }
 }
 
 export interface GenerateArgs {
@@ -75,13 +116,16 @@ export interface GenerateArgs {
   repetition_penalty?: number;
   seed?: number;
   deterministic?: boolean;
+  signal?: AbortSignal; // Cancels the request; never sent to the provider
+  priority?: number; // Orders requests queued for a device model, higher first (default: 0); never sent to the provider
 }
 
-export type InboundMessageType = 'init' | 'generate' | 'dispose';
+export type InboundMessageType = 'init' | 'generate' | 'cancel' | 'unload' | 'dispose';
 
 export type InboundMessage = {
   type: InboundMessageType;
   requestId: string;
+  modelKey?: string; // The model to init, generate with or unload, in workers that host several models
   args?: InitArgs | GenerateArgs;
 }
 
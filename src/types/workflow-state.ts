@@ -1,6 +1,7 @@
 import { Workflow } from "./agent-session";
 import { Tool } from "./worker";
 import { Message } from "./worker";
+import { MemorySnapshot } from "./memory";
 
   export interface StepState {
     id: string;
@@ -39,15 +40,62 @@ import { Message } from "./worker";
     warningThreshold: number;
   }
   
+  export interface WorkflowBranchDecision {
+    stepId: string;
+    nextStepId?: string;
+    skippedStepIds: string[];
+    reason: 'static' | 'predicate' | 'model' | 'default' | 'none';
+  }
+
   export interface WorkflowState {
     workflow: Workflow;
     userPrompt: string;
     startTime: number;
     completedSteps: Set<string>;
+    path: string[];
+    activatedSteps: string[];
+    skippedSteps: Set<string>;
+    branchDecisions: WorkflowBranchDecision[];
+    loopCounts: Record<string, number>;
     iteration: number;
     maxIterations: number;
+    maxConcurrency: number;
     timeout: number;
     tools: Tool[];
     steps: Record<string, StepState>;
     toolResults: Record<string, ToolResult>;
-  }
\ No newline at end of file
+    abortController: AbortController; // Aborts in-flight model and tool calls on timeout
+    stream: boolean; // Report content deltas while steps generate
+  }
+
+  /**
+   * Serializable copy of a workflow run, taken between iterations.
+   * Tools, the workflow definition and timers are not part of the snapshot
+   * and are supplied again when the run is resumed.
+   */
+  export interface WorkflowSnapshot {
+    version: 1;
+    workflowId: string;
+    userPrompt: string;
+    elapsedMs: number; // Time spent running before the snapshot, counted towards the timeout
+    iteration: number;
+    completedSteps: string[];
+    path: string[];
+    activatedSteps: string[];
+    skippedSteps: string[];
+    branchDecisions: WorkflowBranchDecision[];
+    loopCounts: Record<string, number>;
+    steps: Record<string, StepState>;
+    toolResults: Record<string, ToolResult>;
+    memory: MemorySnapshot;
+    savedAt: number;
+  }
+
+  /**
+   * Persists workflow snapshots under a run ID.
+   */
+  export interface WorkflowStorage {
+    save(runId: string, snapshot: WorkflowSnapshot): Promise<void>;
+    load(runId: string): Promise<WorkflowSnapshot | undefined>;
+    delete(runId: string): Promise<void>;
+  }
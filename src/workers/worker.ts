@@ -11,6 +11,7 @@ import { MessageTransformer, getMessageTransformer } from '../providers/device-m
 // Dynamic import with error handling for missing peer dependency
 let pipeline: any;
 let TextStreamer: any;
+let InterruptableStoppingCriteria: any;
 let hfEnv: any;
 let transformersLoaded = false;
 
@@ -21,6 +22,7 @@ async function loadTransformers() {
     const transformers = await import('@huggingface/transformers');
     pipeline = transformers.pipeline;
     TextStreamer = transformers.TextStreamer;
+    InterruptableStoppingCriteria = transformers.InterruptableStoppingCriteria;
     hfEnv = transformers.env;
     transformersLoaded = true;
   } catch (error: any) {
@@ -41,10 +43,22 @@ async function loadTransformers() {
   }
 }
 
-let generator: TextGenerationPipeline | null = null;
+// Models loaded in this worker, by the model key of their init message
+const models = new Map<string, {
+  generator: TextGenerationPipeline;
+  messageTransformer: MessageTransformer;
+}>();
+const DEFAULT_MODEL_KEY = 'default';
 let disposed = false;
 let isGenerating = false;
-let messageTransformer: MessageTransformer | null = null;
+
+// The running generation, tracked so that a cancel message can interrupt it
+let activeGeneration: {
+  requestId: string;
+  modelKey: string;
+  stoppingCriteria: any;
+  done: Promise<void>;
+} | null = null;
 
 function post(message: OutboundMessage) {
   // eslint-disable-next-line no-restricted-globals
@@ -71,6 +85,7 @@ async function handleInit(msg: InboundMessage) {
   await loadTransformers();
 
   // Get the message transformer for this model
+  let messageTransformer: MessageTransformer;
   try {
     messageTransformer = getMessageTransformer(config.model);
     logger.worker.debug('Message transformer loaded', { model: config.model }, msg.requestId);
@@ -137,7 +152,10 @@ async function handleInit(msg: InboundMessage) {
       }, msg.requestId);
     },
   });
-  generator = pipelineResult as TextGenerationPipeline;
+  models.set(msg.modelKey ?? DEFAULT_MODEL_KEY, {
+    generator: pipelineResult as TextGenerationPipeline,
+    messageTransformer
+  });
 
   logger.worker.info('Worker initialized successfully', { model: config.model, device: config.engine }, msg.requestId);
   post({ type: 'ack', requestId: msg.requestId });
@@ -146,12 +164,39 @@ async function handleInit(msg: InboundMessage) {
 async function handleGenerate(msg: InboundMessage) {
   logger.worker.debug('Generate request received', { args: msg.args }, msg.requestId);
 
-  if (!generator) throw new Error('Generator not initialized');
-  if (!messageTransformer) throw new Error('Message transformer not initialized');
   if (disposed) throw new Error('Worker disposed');
+
+  // A cancelled generation stops at its next token, so wait for it instead of rejecting
+  if (isGenerating && activeGeneration?.stoppingCriteria.interrupted) {
+    await activeGeneration.done;
+  }
   if (isGenerating) throw new Error('A generation task is already running');
 
   isGenerating = true;
+  let finishGeneration!: () => void;
+  const stoppingCriteria = new InterruptableStoppingCriteria();
+  activeGeneration = {
+    requestId: msg.requestId,
+    modelKey: msg.modelKey ?? DEFAULT_MODEL_KEY,
+    stoppingCriteria,
+    done: new Promise<void>(resolve => { finishGeneration = resolve; }),
+  };
+
+  try {
+    await generate(msg, stoppingCriteria);
+  } finally {
+    isGenerating = false;
+    activeGeneration = null;
+    finishGeneration();
+  }
+
+  post({ type: 'done', requestId: msg.requestId });
+}
+
+async function generate(msg: InboundMessage, stoppingCriteria: any) {
+  const model = models.get(msg.modelKey ?? DEFAULT_MODEL_KEY);
+  if (!model) throw new Error('Generator not initialized');
+  const { generator, messageTransformer } = model;
 
   const { messages, max_new_tokens, temperature, top_p, top_k, stop, tools, repetition_penalty, enable_thinking } = msg.args as GenerateArgs;
   if (!messages) throw new Error('Messages are required');
@@ -193,28 +238,56 @@ async function handleGenerate(msg: InboundMessage) {
     },
   });
 
-  try {
-    const generationOptions = {
-      add_special_tokens: false,
-      // TODO: Make this configurable
-      max_new_tokens: max_new_tokens ?? 1024,
-      do_sample: temperature !== undefined ? temperature > 0 : false,
-      ...(temperature !== undefined && { temperature }),
-      ...(top_p !== undefined && { top_p }),
-      ...(top_k !== undefined && { top_k }),
-      repetition_penalty: repetition_penalty || 1.1,
-      streamer,
-      ...(stop !== undefined && { stop }),
-    };
-    logger.worker.debug('Starting generation', generationOptions, msg.requestId);
-    const start = performance.now();
-    await generator(renderedPrompt, generationOptions);
+  const generationOptions = {
+    add_special_tokens: false,
+    // TODO: Make this configurable
+    max_new_tokens: max_new_tokens ?? 1024,
+    do_sample: temperature !== undefined ? temperature > 0 : false,
+    ...(temperature !== undefined && { temperature }),
+    ...(top_p !== undefined && { top_p }),
+    ...(top_k !== undefined && { top_k }),
+    repetition_penalty: repetition_penalty || 1.1,
+    streamer,
+    stopping_criteria: stoppingCriteria,
+    ...(stop !== undefined && { stop }),
+  };
+  logger.worker.debug('Starting generation', generationOptions, msg.requestId);
+  const start = performance.now();
+  await generator(renderedPrompt, generationOptions);
+
+  if (stoppingCriteria.interrupted) {
+    logger.worker.debug('Generation cancelled', { duration: performance.now() - start }, msg.requestId);
+  } else {
     logger.worker.debug('Generation completed successfully', { duration: performance.now() - start }, msg.requestId);
-  } finally {
-    isGenerating = false;
   }
+}
 
-  post({ type: 'done', requestId: msg.requestId });
+function handleCancel(msg: InboundMessage) {
+  // The generation may already have finished, in which case there is nothing to stop
+  if (activeGeneration?.requestId !== msg.requestId) return;
+
+  logger.worker.debug('Cancelling generation', undefined, msg.requestId);
+  activeGeneration.stoppingCriteria.interrupt();
+}
+
+async function disposeModel(modelKey: string, requestId: string) {
+  const model = models.get(modelKey);
+  models.delete(modelKey);
+  try {
+    await model?.generator.dispose?.();
+    logger.worker.debug('Generator disposed successfully', { modelKey }, requestId);
+  } catch (error: any) {
+    logger.worker.warn('Error disposing generator', error?.message, requestId);
+  }
+}
+
+async function handleUnload(msg: InboundMessage) {
+  const modelKey = msg.modelKey ?? DEFAULT_MODEL_KEY;
+  if (activeGeneration?.modelKey === modelKey) throw new Error('Cannot unload a model while it generates');
+
+  logger.worker.info('Unloading model', { modelKey }, msg.requestId);
+  await disposeModel(modelKey, msg.requestId);
+  post({ type: 'ack', requestId: msg.requestId });
 }
 
 async function handleDispose(msg: InboundMessage) {
@@ -226,15 +299,9 @@ async function handleDispose(msg: InboundMessage) {
   logger.worker.info('Disposing worker', undefined, msg.requestId);
   disposed = true;
   
-  try { 
-    await generator?.dispose?.();
-    logger.worker.debug('Generator disposed successfully', undefined, msg.requestId);
-  } catch (error: any) {
-    logger.worker.warn('Error disposing generator', error?.message, msg.requestId);
+  for (const modelKey of Array.from(models.keys())) {
+    await disposeModel(modelKey, msg.requestId);
   }
-  
-  generator = null;
-  messageTransformer = null;
   post({ type: 'ack', requestId: msg.requestId });
   // eslint-disable-next-line no-restricted-globals
   (self as unknown as DedicatedWorkerGlobalScope).close();
@@ -252,6 +319,14 @@ async function handleDispose(msg: InboundMessage) {
       await handleGenerate(msg);
       return;
     }
+    if (msg.type === 'cancel') {
+      handleCancel(msg);
+      return;
+    }
+    if (msg.type === 'unload') {
+      await handleUnload(msg);
+      return;
+    }
     if (msg.type === 'dispose') {
       await handleDispose(msg);
       return;
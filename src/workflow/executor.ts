@@ -2,17 +2,21 @@ import type {
   Workflow, 
   WorkflowStep, 
   WorkflowIterationResponse,
+  WorkflowRunOptions,
 } from '../types/agent-session';
 import type { Tool } from '../types/worker';
-import type { WorkflowState } from '../types/workflow-state';
+import type { WorkflowState, WorkflowSnapshot, WorkflowStorage } from '../types/workflow-state';
 import type { MemoryConfig } from '../types/memory';
 
 import { logger } from '../utils/logger';
 import { StepExecutor } from './step-executor';
+import { StepRouter } from './step-router';
 import { WorkflowStateManager } from './workflow-state';
 import { WorkflowResultBuilder } from './result-builder';
+import { validateWorkflow } from './validation';
+import { WorkflowCancelledError } from '../types/agent-session';
 import { Session } from '../types/session';
-import { WorkflowErrorEvent, WorkflowCancelledEvent } from '../types/events';
+import { WorkflowErrorEvent, WorkflowCancelledEvent, WorkflowStartEvent } from '../types/events';
 
 /**
  * Orchestrates the entire workflow execution, managing multiple steps
@@ -20,6 +24,7 @@ import { WorkflowErrorEvent, WorkflowCancelledEvent } from '../types/events';
  */
 export class WorkflowExecutor {
   private stepExecutor: StepExecutor;
+  private stepRouter: StepRouter;
   private tools: Tool[];
   private stateManager: WorkflowStateManager;
   private session: Session;
@@ -34,6 +39,7 @@ export class WorkflowExecutor {
     this.tools = tools;
     this.stateManager = stateManager;
     this.session = session;
+    this.stepRouter = new StepRouter(session, stateManager);
   }
 
   /**
@@ -42,14 +48,16 @@ export class WorkflowExecutor {
    * @param userPrompt - The user prompt to start the workflow
    * @param workflow - The workflow to execute
    * @param memoryConfig - The memory configuration to use for the workflow
+   * @param options - Run options, e.g. a signal to cancel the workflow or storage to persist it
    * @returns An async iterable of workflow iteration responses
+   * @throws {WorkflowValidationError} If the workflow definition is invalid
    */
   async* execute(
     userPrompt: string,
     workflow: Workflow,
-    memoryConfig?: MemoryConfig
+    memoryConfig?: MemoryConfig,
+    options: WorkflowRunOptions = {}
   ): AsyncIterable<WorkflowIterationResponse> {
-    const startTime = Date.now();
     logger.agent.info('Starting workflow execution', {
       workflowId: workflow.id,
       userPrompt,
@@ -57,41 +65,144 @@ export class WorkflowExecutor {
       toolCount: workflow.tools.length
     });
 
+    yield* this.run(workflow, options, async () => {
+      logger.agent.debug('Initializing workflow state', {
+        workflowId: workflow.id,
+        hasMemoryConfig: !!memoryConfig,
+        memoryConfigType: memoryConfig?.memoryCompressorConfig?.name,
+        maxTokens: memoryConfig?.maxTokens,
+        toolCount: this.tools.length
+      });
+
+      await this.stateManager.initializeState(
+        userPrompt,
+        workflow,
+        this.tools,
+        memoryConfig
+      );
+    });
+  }
+
+  /**
+   * Continues a workflow from a snapshot, starting with the iteration that
+   * was about to run when the snapshot was taken.
+   * 
+   * @param snapshot - The snapshot to continue from
+   * @param workflow - The workflow the snapshot was taken from
+   * @param memoryConfig - The memory configuration to use for the workflow
+   * @param options - Run options, e.g. a signal to cancel the workflow or storage to persist it
+   * @returns An async iterable of workflow iteration responses
+   * @throws {WorkflowValidationError} If the workflow is invalid or the snapshot belongs to another workflow
+   */
+  async* resume(
+    snapshot: WorkflowSnapshot,
+    workflow: Workflow,
+    memoryConfig?: MemoryConfig,
+    options: WorkflowRunOptions = {}
+  ): AsyncIterable<WorkflowIterationResponse> {
+    logger.agent.info('Resuming workflow execution', {
+      workflowId: workflow.id,
+      iteration: snapshot.iteration,
+      completedSteps: snapshot.completedSteps.length,
+      elapsedMs: snapshot.elapsedMs
+    });
+
+    yield* this.run(
+      workflow,
+      options,
+      async () => this.stateManager.restoreState(snapshot, workflow, this.tools, memoryConfig),
+      snapshot.iteration
+    );
+  }
+
+  /**
+   * Runs the workflow once its state has been initialized or restored.
+   * 
+   * @param workflow - The workflow to run
+   * @param options - The run options
+   * @param initializeState - Initializes or restores the workflow state
+   * @param resumedFromIteration - The iteration a resumed run continues from
+   * @returns An async iterable of workflow iteration responses
+   */
+  private async* run(
+    workflow: Workflow,
+    options: WorkflowRunOptions,
+    initializeState: () => Promise<void>,
+    resumedFromIteration?: number
+  ): AsyncIterable<WorkflowIterationResponse> {
+    const startTime = Date.now();
+
+    // Reject invalid step dependencies before any step runs
+    try {
+      validateWorkflow(workflow);
+    } catch (error: any) {
+      logger.agent.error('Workflow validation failed', {
+        workflowId: workflow.id,
+        error: error.message
+      });
+      throw error;
+    }
+
     // Emit workflow start event
     const emitter = this.session._eventEmitter;
     if (emitter) {
-      emitter.emit({
+      const event: WorkflowStartEvent = {
         type: 'workflow:start',
         workflowId: workflow.id,
         stepCount: workflow.steps.length,
         timestamp: startTime
-      });
+      };
+      if (resumedFromIteration !== undefined) {
+        event.resumedFromIteration = resumedFromIteration;
+      }
+      emitter.emit(event);
     }
 
-    logger.agent.debug('Initializing workflow state', {
-      workflowId: workflow.id,
-      hasMemoryConfig: !!memoryConfig,
-      memoryConfigType: memoryConfig?.memoryCompressorConfig?.name,
-      maxTokens: memoryConfig?.maxTokens,
-      toolCount: this.tools.length
-    });
-
-    // Initialize the workflow state
-    await this.stateManager.initializeState(
-      userPrompt,
-      workflow,
-      this.tools,
-      memoryConfig
-    );
+    await initializeState();
 
     let currentStep: WorkflowStep | undefined;
     let state: WorkflowState | undefined;
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+    const { signal, storage } = options;
+    const runId = options.runId ?? workflow.id;
+    const onCancel = () => this.stateManager.abortWorkflow(new WorkflowCancelledError(workflow.id));
     
     try {
       state = this.stateManager.getState();
+      state.stream = options.stream ?? false;
+
+      // Abort in-flight model and tool calls once the workflow times out. A
+      // resumed run only gets the time its earlier runs have not used up
+      if (state.timeout > 0) {
+        const onTimeout = () => this.stateManager.abortWorkflow(new Error('Workflow timeout exceeded'));
+        const remainingMs = Math.max(0, state.timeout - (Date.now() - state.startTime));
+        if (remainingMs === 0) {
+          onTimeout();
+        } else {
+          timeoutTimer = setTimeout(onTimeout, remainingMs);
+        }
+      }
+
+      // Abort in-flight model and tool calls once the caller cancels the workflow
+      if (signal) {
+        signal.addEventListener('abort', onCancel, { once: true });
+        if (signal.aborted) {
+          onCancel();
+        }
+      }
       
       // Execute the workflow steps
-      yield* this.executeWorkflowSteps(state);
+      yield* this.executeWorkflowSteps(state, storage && { storage, runId });
+
+      // A cancelled or timed out workflow has already reported its result
+      // and keeps its snapshot so it can be resumed
+      if (this.stateManager.isAborted()) {
+        return;
+      }
+
+      if (storage) {
+        await this.deleteSnapshot(storage, runId);
+      }
 
       // Handle completion
       currentStep = this.stateManager.findNextStep();
@@ -159,17 +270,24 @@ export class WorkflowExecutor {
       } else {
         yield* this.handleWorkflowError(state, currentStep, error);
       }
+    } finally {
+      clearTimeout(timeoutTimer);
+      signal?.removeEventListener('abort', onCancel);
     }
   }
 
   /**
    * Executes the workflow steps, managing multiple steps and coordinating between the step executor and state management.
+   * When the workflow allows concurrency, steps that are ready at the same time run in parallel
+   * and their results are yielded in workflow order.
    * 
    * @param state - The workflow state to execute
+   * @param persistence - Where to save a snapshot before each iteration
    * @returns An async iterable of workflow iteration responses
    */
   private async* executeWorkflowSteps(
-    state: WorkflowState
+    state: WorkflowState,
+    persistence?: { storage: WorkflowStorage; runId: string }
   ): AsyncIterable<WorkflowIterationResponse> {
     try {
       while (state.iteration < state.maxIterations) {
@@ -179,7 +297,8 @@ export class WorkflowExecutor {
           maxIterations: state.maxIterations
         });
         
-        const currentStep = this.stateManager.findNextStep();
+        const currentSteps = this.findNextSteps(state);
+        const currentStep = currentSteps[0];
         if (!currentStep) {
           logger.agent.warn('No next available step found', { 
             workflowId: state.workflow.id, 
@@ -188,125 +307,173 @@ export class WorkflowExecutor {
           break;
         }
 
-        if (!currentStep.id) {
+        if (currentSteps.some(step => !step.id)) {
           logger.agent.error('ID undefined for workflow step', { 
             workflowId: state.workflow.id, 
-            step: currentStep
+            step: currentSteps.find(step => !step.id)
           });
           break;
         }
 
-        // Check timeout
+        // Check cancellation and timeout
+        if (this.stateManager.isAborted()) {
+          yield this.handleAbort(state, currentStep.id);
+          break;
+        }
         if (this.stateManager.isTimeout(state)) {
-          logger.agent.warn('Workflow timeout exceeded', {
-            workflowId: state.workflow.id,
-            stepId: currentStep.id,
-            elapsedMs: Date.now() - state.startTime,
-            timeoutMs: state.timeout
-          });
-
-          // Emit workflow timeout event
-          const emitter = this.session._eventEmitter;
-          if (emitter) {
-            emitter.emit({
-              type: 'workflow:timeout',
-              workflowId: state.workflow.id,
-              stepId: currentStep.id,
-              duration: Date.now() - state.startTime,
-              timestamp: Date.now()
-            });
-          }
-
-          yield WorkflowResultBuilder.createTimeoutResult(
-            currentStep.id,
-            state.startTime,
-          );
+          yield this.handleTimeout(state, currentStep.id);
           break;
         }
 
-        // Emit step start event
+        if (persistence) {
+          await this.saveSnapshot(state, persistence.storage, persistence.runId);
+        }
+
+        // Emit step start events
         const stepStartTime = Date.now();
         const emitter = this.session._eventEmitter;
         if (emitter) {
-          emitter.emit({
-            type: 'workflow:step:start',
-            workflowId: state.workflow.id,
-            stepId: currentStep.id,
-            stepPrompt: currentStep.prompt,
-            iteration: state.iteration,
-            timestamp: stepStartTime
-          });
+          for (const step of currentSteps) {
+            emitter.emit({
+              type: 'workflow:step:start',
+              workflowId: state.workflow.id,
+              stepId: step.id,
+              stepPrompt: step.prompt,
+              iteration: state.iteration,
+              timestamp: stepStartTime
+            });
+          }
         }
 
-        // Execute the step
-        const stepResult = await this.stepExecutor.execute(currentStep, state.tools);
-        yield stepResult;
+        // Execute the steps, reporting approvals and streamed content meanwhile
+        const stepResults = yield* this.yieldStepReports(
+          currentSteps.length === 1
+            ? this.stepExecutor.execute(currentStep, state.tools).then(result => [result])
+            : this.executeStepsInParallel(currentSteps, state)
+        );
 
-        // Emit step complete event
-        if (emitter) {
-          emitter.emit({
-            type: 'workflow:step:complete',
-            workflowId: state.workflow.id,
-            stepId: currentStep.id,
-            success: !stepResult.error,
-            duration: Date.now() - stepStartTime,
-            hasToolCall: !!stepResult.toolCall,
-            hasError: !!stepResult.error,
-            timestamp: Date.now()
-          });
+        // Steps interrupted by a timeout or cancellation are not reported as step failures
+        if (this.stateManager.isAborted()) {
+          yield this.handleAbort(state, currentStep.id);
+          break;
         }
 
-        // Emit retry event if step failed and will retry
-        if (stepResult.error && stepResult.metadata?.willRetry) {
+        let cancelled = false;
+        for (const [index, step] of currentSteps.entries()) {
+          const stepResult = stepResults[index]!;
+          const loopIndex = this.stateManager.getLoopIndex(step.id);
+          if (loopIndex !== undefined) {
+            stepResult.loopIndex = loopIndex;
+          }
+          yield stepResult;
+
+          // Emit step complete event
           if (emitter) {
             emitter.emit({
-              type: 'workflow:step:retry',
+              type: 'workflow:step:complete',
               workflowId: state.workflow.id,
-              stepId: currentStep.id,
-              attempt: stepResult.metadata.attempt || 1,
-              maxAttempts: stepResult.metadata.maxAttempts || 1,
-              reason: stepResult.error.message,
+              stepId: step.id,
+              success: !stepResult.error,
+              duration: Date.now() - stepStartTime,
+              hasToolCall: !!stepResult.toolCall,
+              hasError: !!stepResult.error,
               timestamp: Date.now()
             });
           }
-        }
 
-        // Cancel workflow if step failed and reached max retries
-        if (stepResult.error && stepResult.metadata?.willRetry === false) {
-          logger.agent.error('Step reached maximum retries, cancelling workflow', {
-            workflowId: state.workflow.id,
-            stepId: currentStep.id,
-            attempt: stepResult.metadata.attempt,
-            maxAttempts: stepResult.metadata.maxAttempts,
-            error: stepResult.error.message,
-            totalTimeMs: Date.now() - state.startTime
-          });
+          // Run another pass of the loop this step owns, if its condition is not met
+          let repeating = false;
+          if (!stepResult.error && step.loop) {
+            const passIndex = loopIndex ?? 0;
+            repeating = await this.stepRouter.shouldRepeat(step, stepResult, passIndex);
+            if (repeating) {
+              this.stateManager.restartLoop(step.id);
+            }
+            if (emitter) {
+              emitter.emit({
+                type: 'workflow:step:loop',
+                workflowId: state.workflow.id,
+                stepId: step.id,
+                loopIndex: passIndex,
+                maxLoops: step.loop.maxLoops,
+                repeat: repeating,
+                timestamp: Date.now()
+              });
+            }
+          }
 
-          // Emit workflow cancelled event
-          if (emitter) {
-            emitter.emit({
-              type: 'workflow:cancelled',
+          // Select the next step if this step declares routes, once any loop has ended
+          if (!stepResult.error && !repeating && step.next) {
+            const decision = await this.stepRouter.route(step, stepResult);
+            if (decision) {
+              this.stateManager.applyBranchDecision(decision);
+              if (emitter) {
+                emitter.emit({
+                  type: 'workflow:step:branch',
+                  workflowId: state.workflow.id,
+                  ...decision,
+                  timestamp: Date.now()
+                });
+              }
+            }
+          }
+
+          // Emit retry event if step failed and will retry
+          if (stepResult.error && stepResult.metadata?.willRetry) {
+            if (emitter) {
+              emitter.emit({
+                type: 'workflow:step:retry',
+                workflowId: state.workflow.id,
+                stepId: step.id,
+                attempt: stepResult.metadata.attempt || 1,
+                maxAttempts: stepResult.metadata.maxAttempts || 1,
+                reason: stepResult.error.message,
+                timestamp: Date.now()
+              });
+            }
+          }
+
+          // Cancel workflow if step failed and reached max retries
+          if (stepResult.error && stepResult.metadata?.willRetry === false) {
+            logger.agent.error('Step reached maximum retries, cancelling workflow', {
               workflowId: state.workflow.id,
-              stepId: currentStep.id,
-              reason: `Step ${currentStep.id} failed after ${stepResult.metadata.attempt} attempts: ${stepResult.error.message}`,
-              timestamp: Date.now()
+              stepId: step.id,
+              attempt: stepResult.metadata.attempt,
+              maxAttempts: stepResult.metadata.maxAttempts,
+              error: stepResult.error.message,
+              totalTimeMs: Date.now() - state.startTime
             });
+
+            // Emit workflow cancelled event
+            if (emitter) {
+              emitter.emit({
+                type: 'workflow:cancelled',
+                workflowId: state.workflow.id,
+                stepId: step.id,
+                reason: `Step ${step.id} failed after ${stepResult.metadata.attempt} attempts: ${stepResult.error.message}`,
+                timestamp: Date.now()
+              });
+            }
+
+            yield WorkflowResultBuilder.createErrorResult(
+              new Error(`Workflow cancelled: Step ${step.id} failed after ${stepResult.metadata.attempt} attempts - ${stepResult.error.message}`),
+              state.startTime
+            );
+            cancelled = true;
+            break;
           }
 
-          yield WorkflowResultBuilder.createErrorResult(
-            new Error(`Workflow cancelled: Step ${currentStep.id} failed after ${stepResult.metadata.attempt} attempts - ${stepResult.error.message}`),
-            state.startTime
-          );
+          logger.agent.debug('Step execution completed, continuing workflow', {
+            stepId: step.id,
+            hasError: !!stepResult.error,
+            willContinue: true,
+            iteration: state.iteration
+          });
+        }
+        if (cancelled) {
           break;
         }
 
-        logger.agent.debug('Step execution completed, continuing workflow', {
-          stepId: currentStep.id,
-          hasError: !!stepResult.error,
-          willContinue: true,
-          iteration: state.iteration
-        });
-
         state.iteration++;    
       }
       logger.agent.debug('Workflow steps execution complete', {
@@ -320,6 +487,217 @@ export class WorkflowExecutor {
     }
   }
 
+  /**
+   * Saves a snapshot of the workflow state. A failed save, e.g. of state
+   * that cannot be cloned, does not stop the workflow and is reported with
+   * the snapshot error event.
+   * 
+   * @param state - The workflow state
+   * @param storage - The storage to save the snapshot to
+   * @param runId - The ID to save the snapshot under
+   */
+  private async saveSnapshot(state: WorkflowState, storage: WorkflowStorage, runId: string): Promise<void> {
+    try {
+      const snapshot = this.stateManager.createSnapshot();
+      await storage.save(runId, snapshot);
+      logger.agent.debug('Workflow snapshot saved', { runId, iteration: snapshot.iteration });
+    } catch (error: any) {
+      logger.agent.error('Failed to save workflow snapshot', { runId, error: error.message });
+      this.session._eventEmitter?.emit({
+        type: 'workflow:snapshot:error',
+        workflowId: state.workflow.id,
+        runId,
+        iteration: state.iteration,
+        error: error.message,
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  /**
+   * Deletes the snapshot of a finished workflow.
+   * 
+   * @param storage - The storage holding the snapshot
+   * @param runId - The ID the snapshot was saved under
+   */
+  private async deleteSnapshot(storage: WorkflowStorage, runId: string): Promise<void> {
+    try {
+      await storage.delete(runId);
+    } catch (error: any) {
+      logger.agent.error('Failed to delete workflow snapshot', { runId, error: error.message });
+    }
+  }
+
+  /**
+   * Waits for running steps to finish, yielding a pending-approval iteration
+   * for every tool call that needs the app's approval and, when streaming,
+   * a delta iteration for content the steps generate in the meantime.
+   * 
+   * @param execution - The running steps
+   * @returns The step results
+   */
+  private async* yieldStepReports(
+    execution: Promise<WorkflowIterationResponse[]>
+  ): AsyncGenerator<WorkflowIterationResponse, WorkflowIterationResponse[]> {
+    let results: WorkflowIterationResponse[] | undefined;
+    const finished = execution.then(stepResults => { results = stepResults; });
+    while (true) {
+      // Reports stay queued until taken here, so none is lost to the race below
+      const report = this.stateManager.takeStepReport();
+      if (report) {
+        if ('approval' in report) {
+          yield {
+            stepId: report.approval.stepId,
+            pendingApproval: report.approval
+          };
+        } else {
+          yield report.delta;
+        }
+        continue;
+      }
+      if (results) {
+        return results;
+      }
+      await Promise.race([finished, this.stateManager.waitForStepReport()]);
+    }
+  }
+
+  /**
+   * Handles an aborted workflow, reporting a cancellation or a timeout
+   * depending on why it was aborted.
+   * 
+   * @param state - The workflow state
+   * @param stepId - The step that was running or about to run
+   * @returns The result to yield
+   */
+  private handleAbort(
+    state: WorkflowState,
+    stepId: string
+  ): WorkflowIterationResponse {
+    if (this.stateManager.isCancelled()) {
+      return this.handleCancellation(state, stepId);
+    }
+    return this.handleTimeout(state, stepId);
+  }
+
+  /**
+   * Handles a workflow cancelled by the caller, emitting the cancelled event.
+   * 
+   * @param state - The workflow state
+   * @param stepId - The step that was running or about to run
+   * @returns The cancelled result to yield
+   */
+  private handleCancellation(
+    state: WorkflowState,
+    stepId: string
+  ): WorkflowIterationResponse {
+    logger.agent.info('Workflow cancelled', {
+      workflowId: state.workflow.id,
+      stepId,
+      elapsedMs: Date.now() - state.startTime
+    });
+
+    const emitter = this.session._eventEmitter;
+    if (emitter) {
+      emitter.emit({
+        type: 'workflow:cancelled',
+        workflowId: state.workflow.id,
+        stepId,
+        reason: 'Cancelled by caller',
+        timestamp: Date.now()
+      });
+    }
+
+    return WorkflowResultBuilder.createCancelledResult(
+      stepId,
+      state.startTime,
+    );
+  }
+
+  /**
+   * Handles a workflow timeout, emitting the timeout event.
+   * 
+   * @param state - The workflow state
+   * @param stepId - The step that was running or about to run
+   * @returns The timeout result to yield
+   */
+  private handleTimeout(
+    state: WorkflowState,
+    stepId: string
+  ): WorkflowIterationResponse {
+    logger.agent.warn('Workflow timeout exceeded', {
+      workflowId: state.workflow.id,
+      stepId,
+      elapsedMs: Date.now() - state.startTime,
+      timeoutMs: state.timeout
+    });
+
+    // Emit workflow timeout event
+    const emitter = this.session._eventEmitter;
+    if (emitter) {
+      emitter.emit({
+        type: 'workflow:timeout',
+        workflowId: state.workflow.id,
+        stepId,
+        duration: Date.now() - state.startTime,
+        timestamp: Date.now()
+      });
+    }
+
+    return WorkflowResultBuilder.createTimeoutResult(
+      stepId,
+      state.startTime,
+    );
+  }
+
+  /**
+   * Finds the steps to execute in the next iteration. Without concurrency
+   * this is at most one step; otherwise it is up to maxConcurrency ready steps.
+   * 
+   * @param state - The workflow state
+   * @returns The steps to execute, in workflow order
+   */
+  private findNextSteps(state: WorkflowState): WorkflowStep[] {
+    if (!state.maxConcurrency || state.maxConcurrency <= 1) {
+      const step = this.stateManager.findNextStep();
+      return step ? [step] : [];
+    }
+    return this.stateManager.findReadySteps().slice(0, state.maxConcurrency);
+  }
+
+  /**
+   * Executes independent steps concurrently. Each step writes to its own
+   * memory branch, and branches are merged in workflow order once all steps
+   * have finished so the resulting history is deterministic.
+   * 
+   * @param steps - The steps to execute
+   * @param state - The workflow state
+   * @returns The step results, in the same order as the steps
+   */
+  private async executeStepsInParallel(
+    steps: WorkflowStep[],
+    state: WorkflowState
+  ): Promise<WorkflowIterationResponse[]> {
+    logger.agent.debug('Executing steps in parallel', {
+      workflowId: state.workflow.id,
+      stepIds: steps.map(step => step.id),
+      maxConcurrency: state.maxConcurrency
+    });
+
+    for (const step of steps) {
+      this.stateManager.createMemoryBranch(step.id);
+    }
+    try {
+      return await Promise.all(
+        steps.map(step => this.stepExecutor.execute(step, state.tools, step.id))
+      );
+    } finally {
+      for (const step of steps) {
+        await this.stateManager.mergeMemoryBranch(step.id);
+      }
+    }
+  }
+
   /**
    * Handles a workflow error, logging the error and yielding a result.
    * 
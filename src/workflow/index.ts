@@ -1,9 +1,21 @@
 // Workflow execution components
 export { WorkflowExecutor } from './executor';
 export { StepExecutor } from './step-executor';
+export { StepRouter, getRouteTargets } from './step-router';
 
 // State management
 export { WorkflowStateManager } from './workflow-state';
 
+// Snapshot storage
+export {
+  InMemoryWorkflowStorage,
+  LocalStorageWorkflowStorage,
+  IndexedDBWorkflowStorage,
+  FileSystemWorkflowStorage
+} from './storage';
+
+// Validation
+export { validateWorkflow } from './validation';
+
 // Result builders
 export { WorkflowResultBuilder } from './result-builder';
\ No newline at end of file
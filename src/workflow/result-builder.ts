@@ -22,6 +22,24 @@ export class WorkflowResultBuilder {
     return response;
   }
 
+  static createCancelledResult(
+    stepId: string | null,
+    startTime: number,
+  ): WorkflowIterationResponse {
+    const response: WorkflowIterationResponse = {
+      error: {
+        message: 'Workflow cancelled',
+      },
+      metadata: {
+        duration: Date.now() - startTime,
+      }
+    };
+    if (stepId) {
+      response.stepId = stepId;
+    }
+    return response;
+  }
+
   static createMaxIterationsResult(
     stepId: string | null,
     startTime: number,
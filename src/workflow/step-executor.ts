@@ -1,10 +1,16 @@
 import type { ModelResponse, NonStreamingResponse, Session } from '../types/session'
-import type { Tool, GenerateArgs } from '../types/worker';
+import type { Tool, GenerateArgs, ToolExecutionContext } from '../types/worker';
+import { ToolArgumentValidationError, ToolTimeoutError } from '../types/worker';
+import type { MemoryMessage } from '../types/memory';
 import type { 
   WorkflowStep,
+  WorkflowToolCall,
+  ToolApprovalDecision,
 } from '../types/agent-session';
 
 import { logger } from '../utils/logger';
+import { ToolArgumentValidator } from '../processing/tools/validator';
+import { collectStream } from '../processing/content/stream-collector';
 import { WorkflowStateManager } from './workflow-state';
 import { WorkflowIterationResponse } from '../types/agent-session';
 
@@ -26,12 +32,17 @@ export class StepExecutor {
   /**
    * Executes a workflow step, handling tool calls and response generation.
    * 
+   * The model is called again with the tool results after every round of
+   * tool calls, until it answers without calling a tool or the step's
+   * `maxToolRounds` is reached.
+   * 
    * @param step - The workflow step to execute
    * @param tools - The tools to use for the step
+   * @param branchId - Optional memory branch the step reads from and writes to
    * @returns A promise that resolves with the workflow iteration response
    */
   async execute(
-    step: WorkflowStep, tools: Tool[]
+    step: WorkflowStep, tools: Tool[], branchId?: string
   ): Promise<WorkflowIterationResponse> {
     const stepStartTime = Date.now();
     const stepState = this.workflowStateManager.getStepState(step.id);
@@ -43,51 +54,101 @@ export class StepExecutor {
     });
     
     // Create checkpoint for potential rollback
-    this.workflowStateManager.createCheckpoint(step.id);
+    this.workflowStateManager.createCheckpoint(step.id, branchId);
 
     try {      
       // Increment attempt counter
       stepState.attempts = stepState.attempts + 1;
 
+      // Aborted when the workflow times out or is cancelled
+      const signal = this.workflowStateManager.getAbortSignal();
+
       // Prepare generation arguments and filtered tools
-      const { generateArgs, toolsAvailable, isLastStep } = await this.prepareGeneration(step, tools);
+      const prepared = await this.prepareGeneration(step, tools, branchId);
+      const { toolsAvailable, isLastStep } = prepared;
+      let generateArgs: GenerateArgs = { ...prepared.generateArgs, signal };
 
-      // Generate response
-      const modelResponse = await this.session.createResponse(step.model, generateArgs) as NonStreamingResponse;
-      
-      logger.agent.debug('Model response received', {
-        stepId: step.id,
-        modelResponse,
-        currentTokenCount: this.workflowStateManager.getCurrentTokenCount(),
-        messageCount: this.workflowStateManager.getMessageCount(),
-      });
-      
-      if (step.toolChoice && step.toolChoice.length > 0 && modelResponse.toolCalls) {
-        return await this.handleToolUse(
+      const maxToolRounds = step.maxToolRounds ?? 1;
+      const toolCalls: WorkflowToolCall[] = [];
+
+      for (let round = 1; ; round++) {
+        // Generate response
+        const modelResponse = await raceWithSignal(
+          this.generate(step, generateArgs),
+          signal
+        );
+        
+        logger.agent.debug('Model response received', {
+          stepId: step.id,
+          round,
+          modelResponse,
+          currentTokenCount: this.workflowStateManager.getCurrentTokenCount(),
+          messageCount: this.workflowStateManager.getMessageCount(),
+        });
+        
+        if (!step.toolChoice || step.toolChoice.length === 0 || !modelResponse.toolCalls?.length) {
+          return this.handleContentResponse(step, modelResponse, isLastStep, stepStartTime, toolCalls, branchId);
+        }
+
+        toolCalls.push(...await this.handleToolUse(
           step, 
           toolsAvailable, 
           modelResponse, 
+          round,
+          round >= maxToolRounds,
           isLastStep, 
-          stepStartTime,
-        );
-      } else {
-        return this.handleContentResponse(step, modelResponse, isLastStep, stepStartTime);
-      }        
+          signal,
+          branchId,
+        ));
+
+        if (round >= maxToolRounds) {
+          return this.handleToolRoundsComplete(step, modelResponse, toolCalls, stepStartTime);
+        }
+
+        // Feed the tool results back to the model
+        generateArgs = {
+          ...generateArgs,
+          messages: await this.workflowStateManager.getMessages(branchId),
+        };
+      }
     } catch (error: any) {
-      return this.handleError(error, step, stepState, stepStartTime);
+      return this.handleError(error, step, stepState, stepStartTime, branchId);
     }
   }
 
+  /**
+   * Generates a model response for a step. Streamed responses are collected
+   * into a complete response, reporting the text deltas as they arrive.
+   * 
+   * @param step - The workflow step to generate for
+   * @param generateArgs - The generation arguments
+   * @returns A promise that resolves with the complete model response
+   */
+  private async generate(step: WorkflowStep, generateArgs: GenerateArgs): Promise<NonStreamingResponse> {
+    const modelResponse = await this.session.createResponse(step.model, generateArgs);
+    if (modelResponse.type === 'complete') {
+      return modelResponse;
+    }
+
+    return collectStream(modelResponse.stream, part => {
+      if (part.type === 'text-delta' && part.text) {
+        this.workflowStateManager.reportStepDelta(step.id, part.text);
+      }
+    });
+  }
+
   /**
    * Prepares the generation arguments and filtered tools for a workflow step.
    * 
    * @param step - The workflow step to prepare the generation arguments and filtered tools for
    * @param tools - The tools to use for the step
+   * @param branchId - Optional memory branch to use
    * @returns A promise that resolves with the generation arguments and filtered tools
    */
   private async prepareGeneration(
     step: WorkflowStep, 
-    tools: Tool[]
+    tools: Tool[],
+    branchId?: string
   ): Promise<{ generateArgs: GenerateArgs; toolsAvailable: Tool[]; isLastStep: boolean }> {
     let prompt = step.prompt;
     const isLastStep = this.workflowStateManager.isLastStep(step.id);
@@ -101,7 +162,7 @@ export class StepExecutor {
       metadata: {
         type: 'step_prompt'
       }
-    }], true);
+    }], true, branchId);
 
     // Select tools based on generationTask and toolChoice
     let toolsAvailable: Tool[];
@@ -118,7 +179,7 @@ export class StepExecutor {
     }
     
     // Get messages from memory (now async)
-    const memoryMessages = await this.workflowStateManager.getMessages();
+    const memoryMessages = await this.workflowStateManager.getMessages(branchId);
     
     // System and user prompts are already in memory, so just use memoryMessages
     const generateArgs: GenerateArgs = {
@@ -126,7 +187,7 @@ export class StepExecutor {
       enable_thinking: step.enableThinking ?? false,
       temperature: step.temperature ?? 0.1,
       max_new_tokens: step.maxTokens ?? 1024,
-      stream: false,
+      stream: this.workflowStateManager.getState().stream,
     };
     if (toolsAvailable.length > 0) {
       // Extract just the tool definitions for the generate args
@@ -137,23 +198,36 @@ export class StepExecutor {
   }
 
   /**
-   * Handles the tool use for a workflow step.
+   * Runs every tool call of a model response and writes each tool_use and
+   * tool_result pair to memory in the order the model requested them.
+   * Up to `toolConcurrency` calls of the step run at the same time.
+   * 
+   * Arguments are validated against the tool's parameter schema first.
+   * Invalid calls are not run; a structured validation error is written as
+   * their tool result so the model can correct itself in the next round.
    * 
    * @param step - The workflow step to handle the tool use for
    * @param toolsAvailable - The available tools to use for the step
    * @param modelResponse - The model response containing content and tool calls
+   * @param round - The tool round of the step, starting at 1
+   * @param finalRound - Whether the step has no tool rounds left
    * @param isLastStep - Whether the step is the last step
-   * @param stepState - The state of the step
-   * @param stepStartTime - The start time of the step
-   * @returns A promise that resolves with the workflow iteration response
+   * @param signal - Aborts in-flight tool calls when the workflow is aborted
+   * @param branchId - Optional memory branch to write to
+   * @returns A promise that resolves with the tool calls that were run
+   * @throws {Error} The first tool call failure, once the other calls are aborted
+   * @throws {ToolArgumentValidationError} If a call has invalid arguments in the final round
    */
   private async handleToolUse(
     step: WorkflowStep,
     toolsAvailable: Tool[],
     modelResponse: ModelResponse,
+    round: number,
+    finalRound: boolean,
     isLastStep: boolean,
-    stepStartTime: number
-  ): Promise<WorkflowIterationResponse> {
+    signal: AbortSignal,
+    branchId?: string
+  ): Promise<WorkflowToolCall[]> {
     // Type guard to ensure we have a non-streaming response
     if (modelResponse.type === 'streaming') {
       throw new Error('Streaming responses are not supported for tool use');
@@ -162,119 +236,464 @@ export class StepExecutor {
       throw new Error('Tool calls not found in response');
     }
 
-    for (const toolCall of modelResponse.toolCalls) {
-      const toolSelected = toolsAvailable.find(
-        tool => tool.definition.name === toolCall.function.name
-      )!;
+    // Resolve and validate every call before running any of them
+    const calls = modelResponse.toolCalls.map(toolCall => this.prepareToolCall(step, toolsAvailable, toolCall));
 
-      if (!toolSelected.implementation) {
-        throw new Error(
-          'Tool implementation not found for tool ' + 
-          toolCall.function.name
-        );
+    // The first failing call aborts the calls still running
+    const outcomes = await mapWithConcurrency(
+      calls,
+      step.toolConcurrency ?? 1,
+      signal,
+      async ({ toolCall, tool, args, validationError }, callSignal): Promise<ToolCallOutcome> => validationError
+        ? { args, result: await this.rejectToolCall(step, validationError) }
+        : this.executeToolCall(step, tool, toolCall, args, callSignal)
+    );
+
+    // Add tool results to memory in the original order
+    await this.workflowStateManager.addMessagesToMemory(
+      calls.flatMap(({ toolCall }, index) =>
+        this.createToolMessages(toolCall.id, toolCall.function.name, outcomes[index]!.args, outcomes[index]!.result)
+      ),
+      isLastStep,
+      branchId
+    );
+
+    const validationErrors = calls.map((call, index) => call.validationError ?? outcomes[index]!.validationError);
+    const invalidCallError = validationErrors.find(Boolean);
+    if (finalRound && invalidCallError) {
+      throw invalidCallError;
+    }
+
+    return calls.map(({ toolCall }, index) => {
+      const outcome = outcomes[index]!;
+      const validationError = validationErrors[index];
+      const workflowToolCall: WorkflowToolCall = {
+        id: toolCall.id,
+        name: toolCall.function.name,
+        args: outcome.args,
+        result: JSON.stringify(outcome.result),
+        round,
+      };
+      if (validationError) {
+        workflowToolCall.error = validationError.message;
+      }
+      if (outcome.approval) {
+        workflowToolCall.approval = outcome.approval;
+      }
+      return workflowToolCall;
+    });
+  }
+
+  /**
+   * Runs a valid tool call. Calls to tools that require approval first pause
+   * until the app approves, edits or rejects them; a rejected call is not run
+   * and the rejection becomes its tool result.
+   * 
+   * @param step - The workflow step the tool call belongs to
+   * @param tool - The tool to run
+   * @param toolCall - The tool call requested by the model
+   * @param args - The validated arguments of the call
+   * @param signal - The abort signal of the workflow
+   * @returns The arguments the tool ran with and its result
+   */
+  private async executeToolCall(
+    step: WorkflowStep,
+    tool: Tool,
+    toolCall: ModelToolCall,
+    args: Record<string, any>,
+    signal: AbortSignal
+  ): Promise<ToolCallOutcome> {
+    if (!tool.requiresApproval) {
+      return { args, result: await this.runToolCall(step, tool, toolCall, args, signal) };
+    }
+
+    const decision = await this.waitForApproval(step, toolCall, args, signal);
+    switch (decision.action) {
+      case 'reject':
+        return {
+          args,
+          result: createRejectionFeedback(toolCall.function.name, decision.reason),
+          approval: 'reject',
+        };
+      case 'edit': {
+        // Edited arguments are checked like the model's; invalid ones are
+        // fed back to the model instead of reaching the tool
+        const { args: editedArgs, validationError } = this.validateToolArguments(step, tool, toolCall, decision.args);
+        if (validationError) {
+          return {
+            args: editedArgs,
+            result: await this.rejectToolCall(step, validationError),
+            approval: 'edit',
+            validationError,
+          };
+        }
+        return {
+          args: editedArgs,
+          result: await this.runToolCall(step, tool, toolCall, editedArgs, signal),
+          approval: 'edit',
+        };
+      }
+      default:
+        return {
+          args,
+          result: await this.runToolCall(step, tool, toolCall, args, signal),
+          approval: 'approve',
+        };
+    }
+  }
+
+  /**
+   * Asks the app to approve a tool call and waits for its decision. The
+   * workflow reports the request as a pending-approval iteration.
+   * 
+   * @param step - The workflow step the tool call belongs to
+   * @param toolCall - The tool call requested by the model
+   * @param args - The validated arguments of the call
+   * @param signal - Stops waiting when the workflow is aborted
+   * @returns The app's decision
+   */
+  private async waitForApproval(
+    step: WorkflowStep,
+    toolCall: ModelToolCall,
+    args: Record<string, any>,
+    signal: AbortSignal
+  ): Promise<ToolApprovalDecision> {
+    const { approval, decision } = this.workflowStateManager.requestToolApproval({
+      stepId: step.id,
+      toolCallId: toolCall.id,
+      toolName: toolCall.function.name,
+      args,
+    });
+
+    logger.agent.info('Tool call awaiting approval', {
+      stepId: step.id,
+      approvalId: approval.id,
+      toolName: approval.toolName
+    });
+    const emitter = this.session._eventEmitter;
+    if (emitter) {
+      emitter.emit({
+        type: 'tool:approval:requested',
+        approvalId: approval.id,
+        stepId: step.id,
+        toolName: approval.toolName,
+        args,
+        timestamp: Date.now()
+      });
+    }
+
+    const result = await raceWithSignal(decision, signal);
+
+    logger.agent.info('Tool call approval resolved', {
+      stepId: step.id,
+      approvalId: approval.id,
+      action: result.action
+    });
+    if (emitter) {
+      emitter.emit({
+        type: 'tool:approval:resolved',
+        approvalId: approval.id,
+        stepId: step.id,
+        toolName: approval.toolName,
+        action: result.action,
+        timestamp: Date.now()
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Resolves the tool of a tool call and validates its arguments.
+   * 
+   * @param step - The workflow step the tool call belongs to
+   * @param toolsAvailable - The available tools to use for the step
+   * @param toolCall - The tool call requested by the model
+   * @returns The tool, the (possibly coerced) arguments and any validation error
+   */
+  private prepareToolCall(
+    step: WorkflowStep,
+    toolsAvailable: Tool[],
+    toolCall: ModelToolCall
+  ): { toolCall: ModelToolCall; tool: Tool; args: Record<string, any>; validationError?: ToolArgumentValidationError } {
+    const toolSelected = toolsAvailable.find(
+      tool => tool.definition.name === toolCall.function.name
+    );
+
+    if (!toolSelected) {
+      throw new Error('Tool not available for step: ' + toolCall.function.name);
+    }
+    if (!toolSelected.implementation) {
+      throw new Error(
+        'Tool implementation not found for tool ' + 
+        toolCall.function.name
+      );
+    }
+
+    let parsedArgs: unknown;
+    try {
+      parsedArgs = JSON.parse(toolCall.function.arguments);
+    } catch {
+      const validationError = new ToolArgumentValidationError(
+        toolCall.function.name,
+        [{ path: '', message: 'Arguments are not valid JSON' }],
+        toolCall.id,
+        toolCall.function.arguments
+      );
+      return { toolCall, tool: toolSelected, args: {}, validationError };
+    }
+
+    return { toolCall, tool: toolSelected, ...this.validateToolArguments(step, toolSelected, toolCall, parsedArgs) };
+  }
+
+  /**
+   * Validates the arguments of a tool call against the tool's parameter
+   * schema, coercing them unless the step turns coercion off.
+   * 
+   * @param step - The workflow step the tool call belongs to
+   * @param tool - The tool being called
+   * @param toolCall - The tool call requested by the model
+   * @param rawArgs - The arguments to validate
+   * @returns The (possibly coerced) arguments and any validation error
+   */
+  private validateToolArguments(
+    step: WorkflowStep,
+    tool: Tool,
+    toolCall: ModelToolCall,
+    rawArgs: unknown
+  ): { args: Record<string, any>; validationError?: ToolArgumentValidationError } {
+    const validator = new ToolArgumentValidator({ coerce: step.coerceToolArguments ?? true });
+    const { valid, args, errors } = validator.validate(tool.definition, rawArgs);
+    if (valid) {
+      return { args };
+    }
+
+    logger.agent.warn('Tool call arguments failed validation', {
+      stepId: step.id,
+      toolName: toolCall.function.name,
+      errors
+    });
+    const validationError = new ToolArgumentValidationError(
+      toolCall.function.name,
+      errors,
+      toolCall.id,
+      rawArgs
+    );
+    return { args, validationError };
+  }
+
+  /**
+   * Reports a tool call with invalid arguments without running it.
+   * 
+   * @param step - The workflow step the tool call belongs to
+   * @param validationError - The validation error of the call
+   * @returns The structured error fed back to the model as the tool result
+   */
+  private async rejectToolCall(
+    step: WorkflowStep,
+    validationError: ToolArgumentValidationError
+  ): Promise<Record<string, any>> {
+    const emitter = this.session._eventEmitter;
+    if (emitter) {
+      emitter.emit({
+        type: 'tool:call:error',
+        stepId: step.id,
+        toolName: validationError.toolName,
+        error: validationError.message,
+        duration: 0,
+        timestamp: Date.now()
+      });
+    }
+    return createValidationFeedback(validationError);
+  }
+
+  /**
+   * Creates the tool_use and tool_result memory messages of a tool call.
+   * 
+   * @param toolCallId - The ID of the tool call
+   * @param toolName - The name of the tool
+   * @param args - The arguments of the call
+   * @param result - The tool result
+   * @returns The tool_use and tool_result messages
+   */
+  private createToolMessages(
+    toolCallId: string,
+    toolName: string,
+    args: Record<string, any>,
+    result: unknown
+  ): MemoryMessage[] {
+    return [
+      {
+        role: 'assistant',
+        content: [
+          {
+            type: 'tool_use',
+            id: toolCallId,
+            name: toolName,
+            arguments: args
+          }
+        ],
+        metadata: {
+          type: 'tool_use'
+        }
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: toolCallId,
+            result: JSON.stringify(result)
+          }
+        ],
+        metadata: {
+          type: 'tool_result'
+        }
       }
+    ];
+  }
 
-      const toolStartTime = Date.now();
-      const emitter = this.session._eventEmitter;
+  /**
+   * Runs a single tool call, emitting tool call events. The implementation
+   * receives an abort signal that fires when the tool's `timeoutMs` elapses
+   * or the workflow is aborted; the call is abandoned at that point even if
+   * the implementation ignores the signal.
+   * 
+   * @param step - The workflow step the tool call belongs to
+   * @param tool - The tool to run
+   * @param toolCall - The tool call requested by the model
+   * @param args - The validated arguments of the call
+   * @param workflowSignal - The abort signal of the workflow
+   * @returns A promise that resolves with the tool result
+   */
+  private async runToolCall(
+    step: WorkflowStep,
+    tool: Tool,
+    toolCall: ModelToolCall,
+    args: Record<string, any>,
+    workflowSignal: AbortSignal
+  ): Promise<any> {
+    const controller = new AbortController();
+    const abortTool = () => controller.abort(workflowSignal.reason);
+    workflowSignal.addEventListener('abort', abortTool, { once: true });
+    if (workflowSignal.aborted) {
+      abortTool();
+    }
+    const timeoutTimer = tool.timeoutMs
+      ? setTimeout(() => controller.abort(new ToolTimeoutError(toolCall.function.name, tool.timeoutMs!)), tool.timeoutMs)
+      : undefined;
+
+    const toolStartTime = Date.now();
+    const emitter = this.session._eventEmitter;
+    if (emitter) {
+      emitter.emit({
+        type: 'tool:call:start',
+        stepId: step.id,
+        toolName: toolCall.function.name,
+        args,
+        timestamp: toolStartTime
+      });
+    }
+
+    try {
+      const context: ToolExecutionContext = {
+        signal: controller.signal,
+        stepId: step.id,
+        toolCallId: toolCall.id,
+      };
+      const toolResult = await raceWithSignal(
+        Promise.resolve().then(() => tool.implementation!(args, context)),
+        controller.signal
+      );
+      logger.agent.debug('Tool execution result', {
+        stepId: step.id,
+        toolName: toolCall.function.name,
+        result: toolResult
+      });
       if (emitter) {
         emitter.emit({
-          type: 'tool:call:start',
+          type: 'tool:call:complete',
           stepId: step.id,
           toolName: toolCall.function.name,
-          args: JSON.parse(toolCall.function.arguments),
-          timestamp: toolStartTime
+          result: toolResult,
+          duration: Date.now() - toolStartTime,
+          timestamp: Date.now()
         });
       }
-
-      // Execute tool
-      let toolResult: any;
-      try {
-        toolResult = await toolSelected.implementation(
-          JSON.parse(toolCall.function.arguments)
-        );
-        logger.agent.debug('Tool execution result', {
+      return toolResult;
+    } catch (error: any) {
+      if (error instanceof ToolTimeoutError) {
+        logger.agent.error('Tool execution timed out', {
           stepId: step.id,
           toolName: toolCall.function.name,
-          result: toolResult
+          timeoutMs: error.timeoutMs
         });
         if (emitter) {
           emitter.emit({
-            type: 'tool:call:complete',
+            type: 'tool:call:timeout',
             stepId: step.id,
             toolName: toolCall.function.name,
-            result: toolResult,
+            timeoutMs: error.timeoutMs,
             duration: Date.now() - toolStartTime,
             timestamp: Date.now()
           });
         }
-      } catch (error: any) {
-        logger.agent.error('Tool execution failed', {
+        throw new Error('Tool execution failed: ' + error.message);
+      }
+
+      logger.agent.error('Tool execution failed', {
+        stepId: step.id,
+        toolName: toolCall.function.name,
+        error: error.message
+      });
+      if (emitter) {
+        emitter.emit({
+          type: 'tool:call:error',
           stepId: step.id,
           toolName: toolCall.function.name,
-          error: error.message
+          error: error.message,
+          duration: Date.now() - toolStartTime,
+          timestamp: Date.now()
         });
-        if (emitter) {
-          emitter.emit({
-            type: 'tool:call:error',
-            stepId: step.id,
-            toolName: toolCall.function.name,
-            error: error.message,
-            duration: Date.now() - toolStartTime,
-            timestamp: Date.now()
-          });
-        }
-        throw new Error('Tool execution failed: ' + error.message);
       }
+      throw new Error('Tool execution failed: ' + error.message);
+    } finally {
+      clearTimeout(timeoutTimer);
+      workflowSignal.removeEventListener('abort', abortTool);
+    }
+  }
 
-      // Add tool result to memory
-      await this.workflowStateManager.addMessagesToMemory([
-        {
-          role: 'assistant',
-          content: [
-            {
-              type: 'tool_use',
-              id: toolCall.id,
-              name: toolCall.function.name,
-              arguments: JSON.parse(toolCall.function.arguments)
-            }
-          ],
-          metadata: {
-            type: 'tool_use'
-          }
-        },
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'tool_result',
-              tool_use_id: toolCall.id,
-              result: JSON.stringify(toolResult)
-            }
-          ],
-          metadata: {
-            type: 'tool_result'
-          }
-        }
-      ], isLastStep);
-
-      this.workflowStateManager.handleStepCompletion(step.id, true, JSON.stringify(toolResult));
+  /**
+   * Completes a step that reached its tool round limit. The result of the
+   * last tool call becomes the step result.
+   * 
+   * @param step - The workflow step to complete
+   * @param modelResponse - The last model response of the step
+   * @param toolCalls - Every tool call made during the step
+   * @param stepStartTime - The start time of the step
+   * @returns The workflow iteration response
+   */
+  private handleToolRoundsComplete(
+    step: WorkflowStep,
+    modelResponse: NonStreamingResponse,
+    toolCalls: WorkflowToolCall[],
+    stepStartTime: number
+  ): WorkflowIterationResponse {
+    const lastToolCall = toolCalls[toolCalls.length - 1];
+    this.workflowStateManager.handleStepCompletion(step.id, true, lastToolCall?.result);
 
-      return {
-        stepId: step.id,
-        toolCall: {
-          name: toolCall.function.name,
-          args: JSON.parse(toolCall.function.arguments),
-          result: JSON.stringify(toolResult)
-        },
-        metadata: {
-          duration: Date.now() - stepStartTime,
-          rawResult: modelResponse.content,
-        }
-      };
+    const response: WorkflowIterationResponse = {
+      stepId: step.id,
+      toolCalls,
+      metadata: {
+        duration: Date.now() - stepStartTime,
+        rawResult: modelResponse.content,
+        toolRounds: lastToolCall?.round ?? 0,
+      }
+    };
+    if (lastToolCall) {
+      response.toolCall = lastToolCall;
     }
-
-    // This should never be reached due to the toolCalls check above
-    throw new Error('No tool calls processed');
+    return response;
   }
 
   /**
@@ -284,13 +703,17 @@ export class StepExecutor {
    * @param modelResponse - The model response containing content
    * @param isLastStep - Whether the step is the last step
    * @param stepStartTime - The start time of the step
+   * @param toolCalls - Tool calls made earlier in the step
+   * @param branchId - Optional memory branch to write to
    * @returns A promise that resolves with the workflow iteration response
    */
   private handleContentResponse(
     step: WorkflowStep,
     modelResponse: ModelResponse,
     isLastStep: boolean,
-    stepStartTime: number
+    stepStartTime: number,
+    toolCalls: WorkflowToolCall[],
+    branchId?: string
   ): WorkflowIterationResponse {
     // Type guard to ensure we have a non-streaming response
     if (modelResponse.type === 'streaming') {
@@ -305,12 +728,12 @@ export class StepExecutor {
       metadata: {
         type: 'step_result'
       }
-    }], isLastStep);
+    }], isLastStep, branchId);
     
     // Handle step completion
     this.workflowStateManager.handleStepCompletion(step.id, true, cleanContent);
     
-    return {
+    const response: WorkflowIterationResponse = {
       stepId: step.id,
       content: cleanContent,
       metadata: {
@@ -318,6 +741,13 @@ export class StepExecutor {
         rawResult: modelResponse.content,
       }
     };
+    const lastToolCall = toolCalls[toolCalls.length - 1];
+    if (lastToolCall) {
+      response.toolCall = lastToolCall;
+      response.toolCalls = toolCalls;
+      response.metadata!.toolRounds = lastToolCall.round;
+    }
+    return response;
   }
 
   /**
@@ -327,18 +757,34 @@ export class StepExecutor {
    * @param step - The workflow step to handle the error for
    * @param stepState - The state of the step
    * @param stepStartTime - The start time of the step
+   * @param branchId - Optional memory branch to roll back
    * @returns A promise that resolves with the workflow iteration response
    */
-  private handleError(
+  private async handleError(
     error: any,
     step: WorkflowStep,
     stepState: any,
-    stepStartTime: number
-  ): WorkflowIterationResponse {
+    stepStartTime: number,
+    branchId?: string
+  ): Promise<WorkflowIterationResponse> {
     // Rollback to checkpoint before this step
-    this.workflowStateManager.rollbackToCheckpoint(step.id);
+    this.workflowStateManager.rollbackToCheckpoint(step.id, branchId);
     
     const willRetry = stepState.maxAttempts && stepState.attempts < stepState.maxAttempts;
+
+    // Keep the rejected call and its validation feedback so the retry can correct it
+    if (willRetry && error instanceof ToolArgumentValidationError && error.toolCallId) {
+      await this.workflowStateManager.addMessagesToMemory(
+        this.createToolMessages(
+          error.toolCallId,
+          error.toolName,
+          isRecord(error.args) ? error.args : {},
+          createValidationFeedback(error)
+        ),
+        true,
+        branchId
+      );
+    }
     
     logger.agent.error('Step execution failed, rolling back to checkpoint', {
       stepId: step.id,
@@ -366,3 +812,109 @@ export class StepExecutor {
   }
 }
 
+type ModelToolCall = NonNullable<NonStreamingResponse['toolCalls']>[number];
+
+/**
+ * What happened to a tool call: the arguments it ran with, the result
+ * written to memory and, for calls that required approval, the decision.
+ * Edited arguments that fail validation carry their validation error.
+ */
+type ToolCallOutcome = {
+  args: Record<string, any>;
+  result: unknown;
+  approval?: ToolApprovalDecision['action'];
+  validationError?: ToolArgumentValidationError;
+};
+
+/**
+ * Settles with the promise, or rejects with the abort reason as soon as the
+ * signal is aborted.
+ */
+function raceWithSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Creates the tool result that tells the model why its arguments were rejected.
+ */
+function createValidationFeedback(error: ToolArgumentValidationError): Record<string, any> {
+  return {
+    error: 'invalid_arguments',
+    message: `${error.message}. Call ${error.toolName} again with corrected arguments.`,
+    errors: error.errors,
+  };
+}
+
+/**
+ * Builds the tool result of a call the app rejected, telling the model not to
+ * retry it unchanged.
+ */
+function createRejectionFeedback(toolName: string, reason?: string): Record<string, any> {
+  return {
+    error: 'rejected',
+    message: `The user rejected this call to ${toolName}` + (reason ? ` (${reason})` : '') +
+      '. Do not repeat it unchanged.',
+  };
+}
+
+/**
+ * Maps items with an async function, running at most `limit` calls at once.
+ * Results keep the order of the input items.
+ *
+ * Every call receives a shared signal that is aborted with the first
+ * rejection, or when the parent signal aborts. No further items start after
+ * that, and the returned promise rejects with the first error once the calls
+ * already running have settled.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  parentSignal: AbortSignal,
+  fn: (item: T, signal: AbortSignal) => Promise<R>
+): Promise<R[]> {
+  const controller = new AbortController();
+  const abortAll = () => controller.abort(parentSignal.reason);
+  parentSignal.addEventListener('abort', abortAll, { once: true });
+  if (parentSignal.aborted) {
+    abortAll();
+  }
+
+  const results = new Array<R>(items.length);
+  let failure: { error: unknown } | undefined;
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length && !failure) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index]!, controller.signal);
+      } catch (error) {
+        failure ??= { error };
+        controller.abort(error);
+      }
+    }
+  };
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(limit, items.length) }, worker)
+    );
+  } finally {
+    parentSignal.removeEventListener('abort', abortAll);
+  }
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+}
@@ -0,0 +1,222 @@
+import type { Session } from '../types/session';
+import type {
+  WorkflowStep,
+  WorkflowStepNext,
+  WorkflowStepRoute,
+  WorkflowStepRouter,
+  WorkflowLoopJudge,
+  WorkflowIterationResponse,
+} from '../types/agent-session';
+import type { WorkflowBranchDecision } from '../types/workflow-state';
+import type { WorkflowStateManager } from './workflow-state';
+
+import { logger } from '../utils/logger';
+import { collectStream } from '../processing/content/stream-collector';
+
+/**
+ * Gets the IDs of all steps a `next` declaration can route to.
+ *
+ * @param next - The next declaration of a step
+ * @returns The step IDs that can be selected
+ */
+export function getRouteTargets(next: WorkflowStepNext | undefined): string[] {
+  if (!next) return [];
+  if (typeof next === 'string') return [next];
+  const routes = Array.isArray(next) ? next : next.routes;
+  return routes.map(route => route.stepId);
+}
+
+/**
+ * Decides which step runs after a completed step, based on the step's
+ * `next` and `loop` declarations.
+ */
+export class StepRouter {
+  private static readonly DEFAULT_ROUTER_PROMPT =
+    'Based on the conversation so far, choose the next step.';
+
+  private session: Session;
+  private workflowStateManager: WorkflowStateManager;
+
+  constructor(
+    session: Session,
+    workflowStateManager: WorkflowStateManager,
+  ) {
+    this.session = session;
+    this.workflowStateManager = workflowStateManager;
+  }
+
+  /**
+   * Selects the next step for a completed step.
+   *
+   * @param step - The completed workflow step
+   * @param result - The result of the step
+   * @returns The branch decision, or undefined if the step does not route
+   */
+  async route(
+    step: WorkflowStep,
+    result: WorkflowIterationResponse
+  ): Promise<WorkflowBranchDecision | undefined> {
+    if (!step.next) {
+      return undefined;
+    }
+
+    let nextStepId: string | undefined;
+    let reason: WorkflowBranchDecision['reason'];
+
+    if (typeof step.next === 'string') {
+      nextStepId = step.next;
+      reason = 'static';
+    } else if (Array.isArray(step.next)) {
+      const route = this.selectPredicateRoute(step, step.next, result);
+      nextStepId = route?.stepId;
+      reason = !route ? 'none' : route.when ? 'predicate' : 'default';
+    } else {
+      nextStepId = await this.selectModelRoute(step, step.next);
+      reason = 'model';
+    }
+
+    const decision: WorkflowBranchDecision = {
+      stepId: step.id,
+      skippedStepIds: getRouteTargets(step.next).filter(id => id !== nextStepId),
+      reason,
+    };
+    if (nextStepId) {
+      decision.nextStepId = nextStepId;
+    }
+
+    logger.agent.info('Workflow branch selected', { ...decision });
+    return decision;
+  }
+
+  /**
+   * Selects the first route whose predicate matches the step result,
+   * falling back to the first route without a predicate.
+   */
+  private selectPredicateRoute(
+    step: WorkflowStep,
+    routes: WorkflowStepRoute[],
+    result: WorkflowIterationResponse
+  ): WorkflowStepRoute | undefined {
+    for (const route of routes) {
+      if (!route.when) continue;
+      try {
+        if (route.when(result)) {
+          return route;
+        }
+      } catch (error: any) {
+        logger.agent.warn('Route predicate threw, skipping route', {
+          stepId: step.id,
+          targetStepId: route.stepId,
+          error: error.message
+        });
+      }
+    }
+    return routes.find(route => !route.when);
+  }
+
+  /**
+   * Decides whether the loop owned by a completed step runs another pass.
+   *
+   * @param step - The completed workflow step that owns the loop
+   * @param result - The result of the step
+   * @param loopIndex - The zero-based index of the pass that just finished
+   * @returns True if the loop should run again
+   */
+  async shouldRepeat(
+    step: WorkflowStep,
+    result: WorkflowIterationResponse,
+    loopIndex: number
+  ): Promise<boolean> {
+    const loop = step.loop;
+    if (!loop || loopIndex + 1 >= loop.maxLoops) {
+      return false;
+    }
+    if (!loop.until) {
+      return true;
+    }
+
+    if (typeof loop.until === 'function') {
+      try {
+        return !loop.until(result, loopIndex);
+      } catch (error: any) {
+        logger.agent.warn('Loop condition threw, ending loop', {
+          stepId: step.id,
+          loopIndex,
+          error: error.message
+        });
+        return false;
+      }
+    }
+
+    return !(await this.askLoopJudge(loop.until));
+  }
+
+  /**
+   * Asks the loop judge model whether the loop is done. The judge prompt is
+   * not written to memory. Anything other than a yes continues the loop.
+   */
+  private async askLoopJudge(judge: WorkflowLoopJudge): Promise<boolean> {
+    const answer = await this.askModel(
+      judge.model,
+      `${judge.prompt}\nRespond with only yes or no.`
+    );
+    return answer.trim().toLowerCase().startsWith('yes');
+  }
+
+  /**
+   * Asks the router model to choose a route. The routing prompt is not
+   * written to memory. Falls back to the first route if the answer does
+   * not name a known step.
+   */
+  private async selectModelRoute(
+    step: WorkflowStep,
+    router: WorkflowStepRouter
+  ): Promise<string | undefined> {
+    const options = router.routes
+      .map(route => `- ${route.stepId}${route.description ? `: ${route.description}` : ''}`)
+      .join('\n');
+    const answer = await this.askModel(
+      router.model,
+      `${router.prompt ?? StepRouter.DEFAULT_ROUTER_PROMPT}\n` +
+      `Options:\n${options}\n` +
+      `Respond with only the option ID.`
+    );
+
+    const normalized = answer.trim().toLowerCase();
+    const route =
+      router.routes.find(r => r.stepId.toLowerCase() === normalized) ??
+      router.routes.find(r => normalized.includes(r.stepId.toLowerCase()));
+
+    if (!route) {
+      logger.agent.warn('Router model did not select a known route, using first route', {
+        stepId: step.id,
+        answer,
+        routes: router.routes.map(r => r.stepId)
+      });
+      return router.routes[0]?.stepId;
+    }
+    return route.stepId;
+  }
+
+  /**
+   * Sends the conversation plus a control prompt to a model and returns
+   * its answer.
+   */
+  private async askModel(model: string, prompt: string): Promise<string> {
+    const messages = await this.workflowStateManager.getMessages();
+
+    const response = await this.session.createResponse(model, {
+      messages: [...messages, { role: 'user', content: prompt }],
+      temperature: 0,
+      max_new_tokens: 64,
+      enable_thinking: false,
+      stream: false,
+      signal: this.workflowStateManager.getAbortSignal(),
+    });
+
+    if (response.type === 'streaming') {
+      return (await collectStream(response.stream)).content;
+    }
+    return response.content;
+  }
+}
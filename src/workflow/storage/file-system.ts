@@ -0,0 +1,47 @@
+import type { WorkflowSnapshot, WorkflowStorage } from '../../types/workflow-state';
+
+/**
+ * Stores workflow snapshots as JSON files in a directory, for runs in Node.
+ * Files are written to a temporary name first and renamed, so a crash while
+ * saving never leaves a truncated snapshot behind.
+ */
+export class FileSystemWorkflowStorage implements WorkflowStorage {
+  private directory: string;
+
+  /**
+   * @param directory - The directory to store snapshots in, created on first save
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async save(runId: string, snapshot: WorkflowSnapshot): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const filePath = await this.getFilePath(runId);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${filePath}.tmp`, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  async load(runId: string): Promise<WorkflowSnapshot | undefined> {
+    const fs = await import('node:fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(await this.getFilePath(runId), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(runId: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(await this.getFilePath(runId), { force: true });
+  }
+
+  private async getFilePath(runId: string): Promise<string> {
+    const path = await import('node:path');
+    return path.join(this.directory, `${encodeURIComponent(runId)}.json`);
+  }
+}
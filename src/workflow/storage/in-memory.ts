@@ -0,0 +1,22 @@
+import type { WorkflowSnapshot, WorkflowStorage } from '../../types/workflow-state';
+
+/**
+ * Keeps workflow snapshots in process. Snapshots do not survive a reload,
+ * which makes this storage useful for tests and for pausing a run in place.
+ */
+export class InMemoryWorkflowStorage implements WorkflowStorage {
+  private snapshots = new Map<string, WorkflowSnapshot>();
+
+  async save(runId: string, snapshot: WorkflowSnapshot): Promise<void> {
+    this.snapshots.set(runId, structuredClone(snapshot));
+  }
+
+  async load(runId: string): Promise<WorkflowSnapshot | undefined> {
+    const snapshot = this.snapshots.get(runId);
+    return snapshot && structuredClone(snapshot);
+  }
+
+  async delete(runId: string): Promise<void> {
+    this.snapshots.delete(runId);
+  }
+}
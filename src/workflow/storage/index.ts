@@ -0,0 +1,6 @@
+export { InMemoryWorkflowStorage } from './in-memory';
+export { LocalStorageWorkflowStorage } from './local-storage';
+export type { LocalStorageWorkflowStorageOptions } from './local-storage';
+export { IndexedDBWorkflowStorage } from './indexed-db';
+export type { IndexedDBWorkflowStorageOptions } from './indexed-db';
+export { FileSystemWorkflowStorage } from './file-system';
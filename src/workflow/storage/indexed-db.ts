@@ -0,0 +1,69 @@
+import type { WorkflowSnapshot, WorkflowStorage } from '../../types/workflow-state';
+
+export interface IndexedDBWorkflowStorageOptions {
+  databaseName?: string; // Default: 'agentary-workflows'
+  storeName?: string; // Default: 'snapshots'
+}
+
+/**
+ * Stores workflow snapshots in IndexedDB, which holds far larger snapshots
+ * than Web Storage. The database is opened on first use.
+ */
+export class IndexedDBWorkflowStorage implements WorkflowStorage {
+  private databaseName: string;
+  private storeName: string;
+  private database: Promise<IDBDatabase> | undefined;
+
+  constructor(options: IndexedDBWorkflowStorageOptions = {}) {
+    this.databaseName = options.databaseName ?? 'agentary-workflows';
+    this.storeName = options.storeName ?? 'snapshots';
+  }
+
+  async save(runId: string, snapshot: WorkflowSnapshot): Promise<void> {
+    await this.request('readwrite', store => store.put(snapshot, runId));
+  }
+
+  async load(runId: string): Promise<WorkflowSnapshot | undefined> {
+    return await this.request<WorkflowSnapshot | undefined>('readonly', store => store.get(runId));
+  }
+
+  async delete(runId: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(runId));
+  }
+
+  /**
+   * Runs a single request against the snapshot store.
+   * 
+   * @param mode - The transaction mode
+   * @param createRequest - Creates the request from the object store
+   * @returns The request result
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const request = createRequest(database.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available in this environment'));
+      }
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow another attempt if opening failed
+      this.database.catch(() => { this.database = undefined; });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,41 @@
+import type { WorkflowSnapshot, WorkflowStorage } from '../../types/workflow-state';
+
+export interface LocalStorageWorkflowStorageOptions {
+  storage?: Storage; // Web Storage area to use (default: localStorage)
+  keyPrefix?: string; // Prefix of the keys snapshots are stored under (default: 'agentary:workflow:')
+}
+
+/**
+ * Stores workflow snapshots as JSON in Web Storage. Snapshots survive a page
+ * reload but count towards the origin's storage quota of a few megabytes;
+ * use IndexedDBWorkflowStorage for workflows with long memory.
+ */
+export class LocalStorageWorkflowStorage implements WorkflowStorage {
+  private storage: Storage | undefined;
+  private keyPrefix: string;
+
+  constructor(options: LocalStorageWorkflowStorageOptions = {}) {
+    this.storage = options.storage ?? globalThis.localStorage;
+    this.keyPrefix = options.keyPrefix ?? 'agentary:workflow:';
+  }
+
+  async save(runId: string, snapshot: WorkflowSnapshot): Promise<void> {
+    this.getStorage().setItem(this.keyPrefix + runId, JSON.stringify(snapshot));
+  }
+
+  async load(runId: string): Promise<WorkflowSnapshot | undefined> {
+    const value = this.getStorage().getItem(this.keyPrefix + runId);
+    return value === null ? undefined : JSON.parse(value);
+  }
+
+  async delete(runId: string): Promise<void> {
+    this.getStorage().removeItem(this.keyPrefix + runId);
+  }
+
+  private getStorage(): Storage {
+    if (!this.storage) {
+      throw new Error('localStorage is not available in this environment');
+    }
+    return this.storage;
+  }
+}
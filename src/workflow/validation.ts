@@ -0,0 +1,252 @@
+import type { Workflow } from '../types/agent-session';
+import { WorkflowValidationError } from '../types/agent-session';
+import { getRouteTargets } from './step-router';
+
+/**
+ * Validates a workflow definition before execution.
+ *
+ * Checks that step IDs are present and unique, that every dependency and
+ * route references a known step, that dependencies do not form a cycle,
+ * that loops are bounded and do not overlap, and that the concurrency limit
+ * is a positive integer.
+ *
+ * @param workflow - The workflow to validate
+ * @throws {WorkflowValidationError} If the workflow definition is invalid
+ */
+export function validateWorkflow(workflow: Workflow): void {
+  if (
+    workflow.maxConcurrency !== undefined &&
+    (!Number.isInteger(workflow.maxConcurrency) || workflow.maxConcurrency < 1)
+  ) {
+    throw new WorkflowValidationError(
+      `maxConcurrency must be a positive integer, got ${workflow.maxConcurrency}`,
+      workflow.id
+    );
+  }
+
+  const stepIds = new Set<string>();
+
+  for (const step of workflow.steps) {
+    if (!step.id) {
+      throw new WorkflowValidationError(
+        `Workflow ${workflow.id} contains a step without an ID`,
+        workflow.id
+      );
+    }
+    if (stepIds.has(step.id)) {
+      throw new WorkflowValidationError(
+        `Duplicate step ID "${step.id}" in workflow ${workflow.id}`,
+        workflow.id,
+        step.id
+      );
+    }
+    stepIds.add(step.id);
+  }
+
+  for (const step of workflow.steps) {
+    for (const dependency of step.dependentSteps ?? []) {
+      if (dependency === step.id) {
+        throw new WorkflowValidationError(
+          `Step "${step.id}" cannot depend on itself`,
+          workflow.id,
+          step.id
+        );
+      }
+      if (!stepIds.has(dependency)) {
+        throw new WorkflowValidationError(
+          `Step "${step.id}" depends on unknown step "${dependency}"`,
+          workflow.id,
+          step.id
+        );
+      }
+    }
+
+    if (
+      step.maxToolRounds !== undefined &&
+      (!Number.isInteger(step.maxToolRounds) || step.maxToolRounds < 1)
+    ) {
+      throw new WorkflowValidationError(
+        `maxToolRounds of step "${step.id}" must be a positive integer, got ${step.maxToolRounds}`,
+        workflow.id,
+        step.id
+      );
+    }
+    if (
+      step.toolConcurrency !== undefined &&
+      (!Number.isInteger(step.toolConcurrency) || step.toolConcurrency < 1)
+    ) {
+      throw new WorkflowValidationError(
+        `toolConcurrency of step "${step.id}" must be a positive integer, got ${step.toolConcurrency}`,
+        workflow.id,
+        step.id
+      );
+    }
+
+    if (step.next && typeof step.next === 'object' && !Array.isArray(step.next) && !step.next.model) {
+      throw new WorkflowValidationError(
+        `Router of step "${step.id}" requires a model`,
+        workflow.id,
+        step.id
+      );
+    }
+    const routeTargets = getRouteTargets(step.next);
+    if (step.next && routeTargets.length === 0) {
+      throw new WorkflowValidationError(
+        `Step "${step.id}" declares next without any routes`,
+        workflow.id,
+        step.id
+      );
+    }
+    for (const target of routeTargets) {
+      if (target === step.id) {
+        throw new WorkflowValidationError(
+          `Step "${step.id}" cannot route to itself`,
+          workflow.id,
+          step.id
+        );
+      }
+      if (!stepIds.has(target)) {
+        throw new WorkflowValidationError(
+          `Step "${step.id}" routes to unknown step "${target}"`,
+          workflow.id,
+          step.id
+        );
+      }
+    }
+  }
+
+  const loopOwners = new Map<string, string>();
+  for (const step of workflow.steps) {
+    if (!step.loop) continue;
+    const { maxLoops } = step.loop;
+    if (!Number.isInteger(maxLoops) || maxLoops < 1) {
+      throw new WorkflowValidationError(
+        `Loop of step "${step.id}" requires maxLoops to be a positive integer, got ${maxLoops}`,
+        workflow.id,
+        step.id
+      );
+    }
+    if (step.loop.until && typeof step.loop.until === 'object' && !step.loop.until.model) {
+      throw new WorkflowValidationError(
+        `Loop judge of step "${step.id}" requires a model`,
+        workflow.id,
+        step.id
+      );
+    }
+
+    const loopSteps = step.loop.steps ?? [step.id];
+    if (!loopSteps.includes(step.id)) {
+      throw new WorkflowValidationError(
+        `Loop of step "${step.id}" must include the step itself`,
+        workflow.id,
+        step.id
+      );
+    }
+    // The loop restarts as soon as its owner completes, so the owner has to
+    // end the group: listed last and depending on every other loop step
+    if (loopSteps[loopSteps.length - 1] !== step.id) {
+      throw new WorkflowValidationError(
+        `Loop of step "${step.id}" must list the step itself last`,
+        workflow.id,
+        step.id
+      );
+    }
+    const ownerDependencies = collectDependencies(workflow, step.id);
+    for (const loopStepId of loopSteps) {
+      if (!stepIds.has(loopStepId)) {
+        throw new WorkflowValidationError(
+          `Loop of step "${step.id}" repeats unknown step "${loopStepId}"`,
+          workflow.id,
+          step.id
+        );
+      }
+      const owner = loopOwners.get(loopStepId);
+      if (owner) {
+        throw new WorkflowValidationError(
+          `Step "${loopStepId}" belongs to the loops of both "${owner}" and "${step.id}"`,
+          workflow.id,
+          step.id
+        );
+      }
+      loopOwners.set(loopStepId, step.id);
+      if (loopStepId !== step.id && !ownerDependencies.has(loopStepId)) {
+        throw new WorkflowValidationError(
+          `Loop of step "${step.id}" repeats step "${loopStepId}", which the step does not depend on`,
+          workflow.id,
+          step.id
+        );
+      }
+    }
+  }
+
+  const cycle = findDependencyCycle(workflow);
+  if (cycle) {
+    throw new WorkflowValidationError(
+      `Circular step dependency detected: ${cycle.join(' -> ')}`,
+      workflow.id,
+      cycle[0]
+    );
+  }
+}
+
+/**
+ * Collects the direct and transitive dependencies of a step.
+ *
+ * @param workflow - The workflow to inspect
+ * @param stepId - The step whose dependencies are collected
+ * @returns The IDs of every step the step depends on
+ */
+function collectDependencies(workflow: Workflow, stepId: string): Set<string> {
+  const dependencies = new Set<string>();
+  const pending = [stepId];
+  let currentId: string | undefined;
+  while ((currentId = pending.pop()) !== undefined) {
+    const step = workflow.steps.find(candidate => candidate.id === currentId);
+    for (const dependencyId of step?.dependentSteps ?? []) {
+      if (!dependencies.has(dependencyId)) {
+        dependencies.add(dependencyId);
+        pending.push(dependencyId);
+      }
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Finds a cycle in the step dependency graph using depth-first search.
+ *
+ * @param workflow - The workflow to inspect
+ * @returns The step IDs forming the cycle (first ID repeated at the end), or undefined
+ */
+function findDependencyCycle(workflow: Workflow): string[] | undefined {
+  const dependencies = new Map(
+    workflow.steps.map(step => [step.id, step.dependentSteps ?? []])
+  );
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (stepId: string): string[] | undefined => {
+    const cycleStart = path.indexOf(stepId);
+    if (cycleStart !== -1) {
+      return [...path.slice(cycleStart), stepId];
+    }
+    if (visited.has(stepId)) {
+      return undefined;
+    }
+
+    path.push(stepId);
+    for (const dependency of dependencies.get(stepId) ?? []) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    visited.add(stepId);
+    return undefined;
+  };
+
+  for (const stepId of dependencies.keys()) {
+    const cycle = visit(stepId);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
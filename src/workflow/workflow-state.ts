@@ -1,11 +1,18 @@
-import type { Workflow, WorkflowStep } from '../types/agent-session';
+import type {
+  Workflow,
+  WorkflowStep,
+  WorkflowToolApproval,
+  ToolApprovalDecision
+} from '../types/agent-session';
 import type { Message, Tool } from '../types/worker';
-import type { WorkflowState, StepState } from '../types/workflow-state';
+import type { WorkflowState, WorkflowSnapshot, StepState, WorkflowBranchDecision } from '../types/workflow-state';
 import type { Session } from '../types/session';
 import type { MemoryConfig, ToolResult, MemoryMessage } from '../types/memory';
 
 import { logger } from '../utils/logger';
 import { MemoryManager } from '../memory/memory-manager';
+import { getRouteTargets } from './step-router';
+import { WorkflowCancelledError, WorkflowValidationError } from '../types/agent-session';
 
 /**
  * Manages workflow state across iterations, tracking conversation history,
@@ -20,6 +27,13 @@ export class WorkflowStateManager {
   private state?: WorkflowState;
   private session: Session;
   private memoryManager?: MemoryManager;
+
+  // Tool approvals waiting for a decision
+  private pendingApprovals = new Map<string, (decision: ToolApprovalDecision) => void>();
+  private approvalCount = 0;
+
+  // Approval requests and content deltas of running steps not yet reported by the executor
+  private stepReports = new ReportQueue<StepReport>();
   
   constructor(session: Session) {
     this.session = session;
@@ -56,34 +70,135 @@ export class WorkflowStateManager {
       { role: 'user', content: userPrompt, metadata: { type: 'user_prompt' } }
     ] as MemoryMessage[];
     await this.addMessagesToMemory(initialMessages);
+    this.resetReports();
 
     const steps: Record<string, StepState> = {};
     workflow.steps.forEach(step => {
-      steps[step.id] = {
-        id: step.id,
-        complete: false,
-        attempts: 0,
-        maxAttempts: step.maxAttempts ?? 3,
-      };
+      steps[step.id] = this.createStepState(step);
     });
     this.state = {
       workflow,
       userPrompt,
       startTime: Date.now(),
       completedSteps: new Set<string>(),
+      path: [],
+      activatedSteps: [],
+      skippedSteps: new Set<string>(),
+      branchDecisions: [],
+      loopCounts: {},
       iteration: 1,
       maxIterations: workflow.maxIterations ?? 10,
+      maxConcurrency: workflow.maxConcurrency ?? 1,
       timeout: workflow.timeout ?? 60000,
       tools: [...tools, ...workflow.tools],
       steps,
       toolResults: {},
+      abortController: new AbortController(),
+      stream: false,
     };
 
     logger.agent.info('Workflow state ready', {
       workflowId: workflow.id,
       stepCount: workflow.steps.length,
       toolCount: this.state.tools.length,
-      maxIterations: this.state.maxIterations
+      maxIterations: this.state.maxIterations,
+      maxConcurrency: this.state.maxConcurrency
+    });
+  }
+
+  /**
+   * Restores the workflow state from a snapshot so the run can continue
+   * where it stopped. Steps added to the workflow since the snapshot start
+   * fresh; the timeout keeps counting from the time already spent.
+   * 
+   * @param snapshot - The snapshot to restore.
+   * @param workflow - The workflow the snapshot was taken from.
+   * @param tools - The tools to use in the workflow.
+   * @param memoryConfig - The memory configuration to use.
+   * @throws {WorkflowValidationError} If the snapshot does not belong to the workflow.
+   */
+  restoreState(
+    snapshot: WorkflowSnapshot,
+    workflow: Workflow,
+    tools: Tool[],
+    memoryConfig?: MemoryConfig
+  ): void {
+    if (snapshot.version !== 1) {
+      throw new WorkflowValidationError(`Unsupported workflow snapshot version: ${snapshot.version}`, workflow.id);
+    }
+    if (snapshot.workflowId !== workflow.id) {
+      throw new WorkflowValidationError(
+        `Snapshot of workflow "${snapshot.workflowId}" cannot be resumed as "${workflow.id}"`,
+        workflow.id
+      );
+    }
+
+    this.memoryManager = new MemoryManager(this.session, memoryConfig);
+    this.memoryManager.restoreSnapshot(snapshot.memory);
+    this.resetReports();
+
+    const { steps: savedSteps, ...saved } = structuredClone(snapshot);
+    const steps: Record<string, StepState> = {};
+    workflow.steps.forEach(step => {
+      steps[step.id] = savedSteps[step.id] ?? this.createStepState(step);
+    });
+    this.state = {
+      workflow,
+      userPrompt: saved.userPrompt,
+      startTime: Date.now() - saved.elapsedMs,
+      completedSteps: new Set(saved.completedSteps),
+      path: saved.path,
+      activatedSteps: saved.activatedSteps,
+      skippedSteps: new Set(saved.skippedSteps),
+      branchDecisions: saved.branchDecisions,
+      loopCounts: saved.loopCounts,
+      iteration: saved.iteration,
+      maxIterations: workflow.maxIterations ?? 10,
+      maxConcurrency: workflow.maxConcurrency ?? 1,
+      timeout: workflow.timeout ?? 60000,
+      tools: [...tools, ...workflow.tools],
+      steps,
+      toolResults: saved.toolResults,
+      abortController: new AbortController(),
+      stream: false,
+    };
+
+    logger.agent.info('Workflow state restored', {
+      workflowId: workflow.id,
+      iteration: this.state.iteration,
+      completedSteps: snapshot.completedSteps.length,
+      messageCount: snapshot.memory.messages.length
+    });
+  }
+
+  /**
+   * Creates a serializable snapshot of the workflow state and memory.
+   * Pending tool approvals are not included; the step waiting for one
+   * runs again after the workflow is resumed.
+   * 
+   * @returns The workflow snapshot.
+   */
+  createSnapshot(): WorkflowSnapshot {
+    if (!this.state || !this.memoryManager) {
+      throw new Error('State not initialized');
+    }
+    const state = this.state;
+    return structuredClone({
+      version: 1,
+      workflowId: state.workflow.id,
+      userPrompt: state.userPrompt,
+      elapsedMs: Date.now() - state.startTime,
+      iteration: state.iteration,
+      completedSteps: [...state.completedSteps],
+      path: state.path,
+      activatedSteps: state.activatedSteps,
+      skippedSteps: [...state.skippedSteps],
+      branchDecisions: state.branchDecisions,
+      loopCounts: state.loopCounts,
+      steps: state.steps,
+      toolResults: state.toolResults,
+      memory: this.memoryManager.createSnapshot(),
+      savedAt: Date.now()
     });
   }
 
@@ -92,24 +207,51 @@ export class WorkflowStateManager {
    * 
    * @param messages - The messages to add to memory.
    * @param skipCompression - Whether to skip compression.
+   * @param branchId - Optional memory branch to add the messages to.
    */
-  async addMessagesToMemory(messages: MemoryMessage[], skipCompression = false): Promise<void> {
+  async addMessagesToMemory(messages: MemoryMessage[], skipCompression = false, branchId?: string): Promise<void> {
     if (!this.memoryManager) {
       throw new Error('Memory manager not initialized');
     }
-    await this.memoryManager.addMessages(messages, skipCompression);
+    await this.memoryManager.addMessages(messages, skipCompression, branchId);
   }
 
   /**
    * Gets the messages from memory.
    * 
+   * @param branchId - Optional memory branch to include.
    * @returns The messages from memory.
    */
-  async getMessages(): Promise<Message[]> {
+  async getMessages(branchId?: string): Promise<Message[]> {
     if (!this.memoryManager) {
       throw new Error('Memory manager not initialized');
     }
-    return await this.memoryManager.getMessages();
+    return await this.memoryManager.getMessages(branchId);
+  }
+
+  /**
+   * Creates a memory branch so a step can write to memory without
+   * interleaving with steps running concurrently.
+   * 
+   * @param branchId - The ID of the branch.
+   */
+  createMemoryBranch(branchId: string): void {
+    if (!this.memoryManager) {
+      throw new Error('Memory manager not initialized');
+    }
+    this.memoryManager.createBranch(branchId);
+  }
+
+  /**
+   * Merges a memory branch back into the main history.
+   * 
+   * @param branchId - The ID of the branch.
+   */
+  async mergeMemoryBranch(branchId: string): Promise<void> {
+    if (!this.memoryManager) {
+      throw new Error('Memory manager not initialized');
+    }
+    await this.memoryManager.mergeBranch(branchId);
   }
 
   /**
@@ -207,9 +349,9 @@ export class WorkflowStateManager {
   }
 
   /**
-   * Finds the next step to execute.
-   * 
-   * TODO: Support intelligent step selection
+   * Finds the next step to execute. Steps selected by a branch decision run
+   * first; otherwise a step is eligible once all of its dependent steps have
+   * completed, with ties broken by array order.
    * 
    * @returns The next step to execute.
    */
@@ -224,30 +366,315 @@ export class WorkflowStateManager {
       maxIterations: this.state.maxIterations,
       completedSteps: Array.from(this.state.completedSteps)
     });
+
+    return this.getCandidateSteps().find((step: WorkflowStep) => this.isStepReady(step));
+  }
+
+  /**
+   * Finds all steps that are ready to execute, in scheduling order. Ready steps
+   * have all dependencies resolved, so they never depend on each other.
+   * 
+   * @returns The steps that can be executed concurrently.
+   */
+  findReadySteps(): WorkflowStep[] {
+    if (!this.state) {
+      throw new Error('State not initialized');
+    }
+
+    logger.agent.debug('Finding ready steps in workflow', {
+      workflowId: this.state.workflow.id,
+      iteration: this.state.iteration,
+      completedSteps: Array.from(this.state.completedSteps)
+    });
+
+    return this.getCandidateSteps().filter((step: WorkflowStep) => this.isStepReady(step));
+  }
+
+  /**
+   * Records a branch decision: the selected step is scheduled next and the
+   * other route targets are skipped.
+   * 
+   * @param decision - The branch decision made after a step completed.
+   */
+  applyBranchDecision(decision: WorkflowBranchDecision): void {
+    if (!this.state) {
+      throw new Error('State not initialized');
+    }
+    this.state.branchDecisions.push(decision);
+    for (const skippedStepId of decision.skippedStepIds) {
+      this.state.skippedSteps.add(skippedStepId);
+    }
+    if (decision.nextStepId && !this.state.activatedSteps.includes(decision.nextStepId)) {
+      this.state.skippedSteps.delete(decision.nextStepId);
+      this.state.activatedSteps.push(decision.nextStepId);
+    }
+  }
+
+  /**
+   * Gets the zero-based pass index of the loop a step belongs to.
+   * 
+   * @param stepId - The ID of the step.
+   * @returns The loop index, or undefined if the step is not part of a loop.
+   */
+  getLoopIndex(stepId: string): number | undefined {
+    if (!this.state) {
+      throw new Error('State not initialized');
+    }
+    const owner = this.findLoopOwner(stepId);
+    if (!owner) {
+      return undefined;
+    }
+    return this.state.loopCounts[owner.id] ?? 0;
+  }
+
+  /**
+   * Starts the next pass of the loop owned by a step. Every step in the loop
+   * is marked incomplete again and gets a fresh step state.
+   * 
+   * @param stepId - The ID of the step that owns the loop.
+   * @returns The IDs of the steps that will run again.
+   */
+  restartLoop(stepId: string): string[] {
+    if (!this.state) {
+      throw new Error('State not initialized');
+    }
+    const owner = this.state.workflow.steps.find((step: WorkflowStep) => step.id === stepId);
+    if (!owner?.loop) {
+      throw new Error('Step does not own a loop');
+    }
+
+    const loopStepIds = owner.loop.steps ?? [owner.id];
+    for (const loopStepId of loopStepIds) {
+      const loopStep = this.state.workflow.steps.find((step: WorkflowStep) => step.id === loopStepId);
+      if (!loopStep) continue;
+      this.state.completedSteps.delete(loopStepId);
+      this.state.steps[loopStepId] = this.createStepState(loopStep);
+    }
+    this.state.loopCounts[owner.id] = (this.state.loopCounts[owner.id] ?? 0) + 1;
+
+    logger.agent.debug('Workflow loop restarted', {
+      stepId: owner.id,
+      loopIndex: this.state.loopCounts[owner.id],
+      steps: loopStepIds
+    });
+    return loopStepIds;
+  }
+
+  /**
+   * Finds the step whose loop repeats the given step.
+   * 
+   * @param stepId - The ID of the step.
+   * @returns The owning step, or undefined if the step is not part of a loop.
+   */
+  private findLoopOwner(stepId: string): WorkflowStep | undefined {
+    return this.state!.workflow.steps.find(
+      (step: WorkflowStep) => !!step.loop && (step.loop.steps ?? [step.id]).includes(stepId)
+    );
+  }
+
+  /**
+   * Drops tool approvals and content deltas left over from a previous run.
+   */
+  private resetReports(): void {
+    this.pendingApprovals.clear();
+    this.stepReports = new ReportQueue();
+  }
+
+  /**
+   * Creates the initial state of a step.
+   * 
+   * @param step - The workflow step.
+   * @returns A fresh step state.
+   */
+  private createStepState(step: WorkflowStep): StepState {
+    return {
+      id: step.id,
+      complete: false,
+      attempts: 0,
+      maxAttempts: step.maxAttempts ?? 3,
+    };
+  }
+
+  /**
+   * Gets the workflow steps in scheduling order: steps selected by branch
+   * decisions first, in the order they were selected, then array order.
+   * 
+   * @returns The ordered workflow steps.
+   */
+  private getCandidateSteps(): WorkflowStep[] {
+    const steps = this.state!.workflow.steps;
+    const activated = this.state!.activatedSteps
+      .map(stepId => steps.find((step: WorkflowStep) => step.id === stepId))
+      .filter((step): step is WorkflowStep => !!step);
+    return [...activated, ...steps.filter((step: WorkflowStep) => !activated.includes(step))];
+  }
+
+  /**
+   * Checks if a step is ready to execute.
+   * 
+   * @param step - The workflow step.
+   * @returns True if the step is incomplete, not skipped, has attempts left and all of its dependencies are resolved.
+   */
+  private isStepReady(step: WorkflowStep): boolean {
+    const { completedSteps, skippedSteps } = this.state!;
+    if (!step.id || completedSteps.has(step.id) || skippedSteps.has(step.id)) {
+      return false;
+    }
     
-    const completedSteps = this.state.completedSteps;
+    // Check if step has exceeded max retry attempts
+    if (this.isStepExhausted(step.id)) {
+      logger.agent.debug('Step has exceeded max retry attempts', {
+        stepId: step.id,
+        attempts: this.state!.steps[step.id]?.attempts,
+        maxAttempts: this.state!.steps[step.id]?.maxAttempts
+      });
+      return false;
+    }
 
-    return this.state.workflow.steps.find((step: WorkflowStep) => {
-      if (!step.id || completedSteps.has(step.id)) {
-        return false;
-      }
-      
-      // Check if step has exceeded max retry attempts
-      const stepState = this.state!.steps[step.id];
-      if (stepState && stepState.maxAttempts && stepState.attempts >= stepState.maxAttempts) {
-        logger.agent.debug('Step has exceeded max retry attempts', {
-          stepId: step.id,
-          attempts: stepState.attempts,
-          maxAttempts: stepState.maxAttempts
-        });
-        return false;
-      }
-      
-      logger.agent.debug('Found next step for execution', {
+    // Route targets only run once a branch decision selects them
+    if (this.isRouteTarget(step.id) && !this.state!.activatedSteps.includes(step.id)) {
+      return false;
+    }
+
+    // Check if all dependencies have completed or were skipped by a branch decision
+    const pendingDependencies = (step.dependentSteps ?? []).filter(
+      dependency => !completedSteps.has(dependency) && !skippedSteps.has(dependency)
+    );
+    if (pendingDependencies.length > 0) {
+      logger.agent.debug('Step is waiting on dependencies', {
         stepId: step.id,
+        pendingDependencies
       });
-      return true;
+      return false;
+    }
+    
+    logger.agent.debug('Found step ready for execution', {
+      stepId: step.id,
     });
+    return true;
+  }
+
+  /**
+   * Checks if a step can be selected by another step's `next` declaration.
+   * 
+   * @param stepId - The ID of the step.
+   * @returns True if the step is a route target, false otherwise.
+   */
+  private isRouteTarget(stepId: string): boolean {
+    return this.state!.workflow.steps.some(
+      (step: WorkflowStep) => getRouteTargets(step.next).includes(stepId)
+    );
+  }
+
+  /**
+   * Gets the signal that is aborted when the workflow is aborted.
+   * 
+   * @returns The abort signal of the running workflow.
+   */
+  getAbortSignal(): AbortSignal {
+    if (!this.state) {
+      throw new Error('State not initialized');
+    }
+    return this.state.abortController.signal;
+  }
+
+  /**
+   * Aborts the workflow, cancelling in-flight model and tool calls.
+   * 
+   * @param reason - The reason passed to abort signal listeners.
+   */
+  abortWorkflow(reason: Error): void {
+    if (!this.state) {
+      throw new Error('State not initialized');
+    }
+    if (!this.state.abortController.signal.aborted) {
+      logger.agent.warn('Aborting workflow', {
+        workflowId: this.state.workflow.id,
+        reason: reason.message
+      });
+      this.state.abortController.abort(reason);
+    }
+  }
+
+  /**
+   * Checks if the workflow has been aborted.
+   * 
+   * @returns True if the workflow has been aborted, false otherwise.
+   */
+  isAborted(): boolean {
+    return !!this.state?.abortController.signal.aborted;
+  }
+
+  /**
+   * Checks if the workflow was aborted by the caller rather than by a timeout.
+   * 
+   * @returns True if the workflow has been cancelled, false otherwise.
+   */
+  isCancelled(): boolean {
+    return this.state?.abortController.signal.reason instanceof WorkflowCancelledError;
+  }
+
+  /**
+   * Registers a tool call that needs the app's approval.
+   * 
+   * @param request - The tool call awaiting approval.
+   * @returns The approval request and a promise that resolves with the app's decision.
+   */
+  requestToolApproval(
+    request: Omit<WorkflowToolApproval, 'id'>
+  ): { approval: WorkflowToolApproval; decision: Promise<ToolApprovalDecision> } {
+    const approval: WorkflowToolApproval = { id: `approval-${++this.approvalCount}`, ...request };
+
+    const decision = new Promise<ToolApprovalDecision>(resolve => {
+      this.pendingApprovals.set(approval.id, resolve);
+    });
+
+    this.stepReports.push({ approval });
+    return { approval, decision };
+  }
+
+  /**
+   * Reports content a streaming step generated, to be yielded by the executor.
+   * 
+   * @param stepId - The ID of the step.
+   * @param delta - The content generated since the last report.
+   */
+  reportStepDelta(stepId: string, delta: string): void {
+    this.stepReports.push({ delta: { stepId, delta } });
+  }
+
+  /**
+   * Takes the oldest approval request or content delta not yet reported.
+   * 
+   * @returns The report, or undefined if none is queued.
+   */
+  takeStepReport(): StepReport | undefined {
+    return this.stepReports.take();
+  }
+
+  /**
+   * Waits until a step reports an approval request or a content delta.
+   * Repeated calls share the same promise until a report is queued.
+   * 
+   * @returns A promise that resolves once a report is queued.
+   */
+  waitForStepReport(): Promise<void> {
+    return this.stepReports.ready();
+  }
+
+  /**
+   * Resolves a pending tool approval, resuming the step that requested it.
+   * 
+   * @param approvalId - The ID of the pending approval.
+   * @param decision - Whether to run the call as proposed, with edited arguments, or not at all.
+   */
+  resolveToolApproval(approvalId: string, decision: ToolApprovalDecision): void {
+    const resolve = this.pendingApprovals.get(approvalId);
+    if (!resolve) {
+      throw new Error(`No pending tool approval with ID "${approvalId}"`);
+    }
+    this.pendingApprovals.delete(approvalId);
+    resolve(decision);
   }
 
   /**
@@ -310,11 +737,12 @@ export class WorkflowStateManager {
     // Only add to completedSteps if the step actually completed successfully
     if (complete) {
       this.state.completedSteps.add(stepId);
+      this.state.path.push(stepId);
     }
   }
 
   /**
-   * Checks if the step is the last step.
+   * Checks if the step is the last step, i.e. no other step is still pending.
    * 
    * @param stepId - The ID of the step.
    * @returns True if the step is the last step, false otherwise.
@@ -323,48 +751,93 @@ export class WorkflowStateManager {
     if (!this.state) {
       throw new Error('State not initialized');
     }
-    const workflow = this.state.workflow;
-    const steps = workflow.steps;
+    const steps = this.state.workflow.steps;
     
-    // Find the current step's index
-    const currentStepIndex = steps.findIndex((step: WorkflowStep) => step.id === stepId);
-    if (currentStepIndex === -1) {
+    if (!steps.some((step: WorkflowStep) => step.id === stepId)) {
       throw new Error('Step not found in workflow');
     }
     
-    // Check if there are any remaining incomplete steps after this one
-    for (let i = currentStepIndex + 1; i < steps.length; i++) {
-      const futureStep = steps[i];
-      if (!futureStep?.id) continue;
+    // Check if there are any remaining incomplete steps, in any position,
+    // since dependencies may schedule steps out of array order
+    for (const otherStep of steps) {
+      if (!otherStep?.id || otherStep.id === stepId) continue;
       
-      const futureStepState = this.state.steps[futureStep.id];
-      if (!futureStepState) continue;
+      const otherStepState = this.state.steps[otherStep.id];
+      if (!otherStepState || this.state.skippedSteps.has(otherStep.id)) continue;
       
-      // If this future step is not complete and hasn't exceeded max attempts, it's still pending
-      if (!futureStepState.complete && 
-          (!futureStepState.maxAttempts || futureStepState.attempts < futureStepState.maxAttempts)) {
+      // If this step is not complete and hasn't exceeded max attempts, it's still pending
+      if (!otherStepState.complete && !this.isStepExhausted(otherStep.id)) {
         return false;
       }
     }
     return true;
   }
 
+  /**
+   * Checks if a step has used up all of its retry attempts.
+   * 
+   * @param stepId - The ID of the step.
+   * @returns True if the step cannot be attempted again, false otherwise.
+   */
+  private isStepExhausted(stepId: string): boolean {
+    const stepState = this.state?.steps[stepId];
+    return !!stepState && !!stepState.maxAttempts && stepState.attempts >= stepState.maxAttempts;
+  }
+
   /**
    * Creates a checkpoint.
    * 
    * @param id - The ID of the checkpoint.
+   * @param branchId - Optional memory branch to checkpoint.
    */
-  createCheckpoint(id: string): void {
+  createCheckpoint(id: string, branchId?: string): void {
     if (!this.memoryManager) {
       throw new Error('Memory manager not initialized');
     }
-    this.memoryManager.createCheckpoint(id);
+    this.memoryManager.createCheckpoint(id, branchId);
   }
 
-  rollbackToCheckpoint(id: string): void {
+  rollbackToCheckpoint(id: string, branchId?: string): void {
     if (!this.memoryManager) {
       throw new Error('Memory manager not initialized');
     }
-    this.memoryManager.rollbackToCheckpoint(id);
+    this.memoryManager.rollbackToCheckpoint(id, branchId);
+  }
+}
+
+export type StepReport =
+  | { approval: WorkflowToolApproval }
+  | { delta: { stepId: string; delta: string } };
+
+/**
+ * Hands reports from running steps to the executor in order. Reports stay
+ * queued until they are taken, so waking a waiter never hands one off;
+ * waiters share one promise until the next push.
+ */
+class ReportQueue<T> {
+  private queue: T[] = [];
+  private waiter: { promise: Promise<void>; resolve: () => void } | undefined;
+
+  push(report: T): void {
+    this.queue.push(report);
+    this.waiter?.resolve();
+    this.waiter = undefined;
+  }
+
+  take(): T | undefined {
+    return this.queue.shift();
+  }
+
+  ready(): Promise<void> {
+    if (this.queue.length > 0) {
+      return Promise.resolve();
+    }
+
+    if (!this.waiter) {
+      let resolve!: () => void;
+      const promise = new Promise<void>(r => { resolve = r; });
+      this.waiter = { promise, resolve };
+    }
+    return this.waiter.promise;
   }
 }
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Qwen3StreamParser, getStreamParser } from '../../src/providers/device-model-config';
+import type { StreamParserEvent } from '../../src/providers/device-model-config';
+
+function chunk(token: string, isLast = false) {
+  return { token, tokenId: 0, isFirst: false, isLast };
+}
+
+function parseAll(tokens: string[]): StreamParserEvent[] {
+  const parser = new Qwen3StreamParser();
+  return [...tokens.flatMap(token => parser.push(chunk(token))), ...parser.flush()];
+}
+
+function textOf(events: StreamParserEvent[], type: 'text-delta' | 'reasoning-delta'): string {
+  return events
+    .map(event => (event.type === type ? event.text : ''))
+    .join('');
+}
+
+describe('Qwen3StreamParser', () => {
+  it('should be registered as the stream parser of Qwen3', () => {
+    expect(getStreamParser('onnx-community/Qwen3-0.6B-ONNX')?.()).toBeInstanceOf(Qwen3StreamParser);
+  });
+
+  it('should stream text and reasoning with tags split across tokens', () => {
+    const events = parseAll(['<th', 'ink>Check ', 'the units</th', 'ink>It is ', '18°C <', 'b>.']);
+
+    expect(textOf(events, 'reasoning-delta')).toBe('Check the units');
+    expect(textOf(events, 'text-delta')).toBe('It is 18°C <b>.');
+    expect(events[0]).toEqual({ type: 'reasoning-delta', text: 'Check ' });
+  });
+
+  it('should announce tool calls by name and stream their arguments', () => {
+    const events = parseAll([
+      'Let me check.<tool_call>\n{"name": "get_weather", ',
+      '"arguments": {"city": ',
+      '"Paris"}',
+      '}\n</tool_call>',
+    ]);
+
+    expect(events[0]).toEqual({ type: 'text-delta', text: 'Let me check.' });
+    expect(events[1]).toEqual({ type: 'tool-call-start', index: 0, id: expect.stringMatching(/^call_/), name: 'get_weather' });
+
+    const deltas = events.flatMap(event => (event.type === 'tool-call-delta' ? [event.argumentsDelta] : []));
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe('{"city": "Paris"}');
+
+    expect(events[events.length - 1]).toEqual({
+      type: 'tool-call-end',
+      index: 0,
+      id: (events[1] as { id: string }).id,
+      name: 'get_weather',
+      arguments: '{"city": "Paris"}',
+    });
+  });
+
+  it('should number consecutive tool calls', () => {
+    const events = parseAll([
+      '<tool_call>{"name": "a", "arguments": {}}</tool_call>',
+      '<tool_call>{"name": "b", "arguments": {"x": 1}}</tool_call>',
+    ]);
+
+    const ends = events.filter(event => event.type === 'tool-call-end');
+    expect(ends).toEqual([
+      expect.objectContaining({ index: 0, name: 'a', arguments: '{}' }),
+      expect.objectContaining({ index: 1, name: 'b', arguments: '{"x": 1}' }),
+    ]);
+  });
+
+  it('should report tool calls without a leading name once they close', () => {
+    const events = parseAll(['<tool_call>{"arguments": {"q": "test"}, ', '"name": "search"}</tool_call>']);
+
+    expect(events.map(event => event.type)).toEqual(['tool-call-start', 'tool-call-delta', 'tool-call-end']);
+    expect(events[2]).toEqual(expect.objectContaining({ name: 'search', arguments: '{"q":"test"}' }));
+  });
+
+  it('should keep invalid tool call markup as text', () => {
+    const events = parseAll(['Hi <tool_call>{"name": ', '</tool_call> there']);
+
+    expect(events.every(event => event.type === 'text-delta')).toBe(true);
+    expect(textOf(events, 'text-delta')).toBe('Hi <tool_call>{"name": </tool_call> there');
+  });
+
+  it('should end a truncated tool call when the stream ends', () => {
+    const parser = new Qwen3StreamParser();
+    parser.push(chunk('<tool_call>{"name": "search", "arguments": {"query": "te'));
+
+    expect(parser.push(chunk('', true))).toEqual([
+      expect.objectContaining({ type: 'tool-call-end', name: 'search', arguments: '{"query": "te' }),
+    ]);
+  });
+});
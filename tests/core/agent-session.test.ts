@@ -10,8 +10,9 @@ vi.mock('../../src/core/session', () => ({
     createResponse: vi.fn().mockResolvedValue({
       type: 'streaming',
       stream: (async function* () {
-        yield { token: 'test', tokenId: 1, isFirst: true, isLast: false }
-        yield { token: ' response', tokenId: 2, isFirst: false, isLast: true }
+        yield { type: 'text-delta', text: 'test', tokenId: 1 }
+        yield { type: 'text-delta', text: ' response', tokenId: 2 }
+        yield { type: 'finish', finishReason: 'stop' }
       })()
     }),
     registerModels: vi.fn().mockResolvedValue(undefined),
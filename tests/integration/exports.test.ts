@@ -80,4 +80,14 @@ describe('Library Exports', () => {
     // Verify type exports are defined (TypeScript will catch missing exports at build time)
     expect(providers).toBeDefined()
   })
+
+  it('should export provider errors that can be matched at runtime', async () => {
+    const { ProviderCancelledError, ProviderInitializationError } = await import('../../src/index')
+    const { ProviderError } = await import('../../src/types/provider')
+
+    expect(new ProviderCancelledError()).toBeInstanceOf(ProviderCancelledError)
+    expect(new ProviderError('Bad gateway', 'SERVER', 502)).not.toBeInstanceOf(ProviderCancelledError)
+    expect(new ProviderInitializationError('device-model', new Error('WebGPU is not available')))
+      .toBeInstanceOf(ProviderInitializationError)
+  })
 })
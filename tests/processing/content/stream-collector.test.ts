@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest'
+import { StreamCollector, collectStream } from '../../../src/processing/content/stream-collector'
+import type { StreamPart } from '../../../src/types/session'
+
+async function* streamOf(parts: StreamPart[]) {
+  yield* parts
+}
+
+describe('StreamCollector', () => {
+  it('should collect text, reasoning, usage and finish reason', () => {
+    const collector = new StreamCollector()
+    const parts: StreamPart[] = [
+      { type: 'reasoning-delta', text: 'Check the ' },
+      { type: 'reasoning-delta', text: 'units' },
+      { type: 'text-delta', text: '\n\nIt is ' },
+      { type: 'text-delta', text: '18°C.' },
+      { type: 'usage', usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 } },
+      { type: 'finish', finishReason: 'stop' }
+    ]
+    parts.forEach(part => collector.push(part))
+
+    expect(collector.toResponse()).toEqual({
+      type: 'complete',
+      content: 'It is 18°C.',
+      reasoning: 'Check the units',
+      usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+      finishReason: 'stop'
+    })
+  })
+
+  it('should join tool call deltas by index', () => {
+    const collector = new StreamCollector()
+    const parts: StreamPart[] = [
+      { type: 'tool-call-delta', index: 1, id: 'call-b', name: 'get_time', argumentsDelta: '' },
+      { type: 'tool-call-delta', index: 0, id: 'call-a', name: 'get_weather', argumentsDelta: '{"city":' },
+      { type: 'tool-call-delta', index: 0, argumentsDelta: ' "Oslo"}' }
+    ]
+    parts.forEach(part => collector.push(part))
+
+    const response = collector.toResponse()
+    expect(response.toolCalls).toEqual([
+      { id: 'call-a', type: 'function', function: { name: 'get_weather', arguments: '{"city": "Oslo"}' } },
+      { id: 'call-b', type: 'function', function: { name: 'get_time', arguments: '{}' } }
+    ])
+    expect(response.finishReason).toBe('tool_calls')
+  })
+
+  it('should throw the error of an error part', () => {
+    const collector = new StreamCollector()
+
+    expect(() => collector.push({ type: 'error', error: new Error('Overloaded') })).toThrow('Overloaded')
+  })
+})
+
+describe('collectStream', () => {
+  it('should pass every part to the callback while collecting', async () => {
+    const onPart = vi.fn()
+    const response = await collectStream(streamOf([
+      { type: 'text-delta', text: 'Hi' },
+      { type: 'finish', finishReason: 'length' }
+    ]), onPart)
+
+    expect(onPart).toHaveBeenCalledTimes(2)
+    expect(response).toEqual({ type: 'complete', content: 'Hi', finishReason: 'length' })
+  })
+
+  it('should reject with the error of an error part', async () => {
+    await expect(collectStream(streamOf([
+      { type: 'text-delta', text: 'Hi' },
+      { type: 'error', error: new Error('Overloaded') }
+    ]))).rejects.toThrow('Overloaded')
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ToolArgumentValidator } from '../../../src/processing/tools/validator'
+import type { ToolDefinition } from '../../../src/types/worker'
+
+const bookFlight: ToolDefinition = {
+  name: 'book_flight',
+  description: 'Book a flight',
+  parameters: {
+    type: 'object',
+    properties: {
+      destination: { type: 'string' },
+      passengers: { type: 'integer' },
+      refundable: { type: 'boolean' },
+      cabin: { type: 'string', enum: ['economy', 'business'] },
+      traveler: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          age: { type: 'number' }
+        },
+        required: ['name']
+      },
+      dates: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['destination', 'passengers']
+  }
+}
+
+describe('ToolArgumentValidator', () => {
+  let validator: ToolArgumentValidator
+
+  beforeEach(() => {
+    validator = new ToolArgumentValidator()
+  })
+
+  it('should accept valid arguments unchanged', () => {
+    const args = {
+      destination: 'Lisbon',
+      passengers: 2,
+      cabin: 'economy',
+      traveler: { name: 'Sam', age: 34 },
+      dates: ['2025-06-01']
+    }
+
+    expect(validator.validate(bookFlight, args)).toEqual({ valid: true, args, errors: [] })
+  })
+
+  it('should report missing required fields at every depth', () => {
+    const result = validator.validate(bookFlight, { traveler: { age: 34 } })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([
+      { path: 'destination', message: 'is required' },
+      { path: 'passengers', message: 'is required' },
+      { path: 'traveler.name', message: 'is required' }
+    ])
+  })
+
+  it('should coerce string numbers, booleans and enum casing', () => {
+    const result = validator.validate(bookFlight, {
+      destination: 'Lisbon',
+      passengers: ' 3 ',
+      refundable: 'TRUE',
+      cabin: 'Business',
+      traveler: { name: 'Sam', age: '34.5' },
+      dates: '["2025-06-01"]'
+    })
+
+    expect(result.valid).toBe(true)
+    expect(result.args).toEqual({
+      destination: 'Lisbon',
+      passengers: 3,
+      refundable: true,
+      cabin: 'business',
+      traveler: { name: 'Sam', age: 34.5 },
+      dates: ['2025-06-01']
+    })
+  })
+
+  it('should reject values that cannot be coerced', () => {
+    const result = validator.validate(bookFlight, {
+      destination: 'Lisbon',
+      passengers: '2.5',
+      cabin: 'first',
+      dates: ['2025-06-01', { day: 2 }]
+    })
+
+    expect(result.errors).toEqual([
+      { path: 'passengers', message: 'must be integer, got string' },
+      { path: 'cabin', message: 'must be one of "economy", "business"' },
+      { path: 'dates[1]', message: 'must be string, got object' }
+    ])
+  })
+
+  it('should not wrap single values in an array', () => {
+    const args = { destination: 'Lisbon', passengers: 2 }
+
+    expect(validator.validate(bookFlight, { ...args, dates: '2025-06-01,2025-06-08' }).errors).toEqual([
+      { path: 'dates', message: 'must be array, got string' }
+    ])
+    expect(validator.validate(bookFlight, { ...args, dates: { from: '2025-06-01' } }).errors).toEqual([
+      { path: 'dates', message: 'must be array, got object' }
+    ])
+  })
+
+  it('should not coerce when coercion is disabled', () => {
+    const strictValidator = new ToolArgumentValidator({ coerce: false })
+    const result = strictValidator.validate(bookFlight, { destination: 'Lisbon', passengers: '2' })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([{ path: 'passengers', message: 'must be integer, got string' }])
+  })
+
+  it('should reject unknown properties when additionalProperties is false', () => {
+    const definition: ToolDefinition = {
+      name: 'get_time',
+      description: 'Get the time',
+      parameters: {
+        type: 'object',
+        properties: { timezone: { type: 'string' } },
+        required: [],
+        additionalProperties: false
+      } as ToolDefinition['parameters']
+    }
+
+    expect(validator.validate(definition, { timezone: 'UTC', format: '24h' }).errors).toEqual([
+      { path: 'format', message: 'is not allowed' }
+    ])
+  })
+})
@@ -5,10 +5,12 @@ import {
   ProviderError,
   ProviderNetworkError,
   ProviderTimeoutError,
+  ProviderCancelledError,
   ProviderAPIError,
   ProviderConfigurationError,
 } from '../../src/types/provider';
 import type { GenerateArgs } from '../../src/types/worker';
+import type { StreamPart } from '../../src/types/session';
 
 // Mock fetch for testing
 global.fetch = vi.fn();
@@ -61,6 +63,24 @@ describe('CloudProvider', () => {
         new CloudProvider(mockConfig, eventEmitter);
       }).not.toThrow();
     });
+
+    it('should accept an API key instead of proxyUrl', () => {
+      expect(() => {
+        new CloudProvider(
+          { runtime: 'anthropic', model: 'test', apiKey: 'sk-ant-test', modelProvider: 'anthropic' },
+          eventEmitter
+        );
+      }).not.toThrow();
+    });
+
+    it('should throw error if an API key is set without modelProvider', () => {
+      expect(() => {
+        new CloudProvider(
+          { runtime: 'custom', model: 'test', apiKey: 'sk-test' },
+          eventEmitter
+        );
+      }).toThrow(ProviderConfigurationError);
+    });
   });
 
   describe('Initialization', () => {
@@ -135,22 +155,12 @@ describe('CloudProvider', () => {
         chunks.push(chunk);
       }
 
-      expect(chunks).toHaveLength(3);
-      expect(chunks[0]).toMatchObject({
-        token: 'Hello',
-        tokenId: 0,
-        isFirst: true,
-      });
-      expect(chunks[1]).toMatchObject({
-        token: ' world',
-        tokenId: 1,
-        isFirst: false,
-      });
-      expect(chunks[2]).toMatchObject({
-        token: '!',
-        tokenId: 2,
-        isLast: true,
-      });
+      expect(chunks).toEqual([
+        { type: 'text-delta', text: 'Hello', tokenId: 0, ttfbMs: expect.any(Number) },
+        { type: 'text-delta', text: ' world', tokenId: 1 },
+        { type: 'text-delta', text: '!', tokenId: 2 },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
     });
 
     it('should calculate TTFB for first token', async () => {
@@ -222,7 +232,10 @@ describe('CloudProvider', () => {
         chunks.push(chunk);
       }
 
-      expect(chunks).toHaveLength(1);
+      expect(chunks).toEqual([
+        expect.objectContaining({ type: 'text-delta', text: 'Hello' }),
+        { type: 'finish', finishReason: 'stop' },
+      ]);
     });
 
     it('should throw error if not initialized', async () => {
@@ -257,6 +270,64 @@ describe('CloudProvider', () => {
         }
       }).rejects.toThrow(ProviderError);
     });
+
+    function mockSSE(events: string[]) {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: (name: string) => name === 'Content-Type' ? 'text/event-stream' : null,
+        },
+        body: new ReadableStream({
+          start(controller) {
+            events.forEach(event => controller.enqueue(new TextEncoder().encode(`${event}\n\n`)));
+            controller.close();
+          },
+        }),
+      });
+    }
+
+    it('should collect stream parts with tool calls and usage when streaming is disabled', async () => {
+      await provider.initialize();
+      mockSSE([
+        'data: {"type":"reasoning-delta","text":"Needs a lookup."}',
+        'data: {"type":"tool-call-delta","index":0,"id":"call_1","name":"get_weather","argumentsDelta":"{\\"city\\":"}',
+        'data: {"type":"tool-call-delta","index":0,"argumentsDelta":"\\"Oslo\\"}"}',
+        'data: {"type":"usage","usage":{"promptTokens":20,"completionTokens":8,"totalTokens":28}}',
+        'data: {"type":"finish","finishReason":"tool_calls"}',
+      ]);
+
+      const response = await provider.generate({ ...mockGenerateArgs, stream: false });
+
+      expect(response).toEqual({
+        type: 'complete',
+        content: '',
+        reasoning: 'Needs a lookup.',
+        toolCalls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }],
+        usage: { promptTokens: 20, completionTokens: 8, totalTokens: 28 },
+        finishReason: 'tool_calls',
+      });
+    });
+
+    it('should end the stream with an error part for error events', async () => {
+      await provider.initialize();
+      mockSSE([
+        'data: {"type":"text-delta","text":"Hel"}',
+        'error: {"message":"Overloaded","statusCode":529,"code":"overloaded_error"}',
+        'data: {"type":"text-delta","text":"lo"}',
+      ]);
+
+      const response = await provider.generate(mockGenerateArgs);
+      if (response.type !== 'streaming') throw new Error('Expected streaming response');
+
+      const parts: any[] = [];
+      for await (const part of response.stream) {
+        parts.push(part);
+      }
+
+      expect(parts.map(part => part.type)).toEqual(['text-delta', 'error']);
+      expect(parts[1].error).toBeInstanceOf(ProviderAPIError);
+      expect(parts[1].error).toMatchObject({ message: 'Overloaded', statusCode: 529, code: 'overloaded_error' });
+    });
   });
 
   describe('Error Handling', () => {
@@ -363,8 +434,8 @@ describe('CloudProvider', () => {
         chunks.push(chunk);
       }
 
-      expect(chunks).toHaveLength(1);
-      expect(chunks[0].token).toBe('Success');
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0].text).toBe('Success');
       expect(global.fetch).toHaveBeenCalledTimes(3);
     }, 15000);
 
@@ -403,6 +474,86 @@ describe('CloudProvider', () => {
     }, 15000);
   });
 
+  describe('Cancellation', () => {
+    it('should not send a request if the signal is already aborted', async () => {
+      await provider.initialize();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        provider.generate({ ...mockGenerateArgs, signal: controller.signal })
+      ).rejects.toThrow(ProviderCancelledError);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should abort the request without retrying', async () => {
+      await provider.initialize();
+      const controller = new AbortController();
+
+      (global.fetch as any).mockImplementation((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => {
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+          });
+        })
+      );
+
+      const generation = provider.generate({ ...mockGenerateArgs, signal: controller.signal });
+      controller.abort();
+
+      await expect(generation).rejects.toThrow(ProviderCancelledError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop reading the stream when the signal is aborted', async () => {
+      await provider.initialize();
+      const controller = new AbortController();
+
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: (name: string) => name === 'Content-Type' ? 'text/event-stream' : null,
+        },
+        body: new ReadableStream({
+          start(streamController) {
+            // Send one token and keep the stream open
+            streamController.enqueue(new TextEncoder().encode('data: {"token":"Hello"}\n\n'));
+          },
+        }),
+      });
+
+      const response = await provider.generate({ ...mockGenerateArgs, signal: controller.signal });
+      const tokens: string[] = [];
+
+      await expect(async () => {
+        if (response.type === 'streaming') {
+          for await (const part of response.stream) {
+            if (part.type === 'text-delta') tokens.push(part.text);
+            controller.abort();
+          }
+        }
+      }).rejects.toThrow(ProviderCancelledError);
+      expect(tokens).toEqual(['Hello']);
+    });
+
+    it('should not send the signal to the proxy', async () => {
+      await provider.initialize();
+
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: (name: string) => name === 'Content-Type' ? 'application/json' : null,
+        },
+        json: async () => ({ content: 'Hi' }),
+      });
+
+      await provider.generate({ ...mockGenerateArgs, signal: new AbortController().signal });
+
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(body).not.toHaveProperty('signal');
+    });
+  });
+
   describe('Custom Headers', () => {
     it('should send custom headers with request', async () => {
       const providerWithHeaders = new CloudProvider(
@@ -457,6 +608,86 @@ describe('CloudProvider', () => {
     });
   });
 
+  describe('Direct API Mode', () => {
+    const jsonResponse = (data: object) => ({
+      ok: true,
+      headers: {
+        get: (name: string) => name === 'Content-Type' ? 'application/json' : null,
+      },
+      json: async () => data,
+    });
+
+    it('should send requests to the Anthropic API with its authentication headers', async () => {
+      const directProvider = new CloudProvider(
+        { runtime: 'anthropic', model: 'claude-test', apiKey: 'sk-ant-test', modelProvider: 'anthropic' },
+        eventEmitter
+      );
+      await directProvider.initialize();
+      (global.fetch as any).mockResolvedValueOnce(jsonResponse({
+        content: [{ type: 'text', text: 'Hi' }],
+        stop_reason: 'end_turn',
+      }));
+
+      const response = await directProvider.generate({ messages: [{ role: 'user', content: 'Hello' }] });
+
+      expect(response).toEqual({ type: 'complete', content: 'Hi', finishReason: 'stop' });
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.anthropic.com/v1/messages',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'x-api-key': 'sk-ant-test',
+            'anthropic-version': '2023-06-01',
+          }),
+        })
+      );
+    });
+
+    it('should not send seed or stop to the OpenAI Responses API', async () => {
+      const directProvider = new CloudProvider(
+        { runtime: 'openai', model: 'gpt-test', apiKey: 'sk-test', modelProvider: 'openai' },
+        eventEmitter
+      );
+      await directProvider.initialize();
+      (global.fetch as any).mockResolvedValueOnce(jsonResponse({
+        output: [{ type: 'message', status: 'completed', content: [{ type: 'output_text', text: 'Hi' }] }],
+      }));
+
+      await directProvider.generate({ messages: [{ role: 'user', content: 'Hello' }], seed: 42, stop: ['END'] });
+
+      const [url, init] = (global.fetch as any).mock.calls[0];
+      const body = JSON.parse(init.body);
+      expect(url).toBe('https://api.openai.com/v1/responses');
+      expect(body).not.toHaveProperty('seed');
+      expect(body).not.toHaveProperty('stop');
+    });
+
+    it('should send requests to apiUrl with a bearer token', async () => {
+      const directProvider = new CloudProvider(
+        {
+          runtime: 'custom',
+          model: 'qwen3',
+          apiKey: 'sk-test',
+          apiUrl: 'http://localhost:8000/v1/chat/completions',
+          modelProvider: 'openai-chat',
+        },
+        eventEmitter
+      );
+      await directProvider.initialize();
+      (global.fetch as any).mockResolvedValueOnce(jsonResponse({
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+      }));
+
+      await directProvider.generate({ messages: [{ role: 'user', content: 'Hello' }] });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:8000/v1/chat/completions',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'Authorization': 'Bearer sk-test' }),
+        })
+      );
+    });
+  });
+
   describe('Disposal', () => {
     it('should dispose successfully', async () => {
       await provider.initialize();
@@ -594,7 +825,7 @@ describe('CloudProvider', () => {
       expect(requestBody.messages[0].content[0].id).toBe('tool_123');
     });
 
-    it('should not transform messages when modelProvider is anthropic', async () => {
+    it('should send Anthropic Messages API requests when modelProvider is anthropic', async () => {
       const providerWithAnthropic = new CloudProvider(
         {
           ...mockConfig,
@@ -651,8 +882,217 @@ describe('CloudProvider', () => {
       const fetchCall = (global.fetch as any).mock.calls[0];
       const requestBody = JSON.parse(fetchCall[1].body);
       
-      expect(requestBody.messages[0].content[0].type).toBe('tool_use');
-      expect(requestBody.messages[0].content[0].id).toBe('tool_456');
+      expect(requestBody.messages[0].content[0]).toEqual({
+        type: 'tool_use',
+        id: 'tool_456',
+        name: 'search',
+        input: { query: 'AI' },
+      });
+      expect(requestBody.max_tokens).toBe(1024);
+    });
+
+    it('should read Anthropic Messages API responses', async () => {
+      const anthropicProvider = new CloudProvider({ ...mockConfig, modelProvider: 'anthropic' }, eventEmitter);
+      await anthropicProvider.initialize();
+
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: (name: string) => name === 'Content-Type' ? 'application/json' : null,
+        },
+        json: async () => ({
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-sonnet-4-5',
+          content: [
+            { type: 'thinking', thinking: 'A lookup is needed.' },
+            { type: 'text', text: 'Let me check.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Oslo' } },
+          ],
+          stop_reason: 'tool_use',
+          usage: { input_tokens: 30, output_tokens: 12 },
+        }),
+      });
+
+      const response = await anthropicProvider.generate(mockGenerateArgs);
+
+      expect(response).toEqual({
+        type: 'complete',
+        content: 'Let me check.',
+        reasoning: 'A lookup is needed.',
+        toolCalls: [{ id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }],
+        usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 },
+        finishReason: 'tool_calls',
+      });
+    });
+
+    it('should read Anthropic SSE events', async () => {
+      const anthropicProvider = new CloudProvider({ ...mockConfig, modelProvider: 'anthropic' }, eventEmitter);
+      await anthropicProvider.initialize();
+
+      const events = [
+        { type: 'message_start', message: { usage: { input_tokens: 30, output_tokens: 1 } } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Let me check.' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: {} } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city": ' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Oslo"}' } },
+        { type: 'content_block_stop', index: 1 },
+        { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 12 } },
+        { type: 'message_stop' },
+      ];
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: (name: string) => name === 'Content-Type' ? 'text/event-stream' : null,
+        },
+        body: new ReadableStream({
+          start(controller) {
+            for (const event of events) {
+              controller.enqueue(new TextEncoder().encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+            }
+            controller.close();
+          },
+        }),
+      });
+
+      const response = await anthropicProvider.generate({ ...mockGenerateArgs, stream: false });
+
+      expect(response).toEqual({
+        type: 'complete',
+        content: 'Let me check.',
+        toolCalls: [{ id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city": "Oslo"}' } }],
+        usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 },
+        finishReason: 'tool_calls',
+      });
+    });
+
+    it('should read OpenAI Responses API SSE events', async () => {
+      const openaiProvider = new CloudProvider({ ...mockConfig, modelProvider: 'openai' }, eventEmitter);
+      await openaiProvider.initialize();
+
+      const events = [
+        { type: 'response.created', response: { id: 'resp_1', status: 'in_progress', output: [] } },
+        { type: 'response.output_item.added', output_index: 0, item: { type: 'message', id: 'msg_1', role: 'assistant', content: [] } },
+        { type: 'response.output_text.delta', output_index: 0, content_index: 0, delta: 'Let me check.' },
+        { type: 'response.output_item.added', output_index: 1, item: { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'get_weather', arguments: '' } },
+        { type: 'response.function_call_arguments.delta', output_index: 1, item_id: 'fc_1', delta: '{"city": ' },
+        { type: 'response.function_call_arguments.delta', output_index: 1, item_id: 'fc_1', delta: '"Oslo"}' },
+        { type: 'response.completed', response: { id: 'resp_1', status: 'completed', output: [], usage: { input_tokens: 30, output_tokens: 12, total_tokens: 42 } } },
+      ];
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: (name: string) => name === 'Content-Type' ? 'text/event-stream' : null,
+        },
+        body: new ReadableStream({
+          start(controller) {
+            for (const event of events) {
+              controller.enqueue(new TextEncoder().encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+            }
+            controller.close();
+          },
+        }),
+      });
+
+      const response = await openaiProvider.generate({ ...mockGenerateArgs, stream: false });
+
+      expect(response).toEqual({
+        type: 'complete',
+        content: 'Let me check.',
+        toolCalls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city": "Oslo"}' } }],
+        usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 },
+        finishReason: 'tool_calls',
+      });
+    });
+
+    it('should end the stream with an error part on response.failed', async () => {
+      const openaiProvider = new CloudProvider({ ...mockConfig, modelProvider: 'openai' }, eventEmitter);
+      await openaiProvider.initialize();
+
+      const event = {
+        type: 'response.failed',
+        response: { id: 'resp_1', status: 'failed', output: [], error: { code: 'rate_limit_exceeded', message: 'Slow down' } },
+      };
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: (name: string) => name === 'Content-Type' ? 'text/event-stream' : null,
+        },
+        body: new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`));
+            controller.close();
+          },
+        }),
+      });
+
+      const response = await openaiProvider.generate(mockGenerateArgs);
+      const parts: StreamPart[] = [];
+      if (response.type === 'streaming') {
+        for await (const part of response.stream) {
+          parts.push(part);
+        }
+      }
+
+      expect(parts).toHaveLength(1);
+      expect(parts[0]).toMatchObject({
+        type: 'error',
+        error: { message: 'Slow down', statusCode: 429, code: 'rate_limit_exceeded' },
+      });
+    });
+
+    it('should read Chat Completions chunks when modelProvider is openai-chat', async () => {
+      const chatProvider = new CloudProvider({ ...mockConfig, modelProvider: 'openai-chat' }, eventEmitter);
+      await chatProvider.initialize();
+
+      const chunks = [
+        { choices: [{ index: 0, delta: { role: 'assistant', content: 'Let me check.' }, finish_reason: null }] },
+        { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '' } }] }, finish_reason: null }] },
+        { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"city": ' } }] }, finish_reason: null }] },
+        { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"Oslo"}' } }] }, finish_reason: null }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+        { choices: [], usage: { prompt_tokens: 30, completion_tokens: 12, total_tokens: 42 } },
+      ];
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: (name: string) => name === 'Content-Type' ? 'text/event-stream' : null,
+        },
+        body: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) {
+              controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(chunk)}\n\n`));
+            }
+            controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
+            controller.close();
+          },
+        }),
+      });
+
+      const response = await chatProvider.generate({
+        ...mockGenerateArgs,
+        max_new_tokens: 256,
+        stream: false,
+      });
+
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(body).toEqual({
+        model: mockConfig.model,
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 256,
+        temperature: 0.7,
+        stream: false,
+      });
+      expect(response).toEqual({
+        type: 'complete',
+        content: 'Let me check.',
+        toolCalls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city": "Oslo"}' } }],
+        usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 },
+        finishReason: 'tool_calls',
+      });
     });
 
     it('should transform tool_use to function_call when modelProvider is openai', async () => {
@@ -1,6 +1,6 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { DeviceProvider } from '../../src/providers/device';
-import { DeviceProviderConfig, ProviderConfigurationError } from '../../src/types/provider';
+import { DeviceProviderConfig, ProviderConfigurationError, ProviderCancelledError, ProviderError } from '../../src/types/provider';
 import { EventEmitter } from '../../src/utils/event-emitter';
 
 describe('DeviceProvider', () => {
@@ -82,4 +82,274 @@ describe('DeviceProvider', () => {
       expect(provider.isInitialized()).toBe(false);
     });
   });
+
+  describe('cancellation', () => {
+    const config: DeviceProviderConfig = {
+      runtime: 'transformers-js',
+      model: 'onnx-community/Qwen3-0.6B-ONNX',
+      quantization: 'q4',
+      engine: 'webgpu',
+    };
+    let posted: any[];
+
+    // Acknowledges init and streams a single token for every generate request
+    class FakeWorker extends EventTarget {
+      postMessage(message: any) {
+        posted.push(message);
+        const reply = (data: any) => setTimeout(() => this.dispatchEvent(new MessageEvent('message', { data })));
+        if (message.type === 'init') {
+          reply({ type: 'ack', requestId: message.requestId });
+        } else if (message.type === 'generate') {
+          reply({ type: 'chunk', requestId: message.requestId, args: { token: 'Hi', tokenId: -1, isFirst: true, isLast: false } });
+        }
+      }
+      terminate() {}
+    }
+
+    beforeEach(() => {
+      posted = [];
+      vi.stubGlobal('Worker', FakeWorker);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should send a cancel message to the worker when the signal is aborted', async () => {
+      const provider = new DeviceProvider(config, eventEmitter);
+      await provider.initialize();
+      const controller = new AbortController();
+
+      const response = await provider.generate({
+        messages: [{ role: 'user', content: 'Hello' }],
+        signal: controller.signal,
+      });
+
+      const tokens: string[] = [];
+      await expect(async () => {
+        if (response.type === 'streaming') {
+          for await (const part of response.stream) {
+            if (part.type === 'text-delta') tokens.push(part.text);
+            controller.abort();
+          }
+        }
+      }).rejects.toThrow(ProviderCancelledError);
+
+      const generate = posted.find(message => message.type === 'generate');
+      expect(tokens).toEqual(['Hi']);
+      expect(generate.args).not.toHaveProperty('signal');
+      expect(posted).toContainEqual({ type: 'cancel', requestId: generate.requestId });
+    });
+  });
+
+  describe('stream parts', () => {
+    const config: DeviceProviderConfig = {
+      runtime: 'transformers-js',
+      model: 'onnx-community/Qwen3-0.6B-ONNX',
+      quantization: 'q4',
+      engine: 'webgpu',
+    };
+    let script: any[];
+
+    // Acknowledges init and replies to generate requests with the scripted messages
+    class FakeWorker extends EventTarget {
+      postMessage(message: any) {
+        const reply = (data: any) => setTimeout(() => this.dispatchEvent(new MessageEvent('message', { data })));
+        if (message.type === 'init') {
+          reply({ type: 'ack', requestId: message.requestId });
+        } else if (message.type === 'generate') {
+          script.forEach(data => reply({ ...data, requestId: message.requestId }));
+        }
+      }
+      terminate() {}
+    }
+
+    const token = (text: string, tokenId: number) =>
+      ({ type: 'chunk', args: { token: text, tokenId, isFirst: tokenId === 0, isLast: false } });
+
+    async function streamParts(): Promise<any[]> {
+      const provider = new DeviceProvider(config, eventEmitter);
+      await provider.initialize();
+      const response = await provider.generate({ messages: [{ role: 'user', content: 'Weather?' }], stream: true });
+      if (response.type !== 'streaming') throw new Error('Expected streaming response');
+
+      const parts: any[] = [];
+      for await (const part of response.stream) {
+        parts.push(part);
+      }
+      return parts;
+    }
+
+    beforeEach(() => {
+      vi.stubGlobal('Worker', FakeWorker);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should parse reasoning and tool calls and end with usage and finish', async () => {
+      script = [
+        token('<think>Need data', 0),
+        token('</think>Checking.<tool_call>{"name": "get_weather", ', 1),
+        token('"arguments": {"city": "Oslo"}}</tool_call>', 2),
+        { type: 'done' },
+      ];
+
+      const parts = await streamParts();
+
+      expect(parts).toEqual([
+        { type: 'reasoning-delta', text: 'Need data' },
+        { type: 'text-delta', text: 'Checking.', tokenId: 1 },
+        { type: 'tool-call-delta', index: 0, id: expect.stringMatching(/^call_/), name: 'get_weather', argumentsDelta: '' },
+        { type: 'tool-call-delta', index: 0, argumentsDelta: '{"city": "Oslo"}' },
+        { type: 'usage', usage: { promptTokens: 0, completionTokens: 3, totalTokens: 3 } },
+        { type: 'finish', finishReason: 'tool_calls' },
+      ]);
+    });
+
+    it('should end the stream with an error part when generation fails', async () => {
+      script = [token('Hi', 0), { type: 'error', args: { error: 'Out of memory' } }];
+
+      const parts = await streamParts();
+
+      expect(parts).toEqual([
+        { type: 'text-delta', text: 'Hi', tokenId: 0 },
+        { type: 'error', error: expect.objectContaining({ message: 'Out of memory', code: 'WORKER_ERROR' }) },
+      ]);
+    });
+  });
+
+  describe('request queue', () => {
+    const config: DeviceProviderConfig = {
+      runtime: 'transformers-js',
+      model: 'onnx-community/Qwen3-0.6B-ONNX',
+      quantization: 'q4',
+      engine: 'webgpu',
+    };
+    let worker: FakeWorker;
+
+    // Acknowledges init and dispose, and holds generate requests until the test finishes them
+    class FakeWorker extends EventTarget {
+      generating: string[] = [];
+
+      constructor() {
+        super();
+        worker = this;
+      }
+
+      postMessage(message: any) {
+        if (message.type === 'init' || message.type === 'dispose') {
+          this.reply({ type: 'ack', requestId: message.requestId });
+        } else if (message.type === 'generate') {
+          this.generating.push(message.args.messages[0].content);
+        }
+      }
+
+      finish(index: number) {
+        this.reply({ type: 'done', requestId: String(index + 2) });
+      }
+
+      reply(data: any) {
+        setTimeout(() => this.dispatchEvent(new MessageEvent('message', { data })));
+      }
+
+      terminate() {}
+    }
+
+    async function createProvider(overrides: Partial<DeviceProviderConfig> = {}): Promise<DeviceProvider> {
+      const provider = new DeviceProvider({ ...config, ...overrides }, eventEmitter);
+      await provider.initialize();
+      return provider;
+    }
+
+    const request = (content: string, options: { priority?: number; signal?: AbortSignal } = {}) =>
+      ({ messages: [{ role: 'user' as const, content }], ...options });
+
+    beforeEach(() => {
+      vi.stubGlobal('Worker', FakeWorker);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should run overlapping requests one at a time and report the wait', async () => {
+      const provider = await createProvider();
+      const events: any[] = [];
+      eventEmitter.on('*', event => events.push(event));
+
+      await provider.generate(request('First'));
+      const second = provider.generate(request('Second'));
+      await new Promise(resolve => setTimeout(resolve));
+
+      expect(worker.generating).toEqual(['First']);
+      expect(events).toContainEqual(expect.objectContaining({ type: 'generation:queued', position: 1, queueDepth: 1, priority: 0 }));
+
+      worker.finish(0);
+      await second;
+
+      expect(worker.generating).toEqual(['First', 'Second']);
+      expect(events).toContainEqual(expect.objectContaining({ type: 'generation:dequeued', waitMs: expect.any(Number) }));
+    });
+
+    it('should start queued requests by priority, then in order', async () => {
+      const provider = await createProvider();
+
+      await provider.generate(request('Running'));
+      const queued = [
+        provider.generate(request('Low', { priority: -1 })),
+        provider.generate(request('Normal')),
+        provider.generate(request('Urgent', { priority: 10 })),
+        provider.generate(request('Normal too')),
+      ];
+
+      for (let index = 0; index < queued.length; index++) {
+        worker.finish(index);
+        await vi.waitFor(() => expect(worker.generating).toHaveLength(index + 2));
+      }
+      await Promise.all(queued);
+
+      expect(worker.generating).toEqual(['Running', 'Urgent', 'Normal', 'Normal too', 'Low']);
+    });
+
+    it('should reject requests when the queue is full', async () => {
+      const provider = await createProvider({ maxQueueDepth: 1 });
+
+      await provider.generate(request('Running'));
+      const waiting = provider.generate(request('Waiting'));
+
+      await expect(provider.generate(request('Rejected'))).rejects.toThrow(ProviderError);
+      await expect(provider.generate(request('Rejected'))).rejects.toMatchObject({ code: 'QUEUE_FULL', statusCode: 429 });
+
+      worker.finish(0);
+      await expect(waiting).resolves.toMatchObject({ type: 'streaming' });
+    });
+
+    it('should remove cancelled requests from the queue', async () => {
+      const provider = await createProvider();
+      const controller = new AbortController();
+
+      await provider.generate(request('Running'));
+      const cancelled = provider.generate(request('Cancelled', { signal: controller.signal }));
+      const next = provider.generate(request('Next'));
+      controller.abort();
+
+      await expect(cancelled).rejects.toThrow(ProviderCancelledError);
+      worker.finish(0);
+      await next;
+
+      expect(worker.generating).toEqual(['Running', 'Next']);
+    });
+
+    it('should reject queued requests when the provider is disposed', async () => {
+      const provider = await createProvider();
+
+      await provider.generate(request('Running'));
+      const waiting = expect(provider.generate(request('Waiting'))).rejects.toMatchObject({ code: 'DISPOSED' });
+      await provider.dispose();
+
+      await waiting;
+    });
+  });
 });
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { InferenceProviderManager } from '../../src/providers/manager';
+import { MockProvider } from '../../src/providers/mock';
+import { registerProviderFactory } from '../../src/providers/registry';
+import { createSession } from '../../src/core/session';
+import { EventEmitter } from '../../src/utils/event-emitter';
+import {
+  ProviderAPIError,
+  ProviderCancelledError,
+  ProviderInitializationError,
+  ProviderNetworkError,
+  ProviderTimeoutError,
+  MockResponse,
+  FallbackTrigger,
+} from '../../src/types/provider';
+import type { SessionEvent } from '../../src/types/events';
+import type { StreamPart } from '../../src/types/session';
+
+declare module '../../src/types/provider' {
+  interface InferenceProviderConfigMap {
+    'broken': { runtime: 'broken'; model: string };
+  }
+}
+
+async function readParts(stream: AsyncIterable<StreamPart>): Promise<StreamPart[]> {
+  const parts: StreamPart[] = [];
+  for await (const part of stream) {
+    parts.push(part);
+  }
+  return parts;
+}
+
+describe('FallbackProvider', () => {
+  let eventEmitter: EventEmitter;
+  let events: SessionEvent[];
+  let manager: InferenceProviderManager;
+
+  async function setup(primary: MockResponse[], fallbackOn?: FallbackTrigger[]) {
+    await manager.registerRoutes([{ name: 'assistant', models: ['primary', 'secondary'], ...(fallbackOn && { fallbackOn }) }]);
+    await manager.registerModels([
+      { runtime: 'mock', model: 'primary', responses: primary },
+      { runtime: 'mock', model: 'secondary', responses: [{ text: 'From secondary' }] },
+    ]);
+    return manager.getProvider('assistant');
+  }
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter();
+    events = [];
+    eventEmitter.on('*', event => events.push(event));
+    manager = new InferenceProviderManager(eventEmitter);
+  });
+
+  it('should answer with the first model when it succeeds', async () => {
+    const route = await setup([{ text: 'From primary' }]);
+
+    const response = await route.generate({ messages: [{ role: 'user', content: 'Hi' }], stream: false });
+
+    expect(response).toMatchObject({ type: 'complete', content: 'From primary' });
+    expect(events.filter(event => event.type.startsWith('route:'))).toEqual([
+      { type: 'route:resolved', route: 'assistant', modelName: 'primary', attempts: 1, timestamp: expect.any(Number) },
+    ]);
+  });
+
+  it.each([
+    ['network errors', new ProviderNetworkError(new Error('Failed to fetch'))],
+    ['timeouts', new ProviderTimeoutError(60000)],
+    ['server errors', new ProviderAPIError('Bad gateway', 502)],
+  ])('should fall back on %s', async (_name, error) => {
+    const route = await setup([{ error }]);
+
+    const response = await route.generate({ messages: [{ role: 'user', content: 'Hi' }], stream: false });
+
+    expect(response).toMatchObject({ content: 'From secondary' });
+    expect(events.filter(event => event.type.startsWith('route:'))).toEqual([
+      {
+        type: 'route:fallback',
+        route: 'assistant',
+        failedModel: 'primary',
+        nextModel: 'secondary',
+        error: error.message,
+        timestamp: expect.any(Number),
+      },
+      { type: 'route:resolved', route: 'assistant', modelName: 'secondary', attempts: 2, timestamp: expect.any(Number) },
+    ]);
+  });
+
+  it('should not fall back on client errors or cancellation', async () => {
+    const route = await setup([
+      { error: new ProviderAPIError('Invalid request', 400) },
+      { error: new ProviderCancelledError() },
+    ]);
+
+    await expect(route.generate({ messages: [] })).rejects.toThrow('Invalid request');
+    await expect(route.generate({ messages: [] })).rejects.toThrow(ProviderCancelledError);
+    expect(events.some(event => event.type === 'route:fallback')).toBe(false);
+  });
+
+  it('should fall back on the configured errors only', async () => {
+    const route = await setup(
+      [{ error: new ProviderAPIError('Too many requests', 429) }, { error: new ProviderAPIError('Bad gateway', 502) }],
+      ['rate-limit', error => error.message === 'Custom']
+    );
+
+    await expect(route.generate({ messages: [], stream: false })).resolves.toMatchObject({ content: 'From secondary' });
+    await expect(route.generate({ messages: [] })).rejects.toThrow('Bad gateway');
+  });
+
+  it('should fall back when a stream fails before its first part', async () => {
+    const route = await setup([{ streamError: new ProviderAPIError('Overloaded', 529) }]);
+
+    const response = await route.generate({ messages: [{ role: 'user', content: 'Hi' }] });
+    if (response.type !== 'streaming') throw new Error('Expected streaming response');
+
+    expect(await readParts(response.stream)).toEqual([
+      { type: 'text-delta', text: 'From ' },
+      { type: 'text-delta', text: 'secondary' },
+      { type: 'finish', finishReason: 'stop' },
+    ]);
+  });
+
+  it('should pass on errors after the first part of a stream', async () => {
+    const route = await setup([{ text: 'Partial', streamError: new ProviderAPIError('Overloaded', 529) }]);
+
+    const response = await route.generate({ messages: [] });
+    if (response.type !== 'streaming') throw new Error('Expected streaming response');
+
+    const parts = await readParts(response.stream);
+    expect(parts[0]).toEqual({ type: 'text-delta', text: 'Partial' });
+    expect(parts[1]).toMatchObject({ type: 'error', error: { message: 'Overloaded' } });
+    expect((await manager.getProvider('secondary') as MockProvider).calls).toHaveLength(0);
+  });
+
+  it('should throw the error of the last model when every model fails', async () => {
+    await manager.registerRoutes([{ name: 'assistant', models: ['primary', 'secondary'] }]);
+    await manager.registerModels([
+      { runtime: 'mock', model: 'primary', responses: [{ error: new ProviderAPIError('Bad gateway', 502) }] },
+      { runtime: 'mock', model: 'secondary', responses: [{ error: new ProviderAPIError('Unavailable', 503) }] },
+    ]);
+    const route = await manager.getProvider('assistant');
+
+    await expect(route.generate({ messages: [] })).rejects.toThrow('Unavailable');
+  });
+
+  it('should fall back past models that failed to initialize', async () => {
+    registerProviderFactory('broken', config => ({
+      initialize: vi.fn().mockRejectedValue(new Error('WebGPU is not available')),
+      generate: vi.fn(),
+      dispose: vi.fn(),
+      isInitialized: () => false,
+      getModelName: () => config.model,
+    }));
+
+    const session = await createSession({
+      models: [
+        { runtime: 'broken', model: 'device-model' },
+        { runtime: 'mock', model: 'cloud-model', responses: [{ text: 'From cloud' }] },
+      ],
+      routes: [{ name: 'assistant', models: ['device-model', 'cloud-model'] }],
+    });
+    const fallbacks: SessionEvent[] = [];
+    session.on('route:fallback', event => fallbacks.push(event));
+
+    const response = await session.createResponse('assistant', { messages: [{ role: 'user', content: 'Hi' }], stream: false });
+
+    expect(response).toMatchObject({ content: 'From cloud' });
+    expect(fallbacks).toMatchObject([{ failedModel: 'device-model', error: 'Failed to initialize model device-model: WebGPU is not available' }]);
+    await expect(session.createResponse('device-model', { messages: [] })).rejects.toThrow(ProviderInitializationError);
+    await session.dispose();
+  });
+
+  it('should reject routes that contain routes or have the name of a model', async () => {
+    await manager.registerModels([{ runtime: 'mock', model: 'primary', responses: [] }]);
+    await manager.registerRoutes([{ name: 'assistant', models: ['primary'] }]);
+
+    await expect(manager.registerRoutes([{ name: 'primary', models: ['assistant'] }])).rejects.toThrow('has the name of a registered model');
+    await expect(manager.registerRoutes([{ name: 'nested', models: ['assistant'] }])).rejects.toThrow('routes can only contain models');
+  });
+});
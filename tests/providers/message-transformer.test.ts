@@ -3,32 +3,166 @@ import {
   transformArgs,
   transformResponse,
   transformMessagesToProvider,
+  transformStopReason,
+  transformStreamEvent,
+  createStreamTransformState,
 } from '../../src/providers/transformation';
 import type { GenerateArgs, Message } from '../../src/types/worker';
 
 describe('Message Transformer', () => {
   describe('transformArgs', () => {
-    describe('Anthropic provider', () => {
-      it('should not transform messages for Anthropic provider', () => {
+    describe('OpenAI Chat Completions provider', () => {
+      it('should transform tool_use and tool_result to tool_calls and tool messages', () => {
         const args: GenerateArgs = {
           messages: [
+            { role: 'system', content: 'You are concise.' },
+            { role: 'user', content: 'Weather in Oslo?' },
+            {
+              role: 'assistant',
+              content: [
+                { type: 'text', text: '' },
+                { type: 'tool_use', id: 'call_1', name: 'get_weather', arguments: { city: 'Oslo' } },
+              ],
+            },
             {
               role: 'user',
               content: [
-                {
-                  type: 'tool_use',
-                  id: 'tool_123',
-                  name: 'get_weather',
-                  arguments: { city: 'San Francisco' },
-                },
+                { type: 'tool_result', tool_use_id: 'call_1', result: '{"temp":18}' },
+                { type: 'text', text: 'And tomorrow?' },
+              ],
+            },
+          ],
+        };
+
+        expect(transformArgs(args, 'openai-chat').messages).toEqual([
+          { role: 'system', content: 'You are concise.' },
+          { role: 'user', content: 'Weather in Oslo?' },
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }],
+          },
+          { role: 'tool', tool_call_id: 'call_1', content: '{"temp":18}' },
+          { role: 'user', content: 'And tomorrow?' },
+        ]);
+      });
+
+      it('should wrap tools in functions and map generation options', () => {
+        const args: GenerateArgs = {
+          messages: [{ role: 'user', content: 'Hello' }],
+          tools: [{
+            name: 'get_weather',
+            description: 'Get weather',
+            parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+          }],
+          max_new_tokens: 500,
+          temperature: 0.2,
+          stop: ['END'],
+          stream: true,
+          top_k: 20,
+          enable_thinking: false,
+        };
+
+        expect(transformArgs(args, 'openai-chat')).toEqual({
+          messages: [{ role: 'user', content: 'Hello' }],
+          tools: [{
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              description: 'Get weather',
+              parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+            },
+          }],
+          max_tokens: 500,
+          temperature: 0.2,
+          stop: ['END'],
+          stream: true,
+          stream_options: { include_usage: true },
+        });
+      });
+    });
+
+    describe('Anthropic provider', () => {
+      it('should move system messages to the system prompt', () => {
+        const args: GenerateArgs = {
+          messages: [
+            { role: 'system', content: 'You are concise.' },
+            { role: 'system', content: [{ type: 'text', text: 'Answer in English.' }] },
+            { role: 'user', content: 'Hello' },
+          ],
+        };
+
+        const result = transformArgs(args, 'anthropic');
+        expect(result.system).toBe('You are concise.\n\nAnswer in English.');
+        expect(result.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+      });
+
+      it('should transform tool_use and tool_result to content blocks', () => {
+        const args: GenerateArgs = {
+          messages: [
+            { role: 'user', content: 'Weather in San Francisco?' },
+            {
+              role: 'assistant',
+              content: [
+                { type: 'text', text: '' },
+                { type: 'tool_use', id: 'tool_123', name: 'get_weather', arguments: { city: 'San Francisco' } },
               ],
             },
+            { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tool_123', result: '{"temp":18}' }] },
+            { role: 'user', content: 'And tomorrow?' },
           ],
         };
 
         const result = transformArgs(args, 'anthropic');
-        expect(result).toEqual(args);
-        expect(result.messages).toEqual(args.messages);
+        expect(result.messages).toEqual([
+          { role: 'user', content: 'Weather in San Francisco?' },
+          {
+            role: 'assistant',
+            content: [{ type: 'tool_use', id: 'tool_123', name: 'get_weather', input: { city: 'San Francisco' } }],
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'tool_123', content: '{"temp":18}' },
+              { type: 'text', text: 'And tomorrow?' },
+            ],
+          },
+        ]);
+      });
+
+      it('should transform tools to input_schema and map generation options', () => {
+        const args: GenerateArgs = {
+          messages: [{ role: 'user', content: 'Hello' }],
+          tools: [{
+            name: 'get_weather',
+            description: 'Get weather',
+            parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+          }],
+          max_new_tokens: 500,
+          temperature: 0.2,
+          stop: ['END'],
+          stream: true,
+          repetition_penalty: 1.1,
+          enable_thinking: false,
+        };
+
+        expect(transformArgs(args, 'anthropic')).toEqual({
+          messages: [{ role: 'user', content: 'Hello' }],
+          tools: [{
+            name: 'get_weather',
+            description: 'Get weather',
+            input_schema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+          }],
+          max_tokens: 500,
+          temperature: 0.2,
+          stop_sequences: ['END'],
+          stream: true,
+        });
+      });
+
+      it('should default max_tokens', () => {
+        const result = transformArgs({ messages: [{ role: 'user', content: 'Hello' }] }, 'anthropic');
+        expect(result.max_tokens).toBe(1024);
       });
     });
 
@@ -329,20 +463,92 @@ describe('Message Transformer', () => {
         
         expect(result.temperature).toBe(0.7);
         expect(result.top_p).toBe(0.9);
-        expect(result.stop).toEqual(['END']);
+      });
+
+      it('should not send seed or stop, which the Responses API rejects', () => {
+        const args: GenerateArgs = {
+          messages: [{ role: 'user', content: 'test' }],
+          seed: 42,
+          stop: ['END'],
+        };
+
+        const result = transformArgs(args, 'openai');
+
+        expect(result).not.toHaveProperty('seed');
+        expect(result).not.toHaveProperty('stop');
+        expect(transformArgs(args, 'openai-chat')).toMatchObject({ seed: 42, stop: ['END'] });
+      });
+
+      it('should not send options of the on-device runtime', () => {
+        const args: GenerateArgs = {
+          messages: [{ role: 'user', content: 'test' }],
+          top_k: 20,
+          repetition_penalty: 1.1,
+          enable_thinking: false,
+        };
+
+        const result = transformArgs(args, 'openai');
+
+        expect(result).not.toHaveProperty('top_k');
+        expect(result).not.toHaveProperty('repetition_penalty');
+        expect(result).not.toHaveProperty('enable_thinking');
       });
     });
   });
 
   describe('transformResponse', () => {
+    describe('OpenAI Chat Completions provider', () => {
+      it('should transform the message of the first choice', () => {
+        const response = {
+          choices: [{
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: 'Checking.',
+              tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search', arguments: '{"query":"test"}' } }],
+            },
+            finish_reason: 'tool_calls',
+          }],
+        };
+
+        expect(transformResponse(response, 'openai-chat')).toEqual([{
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Checking.' },
+            { type: 'tool_use', id: 'call_1', name: 'search', arguments: { query: 'test' } },
+          ],
+        }]);
+      });
+
+      it('should return an empty array without choices', () => {
+        expect(transformResponse({ choices: [] }, 'openai-chat')).toEqual([]);
+      });
+    });
+
     describe('Anthropic provider', () => {
-      it('should return empty array for Anthropic provider', () => {
+      it('should transform content blocks to an assistant message', () => {
         const response = {
-          content: [{ type: 'text', text: 'Hello' }],
+          type: 'message',
+          content: [
+            { type: 'thinking', thinking: 'Hmm' },
+            { type: 'text', text: 'Checking.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'search', input: { query: 'test' } },
+          ],
         };
 
-        const result = transformResponse(response, 'anthropic');
-        expect(result).toEqual([]);
+        expect(transformResponse(response, 'anthropic')).toEqual([{
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Checking.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'search', arguments: { query: 'test' } },
+          ],
+        }]);
+      });
+
+      it('should return string content for a single text block', () => {
+        const response = { content: [{ type: 'text', text: 'Hello' }] };
+
+        expect(transformResponse(response, 'anthropic')).toEqual([{ role: 'assistant', content: 'Hello' }]);
       });
     });
 
@@ -484,6 +690,176 @@ describe('Message Transformer', () => {
     });
   });
 
+  describe('transformStopReason', () => {
+    it('should map Anthropic stop reasons to finish reasons', () => {
+      expect(transformStopReason('end_turn')).toBe('stop');
+      expect(transformStopReason('stop_sequence')).toBe('stop');
+      expect(transformStopReason('max_tokens')).toBe('length');
+      expect(transformStopReason('tool_use')).toBe('tool_calls');
+      expect(transformStopReason('refusal')).toBe('content_filter');
+      expect(transformStopReason(null)).toBeUndefined();
+    });
+  });
+
+  describe('transformStreamEvent', () => {
+    describe('OpenAI Chat Completions provider', () => {
+      const chunk = (delta: object, finishReason: string | null = null) => ({
+        object: 'chat.completion.chunk',
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      });
+
+      it('should transform delta chunks to stream parts', () => {
+        const state = createStreamTransformState();
+        const events = [
+          chunk({ role: 'assistant', content: '' }),
+          chunk({ reasoning_content: 'Hmm' }),
+          chunk({ content: 'Checking.' }),
+          chunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'search', arguments: '' } }] }),
+          chunk({ tool_calls: [{ index: 0, function: { arguments: '{"query":' } }] }),
+          chunk({ tool_calls: [{ index: 0, function: { arguments: '"test"}' } }] }),
+          chunk({}, 'tool_calls'),
+          { object: 'chat.completion.chunk', choices: [], usage: { prompt_tokens: 25, completion_tokens: 15, total_tokens: 40 } },
+        ];
+
+        expect(events.flatMap(event => transformStreamEvent(event, 'openai-chat', state))).toEqual([
+          { type: 'reasoning-delta', text: 'Hmm' },
+          { type: 'text-delta', text: 'Checking.' },
+          { type: 'tool-call-delta', index: 0, id: 'call_1', name: 'search', argumentsDelta: '' },
+          { type: 'tool-call-delta', index: 0, argumentsDelta: '{"query":' },
+          { type: 'tool-call-delta', index: 0, argumentsDelta: '"test"}' },
+          { type: 'usage', usage: { promptTokens: 25, completionTokens: 15, totalTokens: 40 } },
+          { type: 'finish', finishReason: 'tool_calls' },
+        ]);
+      });
+
+      it('should hold back the finish reason until usage arrives', () => {
+        const state = createStreamTransformState();
+
+        expect(transformStreamEvent(chunk({ content: 'Hi' }, 'length'), 'openai-chat', state))
+          .toEqual([{ type: 'text-delta', text: 'Hi' }]);
+        expect(state.finishReason).toBe('length');
+      });
+
+      it('should transform errors to error parts', () => {
+        const parts = transformStreamEvent(
+          { error: { message: 'Slow down', type: 'invalid_request_error', code: 'rate_limit_exceeded' } },
+          'openai-chat',
+          createStreamTransformState()
+        );
+
+        expect(parts![0]).toMatchObject({ type: 'error', error: { message: 'Slow down', statusCode: 429, code: 'rate_limit_exceeded' } });
+      });
+
+      it('should return undefined for events that are not native', () => {
+        expect(transformStreamEvent({ type: 'text-delta', text: 'Hi' }, 'openai-chat', createStreamTransformState()))
+          .toBeUndefined();
+      });
+    });
+
+    describe('OpenAI provider', () => {
+      it('should transform Responses API events to stream parts', () => {
+        const state = createStreamTransformState();
+        const events = [
+          { type: 'response.created', response: { id: 'resp_1', status: 'in_progress', output: [] } },
+          { type: 'response.reasoning_summary_text.delta', output_index: 0, delta: 'Hmm' },
+          { type: 'response.output_text.delta', output_index: 1, content_index: 0, delta: 'Checking.' },
+          { type: 'response.output_item.added', output_index: 2, item: { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'search', arguments: '' } },
+          { type: 'response.function_call_arguments.delta', output_index: 2, item_id: 'fc_1', delta: '{"query":' },
+          { type: 'response.function_call_arguments.done', output_index: 2, item_id: 'fc_1', arguments: '{"query":' },
+          { type: 'response.completed', response: { id: 'resp_1', status: 'completed', output: [], usage: { input_tokens: 25, output_tokens: 15, total_tokens: 40 } } },
+        ];
+
+        expect(events.flatMap(event => transformStreamEvent(event, 'openai', state))).toEqual([
+          { type: 'reasoning-delta', text: 'Hmm' },
+          { type: 'text-delta', text: 'Checking.' },
+          { type: 'tool-call-delta', index: 0, id: 'call_1', name: 'search', argumentsDelta: '' },
+          { type: 'tool-call-delta', index: 0, argumentsDelta: '{"query":' },
+          { type: 'usage', usage: { promptTokens: 25, completionTokens: 15, totalTokens: 40 } },
+          { type: 'finish', finishReason: 'tool_calls' },
+        ]);
+      });
+
+      it('should finish incomplete responses with their reason', () => {
+        const parts = transformStreamEvent(
+          { type: 'response.incomplete', response: { status: 'incomplete', output: [], incomplete_details: { reason: 'max_output_tokens' } } },
+          'openai',
+          createStreamTransformState()
+        );
+
+        expect(parts).toEqual([{ type: 'finish', finishReason: 'length' }]);
+      });
+
+      it('should transform failed responses and error events to error parts', () => {
+        const failed = transformStreamEvent(
+          { type: 'response.failed', response: { status: 'failed', output: [], error: { code: 'server_error', message: 'Boom' } } },
+          'openai',
+          createStreamTransformState()
+        );
+        const error = transformStreamEvent(
+          { type: 'error', code: 'rate_limit_exceeded', message: 'Slow down' },
+          'openai',
+          createStreamTransformState()
+        );
+
+        expect(failed![0]).toMatchObject({ type: 'error', error: { message: 'Boom', statusCode: 500, code: 'server_error' } });
+        expect(error![0]).toMatchObject({ type: 'error', error: { message: 'Slow down', statusCode: 429, code: 'rate_limit_exceeded' } });
+      });
+
+      it('should return undefined for events that are not native', () => {
+        expect(transformStreamEvent({ type: 'text-delta', text: 'Hi' }, 'openai', createStreamTransformState()))
+          .toBeUndefined();
+        expect(transformStreamEvent({ type: 'error', error: { message: 'Overloaded' } }, 'openai', createStreamTransformState()))
+          .toBeUndefined();
+      });
+    });
+
+    describe('Anthropic provider', () => {
+      it('should transform text, thinking and tool use events to stream parts', () => {
+        const state = createStreamTransformState();
+        const events = [
+          { type: 'message_start', message: { usage: { input_tokens: 25, output_tokens: 1 } } },
+          { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Hmm' } },
+          { type: 'content_block_start', index: 1, content_block: { type: 'text', text: '' } },
+          { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Checking.' } },
+          { type: 'content_block_start', index: 2, content_block: { type: 'tool_use', id: 'toolu_1', name: 'search', input: {} } },
+          { type: 'content_block_delta', index: 2, delta: { type: 'input_json_delta', partial_json: '{"query":' } },
+          { type: 'content_block_stop', index: 2 },
+          { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 15 } },
+          { type: 'message_stop' },
+        ];
+
+        expect(events.flatMap(event => transformStreamEvent(event, 'anthropic', state))).toEqual([
+          { type: 'reasoning-delta', text: 'Hmm' },
+          { type: 'text-delta', text: 'Checking.' },
+          { type: 'tool-call-delta', index: 0, id: 'toolu_1', name: 'search', argumentsDelta: '' },
+          { type: 'tool-call-delta', index: 0, argumentsDelta: '{"query":' },
+          { type: 'usage', usage: { promptTokens: 25, completionTokens: 15, totalTokens: 40 } },
+          { type: 'finish', finishReason: 'tool_calls' },
+        ]);
+      });
+
+      it('should transform error events to error parts', () => {
+        const parts = transformStreamEvent(
+          { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+          'anthropic',
+          createStreamTransformState()
+        );
+
+        expect(parts).toHaveLength(1);
+        expect(parts![0]).toMatchObject({
+          type: 'error',
+          error: { message: 'Overloaded', statusCode: 529, code: 'overloaded_error' },
+        });
+      });
+
+      it('should return undefined for events that are not native', () => {
+        expect(transformStreamEvent({ token: 'Hi', isLast: false }, 'anthropic', createStreamTransformState()))
+          .toBeUndefined();
+      });
+    });
+  });
+
   describe('transformMessagesToProvider (backward compatibility)', () => {
     it('should return messages unchanged for Anthropic provider', () => {
       const messages: Message[] = [
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MockProvider } from '../../src/providers/mock';
+import { createAgentSession } from '../../src/core/agent-session';
+import { EventEmitter } from '../../src/utils/event-emitter';
+import {
+  ProviderAPIError,
+  ProviderCancelledError,
+  ProviderError,
+  MockProviderConfig,
+} from '../../src/types/provider';
+import type { StreamPart } from '../../src/types/session';
+import type { Workflow } from '../../src/types/agent-session';
+
+async function readParts(stream: AsyncIterable<StreamPart>): Promise<StreamPart[]> {
+  const parts: StreamPart[] = [];
+  for await (const part of stream) {
+    parts.push(part);
+  }
+  return parts;
+}
+
+describe('MockProvider', () => {
+  let eventEmitter: EventEmitter;
+
+  async function createProvider(responses: MockProviderConfig['responses']): Promise<MockProvider> {
+    const provider = new MockProvider({ runtime: 'mock', model: 'mock-model', responses }, eventEmitter);
+    await provider.initialize();
+    return provider;
+  }
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter();
+  });
+
+  it('should stream scripted text word by word', async () => {
+    const provider = await createProvider([{ text: 'Hello there world' }]);
+
+    const response = await provider.generate({ messages: [{ role: 'user', content: 'Hi' }] });
+    if (response.type !== 'streaming') throw new Error('Expected streaming response');
+
+    expect(await readParts(response.stream)).toEqual([
+      { type: 'text-delta', text: 'Hello ' },
+      { type: 'text-delta', text: 'there ' },
+      { type: 'text-delta', text: 'world' },
+      { type: 'finish', finishReason: 'stop' },
+    ]);
+  });
+
+  it('should return complete responses with tool calls when streaming is disabled', async () => {
+    const provider = await createProvider([{
+      toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Oslo' } }],
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    }]);
+
+    const response = await provider.generate({ messages: [{ role: 'user', content: 'Weather?' }], stream: false });
+
+    expect(response).toEqual({
+      type: 'complete',
+      content: '',
+      toolCalls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }],
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      finishReason: 'tool_calls',
+    });
+  });
+
+  it('should record the arguments of every call', async () => {
+    const provider = await createProvider(() => ({ text: 'OK' }));
+
+    await provider.generate({ messages: [{ role: 'user', content: 'First' }] });
+    await provider.generate({ messages: [{ role: 'user', content: 'Second' }], temperature: 0 });
+
+    expect(provider.calls).toEqual([
+      { messages: [{ role: 'user', content: 'First' }] },
+      { messages: [{ role: 'user', content: 'Second' }], temperature: 0 },
+    ]);
+  });
+
+  it('should reject with scripted errors and end streams with stream errors', async () => {
+    const provider = await createProvider([
+      { error: 'Service unavailable' },
+      { text: 'Partial', streamError: new ProviderAPIError('Overloaded', 529) },
+    ]);
+
+    await expect(provider.generate({ messages: [] })).rejects.toThrow('Service unavailable');
+
+    const response = await provider.generate({ messages: [] });
+    if (response.type !== 'streaming') throw new Error('Expected streaming response');
+    const parts = await readParts(response.stream);
+    expect(parts[0]).toEqual({ type: 'text-delta', text: 'Partial' });
+    expect(parts[1]).toMatchObject({ type: 'error', error: { message: 'Overloaded', statusCode: 529 } });
+  });
+
+  it('should throw when no scripted response is left', async () => {
+    const provider = await createProvider([{ text: 'Only one' }]);
+    await provider.generate({ messages: [] });
+
+    await expect(provider.generate({ messages: [] })).rejects.toThrow(ProviderError);
+    provider.reset();
+    await expect(provider.generate({ messages: [] })).resolves.toMatchObject({ type: 'streaming' });
+  });
+
+  describe('delays', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should wait before responding', async () => {
+      const provider = await createProvider([{ text: 'Late', delayMs: 1000 }]);
+
+      let resolved = false;
+      const pending = provider.generate({ messages: [] }).then(response => {
+        resolved = true;
+        return response;
+      });
+      await vi.advanceTimersByTimeAsync(999);
+      expect(resolved).toBe(false);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(pending).resolves.toMatchObject({ type: 'streaming' });
+    });
+
+    it('should stop waiting when the signal is aborted', async () => {
+      const provider = await createProvider([{ text: 'Late', delayMs: 1000 }]);
+      const controller = new AbortController();
+
+      const pending = provider.generate({ messages: [], signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(ProviderCancelledError);
+    });
+  });
+
+  it('should run a workflow end to end through a session', async () => {
+    const session = await createAgentSession({
+      models: [{
+        runtime: 'mock',
+        model: 'mock-model',
+        responses: [
+          { toolCalls: [{ name: 'get_weather', arguments: { city: 'Oslo' } }] },
+          { text: 'It is 18°C in Oslo.' },
+        ],
+      }],
+    });
+    const getWeather = vi.fn().mockResolvedValue('{"temp":18}');
+    const workflow: Workflow = {
+      id: 'weather',
+      steps: [
+        { id: 'lookup', prompt: 'Look up the weather', model: 'mock-model', toolChoice: ['get_weather'] },
+        { id: 'answer', prompt: 'Answer the question', model: 'mock-model', dependentSteps: ['lookup'] },
+      ],
+      tools: [{
+        definition: {
+          name: 'get_weather',
+          description: 'Get the weather of a city',
+          parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+        },
+        implementation: getWeather,
+      }],
+    };
+
+    const iterations = [];
+    for await (const iteration of session.runWorkflow('Weather in Oslo?', workflow)) {
+      iterations.push(iteration);
+    }
+
+    expect(getWeather).toHaveBeenCalledWith({ city: 'Oslo' }, expect.anything());
+    expect(iterations.at(-1)).toMatchObject({ stepId: 'answer', content: 'It is 18°C in Oslo.' });
+
+    const provider = await session._providerManager.getProvider('mock-model') as MockProvider;
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[0]!.tools?.map(tool => tool.name)).toEqual(['get_weather']);
+
+    await session.dispose();
+  });
+});
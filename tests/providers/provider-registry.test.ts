@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { registerProviderFactory, getProviderFactory } from '../../src/providers/registry';
+import { InferenceProviderManager } from '../../src/providers/manager';
+import { MockProvider } from '../../src/providers/mock';
+import { createSession } from '../../src/core/session';
+import { EventEmitter } from '../../src/utils/event-emitter';
+import { InferenceProvider, ProviderConfigurationError } from '../../src/types/provider';
+
+declare module '../../src/types/provider' {
+  interface InferenceProviderConfigMap {
+    'echo': { runtime: 'echo'; model: string; prefix?: string };
+  }
+}
+
+function createEchoProvider(model: string, prefix: string): InferenceProvider {
+  let initialized = false;
+  return {
+    initialize: vi.fn(async () => { initialized = true; }),
+    generate: vi.fn(async (args) => ({
+      type: 'complete' as const,
+      content: `${prefix}${args.messages.at(-1)?.content ?? ''}`,
+      finishReason: 'stop' as const,
+    })),
+    dispose: vi.fn(async () => { initialized = false; }),
+    isInitialized: () => initialized,
+    getModelName: () => model,
+  };
+}
+
+describe('Provider registry', () => {
+  it('should create and initialize providers with registered factories', async () => {
+    const factory = vi.fn((config: { runtime: 'echo'; model: string; prefix?: string }) =>
+      createEchoProvider(config.model, config.prefix ?? '')
+    );
+    registerProviderFactory('echo', factory);
+
+    const eventEmitter = new EventEmitter();
+    const manager = new InferenceProviderManager(eventEmitter);
+    await manager.registerModels([{ runtime: 'echo', model: 'echo-model', prefix: 'Echo: ' }]);
+
+    expect(factory).toHaveBeenCalledWith({ runtime: 'echo', model: 'echo-model', prefix: 'Echo: ' }, eventEmitter);
+    const provider = await manager.getProvider('echo-model');
+    expect(provider.isInitialized()).toBe(true);
+  });
+
+  it('should use custom providers in sessions', async () => {
+    registerProviderFactory('echo', config => createEchoProvider(config.model, config.prefix ?? ''));
+
+    const session = await createSession({
+      models: [{ runtime: 'echo', model: 'echo-model', prefix: '> ' }],
+    });
+    const response = await session.createResponse('echo-model', {
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+
+    expect(response).toMatchObject({ type: 'complete', content: '> Hello' });
+    await session.dispose();
+  });
+
+  it('should replace the factory of built-in runtimes', async () => {
+    const builtIn = getProviderFactory('mock');
+    const factory = vi.fn(builtIn);
+    registerProviderFactory('mock', factory);
+
+    try {
+      const manager = new InferenceProviderManager(new EventEmitter());
+      await manager.registerModels([{ runtime: 'mock', model: 'mock-model', responses: [] }]);
+
+      expect(factory).toHaveBeenCalledOnce();
+      expect(await manager.getProvider('mock-model')).toBeInstanceOf(MockProvider);
+    } finally {
+      registerProviderFactory('mock', builtIn);
+    }
+  });
+
+  it('should reject models with unknown runtimes', async () => {
+    const manager = new InferenceProviderManager(new EventEmitter());
+
+    await expect(
+      manager.registerModels([{ runtime: 'unknown', model: 'm' } as any])
+    ).rejects.toThrow(ProviderConfigurationError);
+    expect(() => getProviderFactory('unknown')).toThrow(/Unknown runtime: unknown\. Registered runtimes: .*mock/);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { InferenceProviderManager } from '../../src/providers/manager';
+import { RouterProvider } from '../../src/providers/router';
+import { MockProvider } from '../../src/providers/mock';
+import { createAgentSession } from '../../src/core/agent-session';
+import { EventEmitter } from '../../src/utils/event-emitter';
+import { ProviderError, ModelRouterConfig } from '../../src/types/provider';
+import type { SessionEvent } from '../../src/types/events';
+import type { GenerateArgs } from '../../src/types/worker';
+import type { Workflow } from '../../src/types/agent-session';
+
+const shortPrompt: GenerateArgs = { messages: [{ role: 'user', content: 'Is this spam?' }] };
+const longPrompt: GenerateArgs = { messages: [{ role: 'user', content: 'word '.repeat(1000) }] };
+const weatherTool = {
+  name: 'get_weather',
+  description: 'Get the weather of a city',
+  parameters: { type: 'object' as const, properties: { city: { type: 'string' } }, required: ['city'] },
+};
+
+describe('RouterProvider', () => {
+  let eventEmitter: EventEmitter;
+  let events: SessionEvent[];
+
+  function createRouter(config: Partial<ModelRouterConfig> & Pick<ModelRouterConfig, 'rules'>): RouterProvider {
+    return new RouterProvider(
+      { name: 'auto', capabilities: { webgpu: true, deviceMemory: 8 }, ...config },
+      vi.fn(),
+      eventEmitter
+    );
+  }
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter();
+    events = [];
+    eventEmitter.on('*', event => events.push(event));
+  });
+
+  it('should pick the model of the first matching rule', () => {
+    const router = createRouter({
+      rules: [
+        { model: 'device', when: { maxPromptTokens: 200, tools: false, thinking: false } },
+        { model: 'cloud' },
+      ],
+    });
+
+    expect(router.selectModel(shortPrompt)).toBe('device');
+    expect(router.selectModel(longPrompt)).toBe('cloud');
+    expect(router.selectModel({ ...shortPrompt, tools: [weatherTool] })).toBe('cloud');
+    expect(router.selectModel({ ...shortPrompt, enable_thinking: true })).toBe('cloud');
+    expect(events.at(-1)).toEqual({
+      type: 'route:selected',
+      route: 'auto',
+      modelName: 'cloud',
+      rule: 1,
+      promptTokens: expect.any(Number),
+      timestamp: expect.any(Number),
+    });
+  });
+
+  it('should match on device capabilities', () => {
+    const rules = [
+      { model: 'device', when: { webgpu: true, minDeviceMemory: 4 } },
+      { model: 'cloud' },
+    ];
+
+    expect(createRouter({ rules }).selectModel(shortPrompt)).toBe('device');
+    expect(createRouter({ rules, capabilities: { webgpu: false } }).selectModel(shortPrompt)).toBe('cloud');
+    expect(createRouter({ rules, capabilities: { webgpu: true } }).selectModel(shortPrompt)).toBe('cloud');
+  });
+
+  it('should match with custom conditions', () => {
+    const router = createRouter({
+      rules: [
+        { model: 'classifier', when: { match: ({ args }) => args.temperature === 0 } },
+        { model: 'cloud' },
+      ],
+    });
+
+    expect(router.selectModel({ ...shortPrompt, temperature: 0 })).toBe('classifier');
+    expect(router.selectModel(shortPrompt)).toBe('cloud');
+  });
+
+  it('should pick the cheapest or fastest model of a rule from the cost table', () => {
+    const costs = {
+      'large': { inputCost: 3, outputCost: 15, latencyMs: 400 },
+      'small': { inputCost: 0.15, outputCost: 0.6, latencyMs: 900 },
+    };
+    const rules = [{ model: ['unknown', 'large', 'small'] }];
+
+    expect(createRouter({ rules, costs }).selectModel(longPrompt)).toBe('small');
+    expect(createRouter({ rules, costs, prefer: 'latency' }).selectModel(longPrompt)).toBe('large');
+    expect(createRouter({ rules: [{ model: ['unknown', 'other'] }], costs }).selectModel(longPrompt)).toBe('unknown');
+  });
+
+  it('should throw when no rule matches', () => {
+    const router = createRouter({ rules: [{ model: 'device', when: { tools: true } }] });
+
+    expect(() => router.selectModel(shortPrompt)).toThrow(ProviderError);
+    expect(() => router.selectModel(shortPrompt)).toThrow('No rule of router auto matches the request');
+  });
+
+  it('should generate with the picked model or route', async () => {
+    const manager = new InferenceProviderManager(eventEmitter);
+    await manager.registerModels([
+      { runtime: 'mock', model: 'device', responses: () => ({ text: 'From device' }) },
+      { runtime: 'mock', model: 'cloud', responses: () => ({ text: 'From cloud' }) },
+    ]);
+    await manager.registerRoutes([{ name: 'cloud-first', models: ['cloud', 'device'] }]);
+    await manager.registerRouters([{
+      name: 'auto',
+      rules: [
+        { model: 'device', when: { maxPromptTokens: 200 } },
+        { model: 'cloud-first' },
+      ],
+    }]);
+    const router = await manager.getProvider('auto');
+
+    await expect(router.generate({ ...shortPrompt, stream: false })).resolves.toMatchObject({ content: 'From device' });
+    await expect(router.generate({ ...longPrompt, stream: false })).resolves.toMatchObject({ content: 'From cloud' });
+    await expect(manager.registerRouters([{ name: 'nested', rules: [{ model: 'auto' }] }]))
+      .rejects.toThrow('routers can only pick models and routes');
+  });
+
+  it('should route workflow steps by their requests', async () => {
+    const session = await createAgentSession({
+      models: [
+        { runtime: 'mock', model: 'device', responses: () => ({ text: 'spam' }) },
+        {
+          runtime: 'mock',
+          model: 'cloud',
+          responses: [{ toolCalls: [{ name: 'get_weather', arguments: { city: 'Oslo' } }] }],
+        },
+      ],
+      routers: [{
+        name: 'auto',
+        rules: [
+          { model: 'device', when: { tools: false } },
+          { model: 'cloud' },
+        ],
+      }],
+    });
+    const workflow: Workflow = {
+      id: 'triage',
+      steps: [
+        { id: 'classify', prompt: 'Classify the message', model: 'auto' },
+        { id: 'lookup', prompt: 'Look up the weather', model: 'auto', toolChoice: ['get_weather'], dependentSteps: ['classify'] },
+      ],
+      tools: [{
+        definition: weatherTool,
+        implementation: vi.fn().mockResolvedValue('{"temp":18}'),
+      }],
+    };
+
+    for await (const _iteration of session.runWorkflow('Weather in Oslo?', workflow)) {
+      // Run the workflow to completion
+    }
+
+    const device = await session._providerManager.getProvider('device') as MockProvider;
+    const cloud = await session._providerManager.getProvider('cloud') as MockProvider;
+    expect(device.calls).toHaveLength(1);
+    expect(cloud.calls).toHaveLength(1);
+    expect(cloud.calls[0]!.tools?.map(tool => tool.name)).toEqual(['get_weather']);
+
+    await session.dispose();
+  });
+});
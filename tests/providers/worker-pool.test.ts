@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DeviceProvider } from '../../src/providers/device';
+import { WorkerPool, WorkerPoolOptions } from '../../src/providers/worker-pool';
+import { DeviceProviderConfig, ProviderConfigurationError } from '../../src/types/provider';
+import { EventEmitter } from '../../src/utils/event-emitter';
+import type { SessionEvent } from '../../src/types/events';
+
+const config: DeviceProviderConfig = {
+  runtime: 'transformers-js',
+  model: 'onnx-community/Qwen3-0.6B-ONNX',
+  quantization: 'q4',
+  engine: 'webgpu',
+};
+
+let workers: FakeWorker[];
+
+// Acknowledges init, unload and dispose, and holds generate requests until the test finishes them
+class FakeWorker extends EventTarget {
+  loaded: string[] = [];
+  generating: Array<{ requestId: string; modelKey: string }> = [];
+  terminated = false;
+
+  constructor() {
+    super();
+    workers.push(this);
+  }
+
+  postMessage(message: any) {
+    if (message.type === 'init') {
+      this.loaded.push(message.modelKey);
+    } else if (message.type === 'unload') {
+      this.loaded = this.loaded.filter(modelKey => modelKey !== message.modelKey);
+    } else if (message.type === 'generate') {
+      this.generating.push({ requestId: message.requestId, modelKey: message.modelKey });
+      return;
+    }
+    this.reply({ type: 'ack', requestId: message.requestId });
+  }
+
+  finishAll() {
+    this.generating.splice(0).forEach(({ requestId }) => this.reply({ type: 'done', requestId }));
+  }
+
+  reply(data: any) {
+    setTimeout(() => this.dispatchEvent(new MessageEvent('message', { data })));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const request = { messages: [{ role: 'user' as const, content: 'Hi' }] };
+const settle = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('WorkerPool', () => {
+  let eventEmitter: EventEmitter;
+  let events: SessionEvent[];
+
+  async function createProviders(options: WorkerPoolOptions, overrides: Partial<DeviceProviderConfig>[]) {
+    const pool = new WorkerPool(options);
+    const providers = overrides.map(override => new DeviceProvider({ ...config, pool, ...override }, eventEmitter));
+    for (const provider of providers) {
+      await provider.initialize();
+    }
+    return { pool, providers };
+  }
+
+  beforeEach(() => {
+    workers = [];
+    eventEmitter = new EventEmitter();
+    events = [];
+    eventEmitter.on('*', event => events.push(event));
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should host several models in one worker', async () => {
+    const { pool, providers: [chat, classifier] } = await createProviders({}, [{}, { quantization: 'fp16' }]);
+
+    await chat!.generate(request);
+    await settle();
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0]!.loaded).toEqual([
+      'onnx-community/Qwen3-0.6B-ONNX|q4|webgpu',
+      'onnx-community/Qwen3-0.6B-ONNX|fp16|webgpu',
+    ]);
+    expect(workers[0]!.generating).toEqual([
+      { requestId: expect.any(String), modelKey: 'onnx-community/Qwen3-0.6B-ONNX|q4|webgpu' },
+    ]);
+
+    workers[0]!.finishAll();
+    await classifier!.generate(request);
+    expect(workers[0]!.generating.at(-1)?.modelKey).toBe('onnx-community/Qwen3-0.6B-ONNX|fp16|webgpu');
+    expect(pool.getStats()).toEqual({
+      workers: 1,
+      memoryMB: 344 + 1374,
+      models: [
+        { model: config.model, replicas: 1, memoryMB: 344 },
+        { model: config.model, replicas: 1, memoryMB: 1374 },
+      ],
+    });
+  });
+
+  it('should load replicas of a model for concurrent requests', async () => {
+    const { providers: [provider] } = await createProviders({ maxWorkers: 2 }, [{ replicas: 2 }]);
+
+    await provider!.generate(request);
+    await provider!.generate(request);
+    await settle();
+
+    expect(workers).toHaveLength(2);
+    expect(workers.map(worker => worker.generating.length)).toEqual([1, 1]);
+  });
+
+  it('should unload the least recently used idle model to fit the memory limit and reload it on use', async () => {
+    const { providers: [first, second] } = await createProviders(
+      { maxMemoryMB: 1000 },
+      [{ memoryMB: 600 }, { quantization: 'fp16', memoryMB: 600 }]
+    );
+
+    expect(workers[0]!.loaded).toEqual(['onnx-community/Qwen3-0.6B-ONNX|fp16|webgpu']);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'worker:unloaded', reason: 'memory', modelName: config.model }));
+
+    await first!.generate(request);
+    await settle();
+
+    expect(workers[0]!.loaded).toEqual(['onnx-community/Qwen3-0.6B-ONNX|q4|webgpu']);
+    expect(workers[0]!.generating.at(-1)?.modelKey).toBe('onnx-community/Qwen3-0.6B-ONNX|q4|webgpu');
+    expect(second!.isInitialized()).toBe(true);
+  });
+
+  it('should unload idle models after the idle timeout and terminate empty workers', async () => {
+    const { providers: [provider] } = await createProviders({ idleTimeoutMs: 20 }, [{}]);
+
+    await settle(50);
+
+    expect(workers[0]!.loaded).toEqual([]);
+    expect(workers[0]!.terminated).toBe(true);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'worker:unloaded', reason: 'idle' }));
+
+    await provider!.generate(request);
+    await settle();
+
+    expect(workers).toHaveLength(2);
+    expect(workers[1]!.generating).toHaveLength(1);
+  });
+
+  it('should reject models larger than the memory limit', async () => {
+    const pool = new WorkerPool({ maxMemoryMB: 300 });
+    const provider = new DeviceProvider({ ...config, pool }, eventEmitter);
+
+    await expect(provider.initialize()).rejects.toThrow(ProviderConfigurationError);
+    expect(() => new DeviceProvider({ ...config, replicas: 2 }, eventEmitter)).toThrow('requires a worker pool');
+  });
+
+  it('should unload a shared model when its last provider is disposed', async () => {
+    const { pool, providers: [first, second] } = await createProviders({}, [{}, {}]);
+
+    expect(workers[0]!.loaded).toHaveLength(1);
+
+    await first!.dispose();
+    expect(workers[0]!.loaded).toHaveLength(1);
+
+    await second!.dispose();
+    expect(workers[0]!.terminated).toBe(true);
+    expect(pool.getStats().workers).toBe(0);
+  });
+});
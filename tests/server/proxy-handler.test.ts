@@ -0,0 +1,435 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ProxyHandler,
+  validateProxyRequest,
+  formatStreamPart,
+  createAnthropicAdapter,
+  createFetchHandler,
+  createNodeHandler,
+} from '../../src/server';
+import type { ProxyAdapter, NodeProxyResponse } from '../../src/server';
+import { CloudProvider } from '../../src/providers/cloud';
+import { EventEmitter } from '../../src/utils/event-emitter';
+import { ProviderAPIError } from '../../src/types/provider';
+import type { StreamPart } from '../../src/types/session';
+
+const PROXY_URL = 'https://app.example.com/api/chat';
+const VENDOR_URL = 'https://api.anthropic.com/v1/messages';
+
+// Mock vendor backend speaking the Anthropic Messages API
+const vendorEvents = [
+  { type: 'message_start', message: { usage: { input_tokens: 9, output_tokens: 1 } } },
+  { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' world' } },
+  { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } },
+  { type: 'message_stop' },
+];
+
+function sseResponse(events: object[]): Response {
+  const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function postRequest(body: unknown, signal?: AbortSignal): Request {
+  return new Request(PROXY_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    ...(signal && { signal }),
+  });
+}
+
+function fakeNodeResponse() {
+  const closeListeners: Array<() => void> = [];
+  const res = {
+    status: 0,
+    headers: {} as Record<string, string>,
+    written: [] as string[],
+    headersSent: false,
+    writableEnded: false,
+    writeHead: vi.fn((status: number, headers: Record<string, string>) => {
+      res.status = status;
+      res.headers = headers;
+      res.headersSent = true;
+    }),
+    write: vi.fn((chunk: string) => {
+      res.written.push(chunk);
+    }),
+    end: vi.fn((chunk?: string) => {
+      if (chunk) res.written.push(chunk);
+      res.writableEnded = true;
+    }),
+    on: vi.fn((_event: 'close', listener: () => void) => {
+      closeListeners.push(listener);
+    }),
+    close: () => closeListeners.forEach(listener => listener()),
+  };
+  return res satisfies NodeProxyResponse;
+}
+
+describe('Proxy server', () => {
+  const vendorFetch = vi.fn();
+
+  beforeEach(() => {
+    vendorFetch.mockReset();
+    vendorFetch.mockImplementation(async () => sseResponse(vendorEvents));
+    global.fetch = vendorFetch;
+  });
+
+  describe('validateProxyRequest', () => {
+    it('should keep the fields of GenerateArgs and drop others', () => {
+      const request = validateProxyRequest({
+        model: 'claude-test',
+        messages: [{ role: 'user', content: 'Hello' }],
+        temperature: 0.5,
+        stream: true,
+        apiKey: 'not-forwarded',
+      });
+
+      expect(request).toEqual({
+        model: 'claude-test',
+        messages: [{ role: 'user', content: 'Hello' }],
+        temperature: 0.5,
+        stream: true,
+      });
+    });
+
+    it.each([
+      [null, 'Request body must be a JSON object'],
+      [{ messages: [{ role: 'user', content: 'Hi' }] }, 'model must be a non-empty string'],
+      [{ model: 'm'.repeat(257), messages: [{ role: 'user', content: 'Hi' }] }, 'model must be at most 256 letters'],
+      [{ model: 'gpt 4\n', messages: [{ role: 'user', content: 'Hi' }] }, 'model must be at most 256 letters'],
+      [{ model: 'm', messages: [] }, 'messages must be a non-empty array'],
+      [{ model: 'm', messages: [{ role: 'tool', content: 'Hi' }] }, 'messages[0].role must be one of user, assistant or system'],
+      [{ model: 'm', messages: [{ role: 'user', content: 'Hi' }], temperature: '0.5' }, 'temperature must be a number'],
+      [{ model: 'm', messages: [{ role: 'user', content: 'Hi' }], stream: 'yes' }, 'stream must be a boolean'],
+    ])('should reject %j', (body, message) => {
+      expect(() => validateProxyRequest(body)).toThrow(message);
+    });
+
+    it('should accept model names of vendors and OpenAI-compatible servers', () => {
+      for (const model of ['claude-3-5-sonnet-20241022', 'meta-llama/Llama-3.1-8B', 'qwen2.5:7b']) {
+        expect(validateProxyRequest({ model, messages: [{ role: 'user', content: 'Hi' }] }).model).toBe(model);
+      }
+    });
+
+    it('should reject models that are not allowed', () => {
+      expect(() => validateProxyRequest(
+        { model: 'claude-opus', messages: [{ role: 'user', content: 'Hi' }] },
+        ['claude-haiku']
+      )).toThrow('Model claude-opus is not allowed');
+    });
+  });
+
+  describe('formatStreamPart', () => {
+    it('should format parts as data lines and errors as error lines', () => {
+      expect(formatStreamPart({ type: 'text-delta', text: 'Hi', ttfbMs: 12 }))
+        .toBe('data: {"type":"text-delta","text":"Hi"}\n\n');
+      expect(formatStreamPart({ type: 'error', error: new ProviderAPIError('Overloaded', 529, 'overloaded_error') }))
+        .toBe('error: {"message":"Overloaded","statusCode":529,"code":"overloaded_error"}\n\n');
+    });
+  });
+
+  describe('createFetchHandler', () => {
+    const handler = createFetchHandler({
+      adapter: createAnthropicAdapter({ apiKey: 'sk-ant-test', maxRetries: 1 }),
+    });
+
+    it('should call the vendor and stream its response as stream parts', async () => {
+      const response = await handler(postRequest({
+        model: 'claude-test',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hello' },
+        ],
+      }));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(await response.text()).toBe([
+        'data: {"type":"text-delta","text":"Hello"}\n\n',
+        'data: {"type":"text-delta","text":" world"}\n\n',
+        'data: {"type":"usage","usage":{"promptTokens":9,"completionTokens":2,"totalTokens":11}}\n\n',
+        'data: {"type":"finish","finishReason":"stop"}\n\n',
+      ].join(''));
+
+      const [url, init] = vendorFetch.mock.calls[0]!;
+      expect(url).toBe(VENDOR_URL);
+      expect(init.headers['x-api-key']).toBe('sk-ant-test');
+      expect(JSON.parse(init.body)).toMatchObject({
+        model: 'claude-test',
+        system: 'Be brief.',
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+    });
+
+    it('should answer with JSON when streaming is disabled', async () => {
+      const response = await handler(postRequest({
+        model: 'claude-test',
+        messages: [{ role: 'user', content: 'Hello' }],
+        stream: false,
+      }));
+
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+      expect(await response.json()).toEqual({
+        content: 'Hello world',
+        usage: { promptTokens: 9, completionTokens: 2, totalTokens: 11 },
+        finish_reason: 'stop',
+      });
+    });
+
+    it('should reject invalid requests without calling the vendor', async () => {
+      const response = await handler(postRequest({ model: 'claude-test' }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: { message: 'messages must be a non-empty array', statusCode: 400, code: 'INVALID_REQUEST' },
+      });
+      expect(vendorFetch).not.toHaveBeenCalled();
+    });
+
+    it('should pass vendor errors on with their status', async () => {
+      vendorFetch.mockResolvedValueOnce(new Response('{"type":"error"}', { status: 401 }));
+
+      const response = await handler(postRequest({
+        model: 'claude-test',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should send errors in the middle of the stream as error lines', async () => {
+      vendorFetch.mockResolvedValueOnce(sseResponse([
+        vendorEvents[2]!,
+        { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+      ]));
+
+      const response = await handler(postRequest({
+        model: 'claude-test',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(await response.text()).toBe(
+        'data: {"type":"text-delta","text":"Hello"}\n\n' +
+        'error: {"message":"Overloaded","statusCode":529,"code":"overloaded_error"}\n\n'
+      );
+    });
+
+    it('should answer bodies over the size limit with a 413', async () => {
+      const adapter: ProxyAdapter = { generate: vi.fn() };
+      const limitedHandler = createFetchHandler({ adapter, maxBodyBytes: 64 });
+      const messages = [{ role: 'user', content: 'x'.repeat(100) }];
+
+      const response = await limitedHandler(postRequest({ model: 'claude-test', messages }));
+
+      expect(response.status).toBe(413);
+      expect(await response.json()).toEqual({
+        error: { message: 'Request body exceeds 64 bytes', statusCode: 413, code: 'PAYLOAD_TOO_LARGE' },
+      });
+      expect(adapter.generate).not.toHaveBeenCalled();
+    });
+
+    it('should serve a CloudProvider end to end', async () => {
+      // The client reaches the proxy, the proxy reaches the mock vendor
+      global.fetch = vi.fn(async (url: string, init: RequestInit) =>
+        url === PROXY_URL ? handler(new Request(url, init)) : vendorFetch(url, init)
+      ) as any;
+
+      const client = new CloudProvider(
+        { runtime: 'anthropic', model: 'claude-test', proxyUrl: PROXY_URL },
+        new EventEmitter()
+      );
+      await client.initialize();
+
+      const response = await client.generate({
+        messages: [{ role: 'user', content: 'Hello' }],
+        stream: false,
+      });
+
+      expect(response).toEqual({
+        type: 'complete',
+        content: 'Hello world',
+        usage: { promptTokens: 9, completionTokens: 2, totalTokens: 11 },
+        finishReason: 'stop',
+      });
+    });
+  });
+
+  describe('createNodeHandler', () => {
+    it('should write the stream to a Node response', async () => {
+      const handler = createNodeHandler({
+        adapter: createAnthropicAdapter({ apiKey: 'sk-ant-test', maxRetries: 1 }),
+      });
+      const res = fakeNodeResponse();
+
+      // Express requests carry the parsed body
+      await handler(
+        { body: { model: 'claude-test', messages: [{ role: 'user', content: 'Hello' }] }, async *[Symbol.asyncIterator]() {} },
+        res
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers['Content-Type']).toBe('text/event-stream');
+      expect(res.written.join('')).toContain('data: {"type":"text-delta","text":"Hello"}\n\n');
+      expect(res.writableEnded).toBe(true);
+    });
+
+    it('should read the body from the request stream', async () => {
+      const handler = createNodeHandler({
+        adapter: createAnthropicAdapter({ apiKey: 'sk-ant-test', maxRetries: 1 }),
+      });
+      const res = fakeNodeResponse();
+      const body = JSON.stringify({ model: 'claude-test', messages: [{ role: 'user', content: 'Hello' }], stream: false });
+
+      await handler(
+        { async *[Symbol.asyncIterator]() { yield new TextEncoder().encode(body); } },
+        res
+      );
+
+      expect(JSON.parse(res.written.join(''))).toMatchObject({ content: 'Hello world' });
+    });
+
+    it('should answer with a 400 when the request stream errors', async () => {
+      const adapter: ProxyAdapter = { generate: vi.fn() };
+      const handler = createNodeHandler({ adapter });
+      const res = fakeNodeResponse();
+
+      await expect(handler(
+        { async *[Symbol.asyncIterator]() { throw new Error('aborted'); } },
+        res
+      )).resolves.toBeUndefined();
+
+      expect(res.status).toBe(400);
+      expect(JSON.parse(res.written.join(''))).toEqual({
+        error: { message: 'Request body could not be read: aborted', statusCode: 400, code: 'INVALID_REQUEST' },
+      });
+      expect(res.writableEnded).toBe(true);
+      expect(adapter.generate).not.toHaveBeenCalled();
+    });
+
+    it('should answer bodies over the size limit with a 413 and close the connection', async () => {
+      const adapter: ProxyAdapter = { generate: vi.fn() };
+      const handler = createNodeHandler({ adapter, maxBodyBytes: 16 });
+      const res = fakeNodeResponse();
+      const chunksRead: string[] = [];
+
+      await handler(
+        {
+          async *[Symbol.asyncIterator]() {
+            for (const chunk of ['{"model":', '"m","messages":', '[]}']) {
+              chunksRead.push(chunk);
+              yield chunk;
+            }
+          }
+        },
+        res
+      );
+
+      expect(res.status).toBe(413);
+      expect(res.headers['Connection']).toBe('close');
+      expect(JSON.parse(res.written.join(''))).toEqual({
+        error: { message: 'Request body exceeds 16 bytes', statusCode: 413, code: 'PAYLOAD_TOO_LARGE' },
+      });
+      expect(chunksRead).toHaveLength(2);
+      expect(adapter.generate).not.toHaveBeenCalled();
+    });
+
+    it('should end the response when the stream fails after the headers were sent', async () => {
+      const adapter: ProxyAdapter = {
+        async generate() {
+          async function* parts(): AsyncIterable<StreamPart> {
+            yield { type: 'text-delta', text: 'Hello' };
+          }
+          return { type: 'streaming', stream: parts() };
+        },
+      };
+      const handler = createNodeHandler({ adapter });
+      const res = fakeNodeResponse();
+      res.write.mockImplementationOnce(() => { throw new Error('Socket closed'); });
+
+      await expect(handler(
+        { body: { model: 'm', messages: [{ role: 'user', content: 'Hello' }] }, async *[Symbol.asyncIterator]() {} },
+        res
+      )).resolves.toBeUndefined();
+
+      expect(res.status).toBe(200);
+      expect(res.writableEnded).toBe(true);
+    });
+
+    it('should abort the vendor request when the client disconnects', async () => {
+      let vendorSignal: AbortSignal | undefined;
+      const adapter: ProxyAdapter = {
+        async generate(_request, signal) {
+          vendorSignal = signal;
+          async function* parts(): AsyncIterable<StreamPart> {
+            yield { type: 'text-delta', text: 'Hello' };
+            res.close();
+            yield { type: 'text-delta', text: ' world' };
+          }
+          return { type: 'streaming', stream: parts() };
+        },
+      };
+      const handler = createNodeHandler({ adapter });
+      const res = fakeNodeResponse();
+
+      await handler(
+        { body: { model: 'm', messages: [{ role: 'user', content: 'Hello' }] }, async *[Symbol.asyncIterator]() {} },
+        res
+      );
+
+      expect(vendorSignal?.aborted).toBe(true);
+      expect(res.written).toEqual(['data: {"type":"text-delta","text":"Hello"}\n\n']);
+    });
+  });
+
+  describe('VendorProxyAdapter', () => {
+    it('should keep the providers of the most recently used models only', async () => {
+      const providers = new Set<CloudProvider>();
+      const initialize = CloudProvider.prototype.initialize;
+      const spy = vi.spyOn(CloudProvider.prototype, 'initialize').mockImplementation(function (this: CloudProvider) {
+        providers.add(this);
+        return initialize.call(this);
+      });
+      const adapter = createAnthropicAdapter({ apiKey: 'sk-ant-test', maxRetries: 1, maxProviders: 2 });
+
+      try {
+        for (const model of ['claude-a', 'claude-b', 'claude-a', 'claude-c', 'claude-b']) {
+          await adapter.generate({ model, messages: [{ role: 'user', content: 'Hi' }], stream: false }, new AbortController().signal);
+        }
+      } finally {
+        spy.mockRestore();
+      }
+
+      // claude-a was used again, so claude-c replaced claude-b, which was then created anew
+      expect([...providers].map(provider => provider.getModelName())).toEqual(['claude-a', 'claude-b', 'claude-c', 'claude-b']);
+    });
+  });
+
+  describe('ProxyHandler', () => {
+    it('should stream complete responses of custom adapters', async () => {
+      const handler = new ProxyHandler({
+        adapter: {
+          async generate() {
+            return { type: 'complete', content: 'Hi', finishReason: 'stop' };
+          },
+        },
+      });
+
+      const result = await handler.handle(
+        { model: 'm', messages: [{ role: 'user', content: 'Hello' }] },
+        new AbortController().signal
+      );
+
+      const events: string[] = [];
+      for await (const event of result.body as AsyncIterable<string>) {
+        events.push(event);
+      }
+      expect(events).toEqual([
+        'data: {"type":"text-delta","text":"Hi"}\n\n',
+        'data: {"type":"finish","finishReason":"stop"}\n\n',
+      ]);
+    });
+  });
+});
@@ -2,7 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { WorkflowExecutor } from '../../src/workflow/executor'
 import { StepExecutor } from '../../src/workflow/step-executor'
 import { WorkflowStateManager } from '../../src/workflow/workflow-state'
-import type { AgentWorkflow, WorkflowStep } from '../../src/types/agent-session'
+import type { AgentWorkflow, Workflow, WorkflowStep } from '../../src/types/agent-session'
+import { WorkflowValidationError, WorkflowCancelledError } from '../../src/types/agent-session'
 import type { Tool } from '../../src/types/worker'
 
 // Mock StepExecutor
@@ -20,8 +21,21 @@ vi.mock('../../src/workflow/workflow-state', () => {
     WorkflowStateManager: vi.fn().mockImplementation(() => ({
       logWorkflowStart: vi.fn(),
       initializeState: vi.fn(),
+      restoreState: vi.fn(),
+      createSnapshot: vi.fn(),
       getState: vi.fn(),
       findNextStep: vi.fn(),
+      findReadySteps: vi.fn(),
+      createMemoryBranch: vi.fn(),
+      mergeMemoryBranch: vi.fn(),
+      applyBranchDecision: vi.fn(),
+      abortWorkflow: vi.fn(),
+      isAborted: vi.fn().mockReturnValue(false),
+      isCancelled: vi.fn().mockReturnValue(false),
+      takeStepReport: vi.fn(),
+      waitForStepReport: vi.fn().mockReturnValue(new Promise(() => {})),
+      getLoopIndex: vi.fn(),
+      restartLoop: vi.fn(),
       isMaxIterationsReached: vi.fn(),
       isTimeout: vi.fn(),
       logWorkflowComplete: vi.fn(),
@@ -652,6 +666,625 @@ describe('WorkflowExecutor', () => {
     })
   })
 
+  describe('Parallel Execution', () => {
+    it('should run ready steps concurrently and yield results in workflow order', async () => {
+      const workflow: Workflow = {
+        id: 'parallel-workflow',
+        maxConcurrency: 3,
+        steps: [
+          { id: 'weather', prompt: 'Get weather', model: 'test-model' },
+          { id: 'news', prompt: 'Get news', model: 'test-model' },
+          { id: 'summary', prompt: 'Summarize', model: 'test-model', dependentSteps: ['weather', 'news'] }
+        ],
+        tools: []
+      }
+
+      mockStateManager.getState.mockReturnValue({
+        workflow,
+        startTime: Date.now(),
+        completedSteps: new Set(),
+        iteration: 1,
+        maxIterations: 10,
+        maxConcurrency: 3,
+        timeout: 60000,
+        tools: []
+      })
+      mockStateManager.findReadySteps
+        .mockReturnValueOnce([workflow.steps[0], workflow.steps[1]])
+        .mockReturnValueOnce([workflow.steps[2]])
+        .mockReturnValue([])
+
+      // The first step resolves last to verify ordering is not completion order
+      const inFlight: string[] = []
+      let maxInFlight = 0
+      mockStepExecutor.execute.mockImplementation(async (step: WorkflowStep) => {
+        inFlight.push(step.id)
+        maxInFlight = Math.max(maxInFlight, inFlight.length)
+        await new Promise(resolve => setTimeout(resolve, step.id === 'weather' ? 20 : 1))
+        inFlight.splice(inFlight.indexOf(step.id), 1)
+        return { stepId: step.id, content: `${step.id} done` }
+      })
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Plan my day', workflow)) {
+        results.push(result)
+      }
+
+      expect(results.map(r => r.stepId)).toEqual(['weather', 'news', 'summary'])
+      expect(maxInFlight).toBe(2)
+      expect(mockStepExecutor.execute).toHaveBeenCalledWith(workflow.steps[0], [], 'weather')
+      expect(mockStepExecutor.execute).toHaveBeenCalledWith(workflow.steps[1], [], 'news')
+      expect(mockStepExecutor.execute).toHaveBeenCalledWith(workflow.steps[2], [])
+      expect(mockStateManager.createMemoryBranch).toHaveBeenCalledTimes(2)
+      expect(mockStateManager.mergeMemoryBranch.mock.calls.map((call: any[]) => call[0])).toEqual(['weather', 'news'])
+    })
+
+    it('should reject an invalid maxConcurrency', async () => {
+      const workflow: Workflow = {
+        id: 'invalid-concurrency',
+        maxConcurrency: 0,
+        steps: [{ id: '1', prompt: 'Only step', model: 'test-model' }],
+        tools: []
+      }
+
+      const run = async () => {
+        for await (const _ of workflowExecutor.execute('Test user prompt', workflow)) {
+          // drain
+        }
+      }
+
+      await expect(run()).rejects.toThrow('maxConcurrency must be a positive integer')
+    })
+  })
+
+  describe('Branching', () => {
+    it('should apply branch decisions and emit branch events', async () => {
+      const workflow: Workflow = {
+        id: 'branch-workflow',
+        steps: [
+          {
+            id: 'classify',
+            prompt: 'Classify',
+            model: 'test-model',
+            next: [
+              { stepId: 'refund', when: result => result.content === 'refund' },
+              { stepId: 'question' }
+            ]
+          },
+          { id: 'question', prompt: 'Answer', model: 'test-model' },
+          { id: 'refund', prompt: 'Refund', model: 'test-model' }
+        ],
+        tools: []
+      }
+
+      mockStateManager.getState.mockReturnValue({
+        workflow,
+        startTime: Date.now(),
+        completedSteps: new Set(),
+        iteration: 1,
+        maxIterations: 10,
+        timeout: 60000,
+        tools: []
+      })
+      mockStateManager.findNextStep
+        .mockReturnValueOnce(workflow.steps[0])
+        .mockReturnValueOnce(workflow.steps[2])
+        .mockReturnValue(null)
+      mockStepExecutor.execute
+        .mockResolvedValueOnce({ stepId: 'classify', content: 'refund' })
+        .mockResolvedValueOnce({ stepId: 'refund', content: 'Refund issued' })
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Refund please', workflow)) {
+        results.push(result)
+      }
+
+      expect(results.map(r => r.stepId)).toEqual(['classify', 'refund'])
+      const decision = {
+        stepId: 'classify',
+        nextStepId: 'refund',
+        skippedStepIds: ['question'],
+        reason: 'predicate'
+      }
+      expect(mockStateManager.applyBranchDecision).toHaveBeenCalledTimes(1)
+      expect(mockStateManager.applyBranchDecision).toHaveBeenCalledWith(decision)
+      expect(mockSession._eventEmitter.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'workflow:step:branch', workflowId: 'branch-workflow', ...decision })
+      )
+    })
+  })
+
+  describe('Loops', () => {
+    it('should repeat a step until its condition holds and report the loop index', async () => {
+      const workflow: Workflow = {
+        id: 'loop-workflow',
+        steps: [
+          {
+            id: 'search',
+            prompt: 'Search',
+            model: 'test-model',
+            loop: { until: result => result.content === 'enough', maxLoops: 5 }
+          }
+        ],
+        tools: []
+      }
+
+      mockStateManager.getState.mockReturnValue({
+        workflow,
+        startTime: Date.now(),
+        completedSteps: new Set(),
+        iteration: 1,
+        maxIterations: 10,
+        timeout: 60000,
+        tools: []
+      })
+      mockStateManager.findNextStep
+        .mockReturnValueOnce(workflow.steps[0])
+        .mockReturnValueOnce(workflow.steps[0])
+        .mockReturnValue(null)
+      mockStateManager.getLoopIndex.mockReturnValueOnce(0).mockReturnValueOnce(1)
+      mockStepExecutor.execute
+        .mockResolvedValueOnce({ stepId: 'search', content: 'more' })
+        .mockResolvedValueOnce({ stepId: 'search', content: 'enough' })
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Research', workflow)) {
+        results.push(result)
+      }
+
+      expect(results.map(r => r.loopIndex)).toEqual([0, 1])
+      expect(mockStateManager.restartLoop).toHaveBeenCalledTimes(1)
+      expect(mockStateManager.restartLoop).toHaveBeenCalledWith('search')
+      expect(mockSession._eventEmitter.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'workflow:step:loop', stepId: 'search', loopIndex: 0, maxLoops: 5, repeat: true })
+      )
+      expect(mockSession._eventEmitter.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'workflow:step:loop', stepId: 'search', loopIndex: 1, repeat: false })
+      )
+    })
+
+    it('should stop looping when the workflow times out', async () => {
+      const workflow: Workflow = {
+        id: 'loop-timeout-workflow',
+        steps: [{ id: 'poll', prompt: 'Poll', model: 'test-model', loop: { maxLoops: 100 } }],
+        tools: []
+      }
+
+      mockStateManager.getState.mockReturnValue({
+        workflow,
+        startTime: Date.now(),
+        completedSteps: new Set(),
+        iteration: 1,
+        maxIterations: 10,
+        timeout: 60000,
+        tools: []
+      })
+      mockStateManager.findNextStep.mockReturnValue(workflow.steps[0])
+      mockStateManager.getLoopIndex.mockReturnValue(0)
+      mockStateManager.isTimeout.mockReturnValueOnce(false).mockReturnValue(true)
+      mockStepExecutor.execute.mockResolvedValue({ stepId: 'poll', content: 'pending' })
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Poll', workflow)) {
+        results.push(result)
+      }
+
+      expect(mockStepExecutor.execute).toHaveBeenCalledTimes(1)
+      expect(mockStateManager.restartLoop).toHaveBeenCalledTimes(1)
+      expect(results[results.length - 1].error.message).toContain('timeout')
+    })
+  })
+
+  describe('Tool Approval', () => {
+    it('should yield pending approvals while the step waits for them', async () => {
+      const workflow: Workflow = {
+        id: 'email-workflow',
+        steps: [{ id: 'send', prompt: 'Email the team', model: 'test-model', toolChoice: ['send_email'] }],
+        tools: []
+      }
+      const approval = { id: 'approval-1', stepId: 'send', toolCallId: 'call-1', toolName: 'send_email', args: { to: 'team' } }
+      let approve!: () => void
+
+      mockStateManager.getState.mockReturnValue({
+        workflow,
+        startTime: Date.now(),
+        completedSteps: new Set(),
+        iteration: 1,
+        maxIterations: 10,
+        timeout: 60000,
+        tools: []
+      })
+      mockStateManager.findNextStep.mockReturnValueOnce(workflow.steps[0]).mockReturnValue(null)
+      mockStateManager.takeStepReport.mockReturnValueOnce({ approval })
+      mockStepExecutor.execute.mockImplementation(() => new Promise(resolve => {
+        approve = () => resolve({ stepId: 'send', toolCall: { id: 'call-1', approval: 'approve' } })
+      }))
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Email the team', workflow)) {
+        results.push(result)
+        if (result.pendingApproval) {
+          approve()
+        }
+      }
+
+      expect(results).toEqual([
+        { stepId: 'send', pendingApproval: approval },
+        expect.objectContaining({ stepId: 'send', toolCall: { id: 'call-1', approval: 'approve' } })
+      ])
+    })
+  })
+
+  describe('Streaming', () => {
+    it('should yield content deltas before the step result', async () => {
+      const workflow: Workflow = {
+        id: 'summary-workflow',
+        steps: [{ id: 'summary', prompt: 'Summarize', model: 'test-model' }],
+        tools: []
+      }
+      const state: any = {
+        workflow,
+        startTime: Date.now(),
+        completedSteps: new Set(),
+        iteration: 1,
+        maxIterations: 10,
+        timeout: 60000,
+        tools: []
+      }
+      let finish!: () => void
+
+      mockStateManager.getState.mockReturnValue(state)
+      mockStateManager.findNextStep.mockReturnValueOnce(workflow.steps[0]).mockReturnValue(null)
+      mockStateManager.takeStepReport
+        .mockReturnValueOnce({ delta: { stepId: 'summary', delta: 'Short ' } })
+        .mockReturnValueOnce({ delta: { stepId: 'summary', delta: 'summary.' } })
+      mockStepExecutor.execute.mockImplementation(() => new Promise(resolve => {
+        finish = () => resolve({ stepId: 'summary', content: 'Short summary.' })
+      }))
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Summarize', workflow, undefined, { stream: true })) {
+        results.push(result)
+        if (result.delta === 'summary.') {
+          finish()
+        }
+      }
+
+      expect(state.stream).toBe(true)
+      expect(results).toEqual([
+        { stepId: 'summary', delta: 'Short ' },
+        { stepId: 'summary', delta: 'summary.' },
+        expect.objectContaining({ stepId: 'summary', content: 'Short summary.' })
+      ])
+    })
+
+    it('should yield an approval and a delta that parallel steps report in the same tick', async () => {
+      const { WorkflowStateManager: RealStateManager } =
+        await vi.importActual<typeof import('../../src/workflow/workflow-state')>('../../src/workflow/workflow-state')
+      const reports = new RealStateManager(mockSession)
+      const workflow: Workflow = {
+        id: 'parallel-workflow',
+        maxConcurrency: 2,
+        steps: [
+          { id: 'draft', prompt: 'Draft the email', model: 'test-model' },
+          { id: 'send', prompt: 'Email the team', model: 'test-model', toolChoice: ['send_email'] }
+        ],
+        tools: []
+      }
+
+      mockStateManager.getState.mockReturnValue({
+        workflow,
+        startTime: Date.now(),
+        completedSteps: new Set(),
+        iteration: 1,
+        maxIterations: 10,
+        maxConcurrency: 2,
+        timeout: 60000,
+        tools: []
+      })
+      mockStateManager.findReadySteps.mockReturnValueOnce(workflow.steps).mockReturnValue([])
+      mockStateManager.takeStepReport.mockImplementation(() => reports.takeStepReport())
+      mockStateManager.waitForStepReport.mockImplementation(() => reports.waitForStepReport())
+      // Both steps report in the same tick
+      const tick = new Promise(resolve => setTimeout(resolve, 1))
+      mockStepExecutor.execute.mockImplementation(async (step: WorkflowStep) => {
+        await tick
+        if (step.id === 'draft') {
+          reports.reportStepDelta('draft', 'Hello team')
+          return { stepId: 'draft', content: 'Hello team' }
+        }
+        const { approval, decision } = reports.requestToolApproval({
+          stepId: 'send', toolCallId: 'call-1', toolName: 'send_email', args: { to: 'team' }
+        })
+        return { stepId: 'send', toolCall: { id: 'call-1', approval: (await decision).action, args: approval.args } }
+      })
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Email the team', workflow, undefined, { stream: true })) {
+        results.push(result)
+        if (result.pendingApproval) {
+          reports.resolveToolApproval(result.pendingApproval.id, { action: 'approve' })
+        }
+      }
+
+      expect(results).toEqual([
+        { stepId: 'draft', delta: 'Hello team' },
+        { stepId: 'send', pendingApproval: expect.objectContaining({ toolName: 'send_email' }) },
+        expect.objectContaining({ stepId: 'draft', content: 'Hello team' }),
+        expect.objectContaining({ stepId: 'send', toolCall: expect.objectContaining({ approval: 'approve' }) })
+      ])
+    })
+  })
+
+  describe('Abort Handling', () => {
+    it('should report a step interrupted by the workflow timeout as a timeout', async () => {
+      const workflow: Workflow = {
+        id: 'abort-workflow',
+        steps: [{ id: 'fetch', prompt: 'Fetch', model: 'test-model' }],
+        tools: []
+      }
+
+      mockStateManager.getState.mockReturnValue({
+        workflow,
+        startTime: Date.now(),
+        completedSteps: new Set(),
+        iteration: 1,
+        maxIterations: 10,
+        timeout: 60000,
+        tools: []
+      })
+      mockStateManager.findNextStep.mockReturnValue(workflow.steps[0])
+      mockStateManager.isAborted.mockReturnValueOnce(false).mockReturnValue(true)
+      mockStepExecutor.execute.mockResolvedValue({
+        stepId: 'fetch',
+        error: { message: 'Step execution failed: Workflow timeout exceeded' },
+        metadata: { willRetry: true }
+      })
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Fetch data', workflow)) {
+        results.push(result)
+      }
+
+      expect(results).toHaveLength(1)
+      expect(results[0]).toMatchObject({ stepId: 'fetch', error: { message: 'Workflow timeout exceeded' } })
+      expect(mockSession._eventEmitter.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'workflow:timeout', stepId: 'fetch' })
+      )
+    })
+
+    it('should abort the workflow when its timeout elapses', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+      try {
+        const workflow: Workflow = {
+          id: 'slow-workflow',
+          timeout: 1000,
+          steps: [{ id: 'fetch', prompt: 'Fetch', model: 'test-model' }],
+          tools: []
+        }
+
+        mockStateManager.getState.mockReturnValue({
+          workflow,
+          startTime: Date.now(),
+          completedSteps: new Set(),
+          iteration: 1,
+          maxIterations: 10,
+          timeout: 1000,
+          tools: []
+        })
+        mockStateManager.findNextStep.mockReturnValueOnce(workflow.steps[0]).mockReturnValue(null)
+        mockStepExecutor.execute.mockImplementation(async () => {
+          await vi.advanceTimersByTimeAsync(1000)
+          return { stepId: 'fetch', content: 'done' }
+        })
+
+        for await (const _ of workflowExecutor.execute('Fetch data', workflow)) {
+          // drain
+        }
+
+        expect(mockStateManager.abortWorkflow).toHaveBeenCalledWith(new Error('Workflow timeout exceeded'))
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should cancel the workflow when the caller aborts its signal', async () => {
+      const workflow: Workflow = {
+        id: 'cancel-workflow',
+        steps: [
+          { id: 'draft', prompt: 'Draft', model: 'test-model' },
+          { id: 'review', prompt: 'Review', model: 'test-model' }
+        ],
+        tools: []
+      }
+      const controller = new AbortController()
+      let aborted = false
+
+      mockStateManager.getState.mockReturnValue({
+        workflow,
+        startTime: Date.now(),
+        completedSteps: new Set(),
+        iteration: 1,
+        maxIterations: 10,
+        timeout: 60000,
+        tools: []
+      })
+      mockStateManager.findNextStep.mockReturnValue(workflow.steps[0])
+      mockStateManager.abortWorkflow.mockImplementation(() => { aborted = true })
+      mockStateManager.isAborted.mockImplementation(() => aborted)
+      mockStateManager.isCancelled.mockImplementation(() => aborted)
+      mockStepExecutor.execute.mockImplementation(async () => {
+        controller.abort()
+        return { stepId: 'draft', error: { message: 'Step execution failed: Workflow cancelled' } }
+      })
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Write a post', workflow, undefined, { signal: controller.signal })) {
+        results.push(result)
+      }
+
+      expect(mockStateManager.abortWorkflow).toHaveBeenCalledWith(expect.any(WorkflowCancelledError))
+      expect(mockStepExecutor.execute).toHaveBeenCalledTimes(1)
+      expect(results).toEqual([
+        expect.objectContaining({ stepId: 'draft', error: { message: 'Workflow cancelled' } })
+      ])
+      expect(mockSession._eventEmitter.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'workflow:cancelled', stepId: 'draft', reason: 'Cancelled by caller' })
+      )
+      expect(mockSession._eventEmitter.emit).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'workflow:complete' })
+      )
+    })
+  })
+
+  describe('Persistence', () => {
+    const workflow: Workflow = {
+      id: 'persisted-workflow',
+      steps: [
+        { id: 'search', prompt: 'Search', model: 'test-model' },
+        { id: 'report', prompt: 'Report', model: 'test-model', dependentSteps: ['search'] }
+      ],
+      tools: []
+    }
+
+    beforeEach(() => {
+      mockStateManager.getState.mockReturnValue({
+        workflow,
+        startTime: Date.now(),
+        completedSteps: new Set(),
+        iteration: 1,
+        maxIterations: 10,
+        timeout: 60000,
+        tools: []
+      })
+      mockStateManager.findNextStep
+        .mockReturnValueOnce(workflow.steps[0])
+        .mockReturnValueOnce(workflow.steps[1])
+        .mockReturnValue(null)
+      mockStepExecutor.execute.mockImplementation(async (step: WorkflowStep) => ({ stepId: step.id, content: 'done' }))
+    })
+
+    it('should save a snapshot before every iteration and delete it once the workflow completes', async () => {
+      const storage = { save: vi.fn(), load: vi.fn(), delete: vi.fn() }
+      mockStateManager.createSnapshot
+        .mockReturnValueOnce({ iteration: 1 })
+        .mockReturnValueOnce({ iteration: 2 })
+
+      for await (const _ of workflowExecutor.execute('Research', workflow, undefined, { storage, runId: 'run-1' })) {
+        // drain
+      }
+
+      expect(storage.save.mock.calls).toEqual([['run-1', { iteration: 1 }], ['run-1', { iteration: 2 }]])
+      expect(storage.delete).toHaveBeenCalledWith('run-1')
+    })
+
+    it('should keep running when a snapshot cannot be saved', async () => {
+      const storage = { save: vi.fn().mockRejectedValue(new Error('Quota exceeded')), load: vi.fn(), delete: vi.fn() }
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Research', workflow, undefined, { storage })) {
+        results.push(result)
+      }
+
+      expect(results.map(r => r.stepId)).toEqual(['search', 'report'])
+      expect(storage.save).toHaveBeenCalledWith('persisted-workflow', undefined)
+    })
+
+    it('should report a snapshot of a tool result that cannot be cloned', async () => {
+      const storage = { save: vi.fn(), load: vi.fn(), delete: vi.fn() }
+      mockStateManager.createSnapshot.mockImplementation(() => structuredClone({
+        toolResults: { step_search: { name: 'search', description: 'Search', result: { format: () => 'hits' } } }
+      }))
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.execute('Research', workflow, undefined, { storage, runId: 'run-1' })) {
+        results.push(result)
+      }
+
+      expect(results.map(r => r.stepId)).toEqual(['search', 'report'])
+      expect(storage.save).not.toHaveBeenCalled()
+      expect(mockSession._eventEmitter.emit).toHaveBeenCalledWith({
+        type: 'workflow:snapshot:error',
+        workflowId: 'persisted-workflow',
+        runId: 'run-1',
+        iteration: 1,
+        error: expect.stringContaining('could not be cloned'),
+        timestamp: expect.any(Number)
+      })
+    })
+
+    it('should resume a workflow from a snapshot', async () => {
+      const snapshot: any = { version: 1, workflowId: workflow.id, iteration: 2, completedSteps: ['search'], elapsedMs: 500 }
+      mockStateManager.findNextStep.mockReset()
+      mockStateManager.findNextStep
+        .mockReturnValueOnce(workflow.steps[1])
+        .mockReturnValue(null)
+
+      const results: any[] = []
+      for await (const result of workflowExecutor.resume(snapshot, workflow)) {
+        results.push(result)
+      }
+
+      expect(mockStateManager.restoreState).toHaveBeenCalledWith(snapshot, workflow, [], undefined)
+      expect(mockStateManager.initializeState).not.toHaveBeenCalled()
+      expect(results.map(r => r.stepId)).toEqual(['report'])
+      expect(mockSession._eventEmitter.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'workflow:start', workflowId: workflow.id, resumedFromIteration: 2 })
+      )
+    })
+
+    it('should only give a resumed workflow the time left of its timeout', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+      try {
+        const snapshot: any = { version: 1, workflowId: workflow.id, iteration: 2, completedSteps: ['search'], elapsedMs: 800 }
+        mockStateManager.getState.mockReturnValue({
+          workflow,
+          startTime: Date.now() - 800,
+          completedSteps: new Set(['search']),
+          iteration: 2,
+          maxIterations: 10,
+          timeout: 1000,
+          tools: []
+        })
+        mockStateManager.findNextStep.mockReset()
+        mockStateManager.findNextStep.mockReturnValueOnce(workflow.steps[1]).mockReturnValue(null)
+        mockStepExecutor.execute.mockImplementation(async (step: WorkflowStep) => {
+          await vi.advanceTimersByTimeAsync(199)
+          expect(mockStateManager.abortWorkflow).not.toHaveBeenCalled()
+          await vi.advanceTimersByTimeAsync(1)
+          return { stepId: step.id, content: 'done' }
+        })
+
+        for await (const _ of workflowExecutor.resume(snapshot, workflow)) {
+          // drain
+        }
+
+        expect(mockStateManager.abortWorkflow).toHaveBeenCalledWith(new Error('Workflow timeout exceeded'))
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should abort a resumed workflow right away when its timeout is used up', async () => {
+      const snapshot: any = { version: 1, workflowId: workflow.id, iteration: 2, completedSteps: ['search'], elapsedMs: 1500 }
+      mockStateManager.getState.mockReturnValue({
+        workflow,
+        startTime: Date.now() - 1500,
+        completedSteps: new Set(['search']),
+        iteration: 2,
+        maxIterations: 10,
+        timeout: 1000,
+        tools: []
+      })
+
+      for await (const _ of workflowExecutor.resume(snapshot, workflow)) {
+        // drain
+      }
+
+      expect(mockStateManager.abortWorkflow).toHaveBeenCalledWith(new Error('Workflow timeout exceeded'))
+    })
+  })
+
   describe('Workflow Configuration', () => {
     it('should use default values for optional configuration', async () => {
       const workflow: AgentWorkflow = {
@@ -740,5 +1373,26 @@ describe('WorkflowExecutor', () => {
       expect(results).toHaveLength(0)
       expect(mockStepExecutor.execute).not.toHaveBeenCalled()
     })
+
+    it('should reject workflows with circular step dependencies before execution', async () => {
+      const workflow: Workflow = {
+        id: 'cyclic-workflow',
+        steps: [
+          { id: '1', prompt: 'First', model: 'test-model', dependentSteps: ['2'] },
+          { id: '2', prompt: 'Second', model: 'test-model', dependentSteps: ['1'] }
+        ],
+        tools: []
+      }
+
+      const run = async () => {
+        for await (const _ of workflowExecutor.execute('Test user prompt', workflow)) {
+          // drain
+        }
+      }
+
+      await expect(run()).rejects.toThrow(WorkflowValidationError)
+      expect(mockStateManager.initializeState).not.toHaveBeenCalled()
+      expect(mockStepExecutor.execute).not.toHaveBeenCalled()
+    })
   })
 })
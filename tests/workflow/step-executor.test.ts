@@ -0,0 +1,505 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { StepExecutor } from '../../src/workflow/step-executor'
+import { WorkflowStateManager } from '../../src/workflow/workflow-state'
+import type { Workflow } from '../../src/types/agent-session'
+import type { Tool } from '../../src/types/worker'
+import type { StreamPart } from '../../src/types/session'
+
+function toolCall(id: string, name: string, args: Record<string, any>) {
+  return { id, type: 'function', function: { name, arguments: JSON.stringify(args) } }
+}
+
+function streamOf(parts: StreamPart[]) {
+  return {
+    type: 'streaming',
+    stream: (async function* () {
+      yield* parts
+      yield { type: 'finish', finishReason: 'stop' }
+    })()
+  }
+}
+
+function textParts(texts: string[]): StreamPart[] {
+  return texts.map(text => ({ type: 'text-delta', text }))
+}
+
+async function nextReport(stateManager: WorkflowStateManager) {
+  await stateManager.waitForStepReport()
+  return stateManager.takeStepReport()!
+}
+
+async function nextApproval(stateManager: WorkflowStateManager) {
+  const report = await nextReport(stateManager)
+  if (!('approval' in report)) throw new Error('Expected an approval request')
+  return report.approval
+}
+
+async function collectDeltas(stateManager: WorkflowStateManager, count: number) {
+  const deltas: string[] = []
+  for (let i = 0; i < count; i++) {
+    const report = await nextReport(stateManager)
+    if ('delta' in report) deltas.push(report.delta.delta)
+  }
+  return deltas
+}
+
+describe('StepExecutor', () => {
+  let stepExecutor: StepExecutor
+  let stateManager: WorkflowStateManager
+  let mockSession: any
+  let weatherTool: Tool
+
+  const workflow: Workflow = {
+    id: 'weather-workflow',
+    steps: [
+      { id: 'forecast', prompt: 'Get the forecast', model: 'test-model', toolChoice: ['get_weather'], maxToolRounds: 3 },
+      { id: 'single', prompt: 'Get the weather once', model: 'test-model', toolChoice: ['get_weather'] },
+      { id: 'cities', prompt: 'Get the weather for five cities', model: 'test-model', toolChoice: ['get_weather'], toolConcurrency: 2 }
+    ],
+    tools: []
+  }
+
+  beforeEach(async () => {
+    mockSession = {
+      createResponse: vi.fn(),
+      _eventEmitter: {
+        emit: vi.fn()
+      }
+    }
+    weatherTool = {
+      definition: {
+        name: 'get_weather',
+        description: 'Get the weather for a city',
+        parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+      },
+      implementation: vi.fn(async ({ city }) => ({ city, temperature: city === 'Paris' ? 18 : 12 }))
+    }
+    stateManager = new WorkflowStateManager(mockSession)
+    await stateManager.initializeState('What is the weather?', workflow, [weatherTool])
+    stepExecutor = new StepExecutor(mockSession, stateManager)
+  })
+
+  describe('Tool Rounds', () => {
+    it('should feed tool results back to the model until it answers', async () => {
+      mockSession.createResponse
+        .mockResolvedValueOnce({
+          type: 'complete',
+          content: '',
+          toolCalls: [toolCall('call-1', 'get_weather', { city: 'Paris' }), toolCall('call-2', 'get_weather', { city: 'Oslo' })]
+        })
+        .mockResolvedValueOnce({
+          type: 'complete',
+          content: '',
+          toolCalls: [toolCall('call-3', 'get_weather', { city: 'Rome' })]
+        })
+        .mockResolvedValueOnce({ type: 'complete', content: 'Paris is warmest.' })
+
+      const result = await stepExecutor.execute(workflow.steps[0]!, stateManager.getState().tools)
+
+      expect(result.content).toBe('Paris is warmest.')
+      expect(result.toolCalls?.map(call => [call.id, call.round])).toEqual([
+        ['call-1', 1],
+        ['call-2', 1],
+        ['call-3', 2]
+      ])
+      expect(result.toolCall?.id).toBe('call-3')
+      expect(result.metadata?.toolRounds).toBe(2)
+      expect(weatherTool.implementation).toHaveBeenCalledTimes(3)
+
+      // The second model call sees the tool results of the first round
+      const secondCallMessages = mockSession.createResponse.mock.calls[1][1].messages
+      const toolResults = secondCallMessages.filter(
+        (m: any) => Array.isArray(m.content) && m.content[0].type === 'tool_result'
+      )
+      expect(toolResults.map((m: any) => m.content[0].tool_use_id)).toEqual(['call-1', 'call-2'])
+      expect(stateManager.getStepState('forecast').complete).toBe(true)
+    })
+
+    it('should end the step with the last tool result when maxToolRounds is reached', async () => {
+      mockSession.createResponse.mockResolvedValue({
+        type: 'complete',
+        content: '',
+        toolCalls: [toolCall('call-1', 'get_weather', { city: 'Oslo' })]
+      })
+
+      const result = await stepExecutor.execute(workflow.steps[1]!, stateManager.getState().tools)
+
+      expect(mockSession.createResponse).toHaveBeenCalledTimes(1)
+      expect(result.content).toBeUndefined()
+      expect(result.toolCall).toEqual({
+        id: 'call-1',
+        name: 'get_weather',
+        args: { city: 'Oslo' },
+        result: JSON.stringify({ city: 'Oslo', temperature: 12 }),
+        round: 1
+      })
+      expect(result.toolCalls).toHaveLength(1)
+      expect(stateManager.getStepState('single').result).toBe(JSON.stringify({ city: 'Oslo', temperature: 12 }))
+    })
+
+    it('should fail the step when the model calls a tool that is not available', async () => {
+      mockSession.createResponse.mockResolvedValue({
+        type: 'complete',
+        content: '',
+        toolCalls: [toolCall('call-1', 'delete_city', { city: 'Oslo' })]
+      })
+
+      const result = await stepExecutor.execute(workflow.steps[1]!, stateManager.getState().tools)
+
+      expect(result.error?.message).toBe('Step execution failed: Tool not available for step: delete_city')
+      expect(result.metadata?.willRetry).toBe(true)
+    })
+  })
+  describe('Concurrent Tool Calls', () => {
+    const cities = ['Paris', 'Oslo', 'Rome', 'Lima', 'Cairo']
+
+    it('should run tool calls concurrently up to the step limit and keep memory order', async () => {
+      let running = 0
+      let maxRunning = 0
+      weatherTool.implementation = vi.fn(async ({ city }) => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        // Earlier cities take longer, so calls finish out of order
+        await new Promise(resolve => setTimeout(resolve, (cities.length - cities.indexOf(city)) * 5))
+        running--
+        return { city }
+      })
+      mockSession.createResponse.mockResolvedValue({
+        type: 'complete',
+        content: '',
+        toolCalls: cities.map((city, index) => toolCall(`call-${index}`, 'get_weather', { city }))
+      })
+
+      const result = await stepExecutor.execute(workflow.steps[2]!, [weatherTool])
+
+      expect(maxRunning).toBe(2)
+      expect(result.toolCalls?.map(call => call.args?.city)).toEqual(cities)
+
+      const messages = await stateManager.getMessages()
+      const toolMessages = messages.filter(
+        (m: any) => Array.isArray(m.content) && ['tool_use', 'tool_result'].includes(m.content[0].type)
+      )
+      expect(toolMessages.map((m: any) => m.content[0].id ?? m.content[0].tool_use_id)).toEqual([
+        'call-0', 'call-0', 'call-1', 'call-1', 'call-2', 'call-2', 'call-3', 'call-3', 'call-4', 'call-4'
+      ])
+    })
+
+    it('should emit tool call events for every call', async () => {
+      mockSession.createResponse.mockResolvedValue({
+        type: 'complete',
+        content: '',
+        toolCalls: cities.map((city, index) => toolCall(`call-${index}`, 'get_weather', { city }))
+      })
+
+      await stepExecutor.execute(workflow.steps[2]!, [weatherTool])
+
+      const events = mockSession._eventEmitter.emit.mock.calls.map(([event]: any[]) => event)
+      expect(events.filter((e: any) => e.type === 'tool:call:start')).toHaveLength(5)
+      expect(events.filter((e: any) => e.type === 'tool:call:complete').map((e: any) => e.result.city).sort())
+        .toEqual([...cities].sort())
+    })
+
+    it('should fail the step without writing partial results when a call fails', async () => {
+      weatherTool.implementation = vi.fn(async ({ city }) => {
+        if (city === 'Rome') throw new Error('Service unavailable')
+        return { city }
+      })
+      mockSession.createResponse.mockResolvedValue({
+        type: 'complete',
+        content: '',
+        toolCalls: cities.map((city, index) => toolCall(`call-${index}`, 'get_weather', { city }))
+      })
+
+      const result = await stepExecutor.execute(workflow.steps[2]!, [weatherTool])
+
+      expect(result.error?.message).toBe('Step execution failed: Tool execution failed: Service unavailable')
+      const messages = await stateManager.getMessages()
+      expect(messages.some((m: any) => Array.isArray(m.content))).toBe(false)
+    })
+
+    it('should abort running calls and start no more once a call fails', async () => {
+      let parisSignal: AbortSignal | undefined
+      weatherTool.implementation = vi.fn(async ({ city }, { signal }) => {
+        if (city === 'Paris') {
+          parisSignal = signal
+          await new Promise(resolve => signal.addEventListener('abort', resolve))
+        }
+        if (city === 'Rome') throw new Error('Service unavailable')
+        return { city }
+      })
+      mockSession.createResponse.mockResolvedValue({
+        type: 'complete',
+        content: '',
+        toolCalls: cities.map((city, index) => toolCall(`call-${index}`, 'get_weather', { city }))
+      })
+
+      const result = await stepExecutor.execute(workflow.steps[2]!, [weatherTool])
+
+      expect(result.error?.message).toBe('Step execution failed: Tool execution failed: Service unavailable')
+      expect(parisSignal?.aborted).toBe(true)
+      expect(weatherTool.implementation.mock.calls.map(([args]: any[]) => args.city)).toEqual(['Paris', 'Oslo', 'Rome'])
+    })
+  })
+  describe('Argument Validation', () => {
+    it('should coerce arguments before running the tool', async () => {
+      weatherTool.definition.parameters.properties.days = { type: 'integer' }
+      mockSession.createResponse.mockResolvedValue({
+        type: 'complete',
+        content: '',
+        toolCalls: [toolCall('call-1', 'get_weather', { city: 'Oslo', days: '3' })]
+      })
+
+      const result = await stepExecutor.execute(workflow.steps[1]!, [weatherTool])
+
+      expect(weatherTool.implementation).toHaveBeenCalledWith(
+        { city: 'Oslo', days: 3 },
+        expect.objectContaining({ stepId: 'single', toolCallId: 'call-1' })
+      )
+      expect(result.toolCall?.args).toEqual({ city: 'Oslo', days: 3 })
+    })
+
+    it('should feed validation errors back to the model in the next round', async () => {
+      mockSession.createResponse
+        .mockResolvedValueOnce({
+          type: 'complete',
+          content: '',
+          toolCalls: [toolCall('call-1', 'get_weather', {})]
+        })
+        .mockResolvedValueOnce({
+          type: 'complete',
+          content: '',
+          toolCalls: [toolCall('call-2', 'get_weather', { city: 'Oslo' })]
+        })
+        .mockResolvedValueOnce({ type: 'complete', content: 'It is 12 degrees in Oslo.' })
+
+      const result = await stepExecutor.execute(workflow.steps[0]!, [weatherTool])
+
+      expect(weatherTool.implementation).toHaveBeenCalledTimes(1)
+      expect(result.content).toBe('It is 12 degrees in Oslo.')
+      expect(result.toolCalls?.[0]?.error).toBe('Invalid arguments for tool get_weather: city is required')
+
+      const feedback = mockSession.createResponse.mock.calls[1][1].messages
+        .find((m: any) => Array.isArray(m.content) && m.content[0].tool_use_id === 'call-1')
+      expect(JSON.parse(feedback.content[0].result)).toMatchObject({
+        error: 'invalid_arguments',
+        errors: [{ path: 'city', message: 'is required' }]
+      })
+      expect(mockSession._eventEmitter.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'tool:call:error', toolName: 'get_weather' })
+      )
+    })
+
+    it('should fail the step and keep the feedback for the retry when no rounds are left', async () => {
+      mockSession.createResponse.mockResolvedValue({
+        type: 'complete',
+        content: '',
+        toolCalls: [toolCall('call-1', 'get_weather', { city: 42, extra: true })]
+      })
+      weatherTool.definition.parameters.properties.city = { type: 'string', enum: ['Paris', 'Oslo'] }
+
+      const result = await stepExecutor.execute(workflow.steps[1]!, [weatherTool])
+
+      expect(weatherTool.implementation).not.toHaveBeenCalled()
+      expect(result.error?.message).toContain('Invalid arguments for tool get_weather')
+      expect(result.metadata?.willRetry).toBe(true)
+
+      const messages = await stateManager.getMessages()
+      const toolResult = messages.find(
+        (m: any) => Array.isArray(m.content) && m.content[0].type === 'tool_result'
+      ) as any
+      expect(toolResult.content[0].tool_use_id).toBe('call-1')
+      expect(JSON.parse(toolResult.content[0].result).error).toBe('invalid_arguments')
+    })
+  })
+  describe('Tool Approval', () => {
+    const weatherCall = {
+      type: 'complete',
+      content: '',
+      toolCalls: [toolCall('call-1', 'get_weather', { city: 'Oslo' })]
+    }
+
+    beforeEach(() => {
+      weatherTool.requiresApproval = true
+      mockSession.createResponse.mockResolvedValue(weatherCall)
+    })
+
+    it('should wait for approval before running the tool', async () => {
+      const execution = stepExecutor.execute(workflow.steps[1]!, [weatherTool])
+
+      const approval = await nextApproval(stateManager)
+      expect(approval).toMatchObject({ stepId: 'single', toolCallId: 'call-1', toolName: 'get_weather', args: { city: 'Oslo' } })
+      expect(weatherTool.implementation).not.toHaveBeenCalled()
+
+      stateManager.resolveToolApproval(approval.id, { action: 'approve' })
+      const result = await execution
+
+      expect(weatherTool.implementation).toHaveBeenCalledWith({ city: 'Oslo' }, expect.anything())
+      expect(result.toolCall).toMatchObject({ approval: 'approve', args: { city: 'Oslo' } })
+      expect(mockSession._eventEmitter.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'tool:approval:resolved', approvalId: approval.id, action: 'approve' })
+      )
+    })
+
+    it('should run the tool with edited arguments', async () => {
+      const execution = stepExecutor.execute(workflow.steps[1]!, [weatherTool])
+
+      const approval = await nextApproval(stateManager)
+      stateManager.resolveToolApproval(approval.id, { action: 'edit', args: { city: 'Bergen' } })
+      const result = await execution
+
+      expect(weatherTool.implementation).toHaveBeenCalledWith({ city: 'Bergen' }, expect.anything())
+      expect(result.toolCall).toMatchObject({ approval: 'edit', args: { city: 'Bergen' } })
+
+      // Memory records the call that actually ran
+      const messages = await stateManager.getMessages()
+      const toolUse = messages.find((m: any) => Array.isArray(m.content) && m.content[0].type === 'tool_use')
+      expect((toolUse!.content as any)[0].arguments).toEqual({ city: 'Bergen' })
+    })
+
+    it('should validate edited arguments before running the tool', async () => {
+      const execution = stepExecutor.execute(workflow.steps[1]!, [weatherTool])
+
+      const approval = await nextApproval(stateManager)
+      stateManager.resolveToolApproval(approval.id, { action: 'edit', args: { town: 'Bergen' } })
+      const result = await execution
+
+      expect(weatherTool.implementation).not.toHaveBeenCalled()
+      expect(result.error?.message).toContain('Invalid arguments for tool get_weather: city is required')
+
+      const messages = await stateManager.getMessages()
+      const toolResult = messages.find((m: any) => Array.isArray(m.content) && m.content[0].type === 'tool_result')
+      expect(JSON.parse((toolResult!.content as any)[0].result)).toMatchObject({
+        error: 'invalid_arguments',
+        errors: [{ path: 'city', message: 'is required' }]
+      })
+    })
+
+    it('should record a rejection as the tool result without running the tool', async () => {
+      const execution = stepExecutor.execute(workflow.steps[1]!, [weatherTool])
+
+      const approval = await nextApproval(stateManager)
+      stateManager.resolveToolApproval(approval.id, { action: 'reject', reason: 'Oslo is not allowed' })
+      const result = await execution
+
+      expect(weatherTool.implementation).not.toHaveBeenCalled()
+      expect(result.toolCall?.approval).toBe('reject')
+
+      const messages = await stateManager.getMessages()
+      const toolResult = messages.find((m: any) => Array.isArray(m.content) && m.content[0].type === 'tool_result')
+      expect(JSON.parse((toolResult!.content as any)[0].result)).toEqual({
+        error: 'rejected',
+        message: 'The user rejected this call to get_weather (Oslo is not allowed). Do not repeat it unchanged.'
+      })
+    })
+
+    it('should reject resolving an unknown approval', () => {
+      expect(() => stateManager.resolveToolApproval('missing', { action: 'approve' }))
+        .toThrow('No pending tool approval with ID "missing"')
+    })
+  })
+
+  describe('Streaming', () => {
+    beforeEach(() => {
+      stateManager.getState().stream = true
+    })
+
+    it('should request a stream and report content deltas', async () => {
+      mockSession.createResponse.mockResolvedValue(streamOf([
+        { type: 'reasoning-delta', text: 'Short question.' },
+        ...textParts(['Sunny ', 'all day.'])
+      ]))
+      const workflowWithoutTools = { id: 'summary-workflow', steps: [{ id: 'summary', prompt: 'Summarize', model: 'test-model' }], tools: [] }
+      await stateManager.initializeState('Summarize', workflowWithoutTools, [])
+      stateManager.getState().stream = true
+
+      const result = await stepExecutor.execute(workflowWithoutTools.steps[0]!, [])
+
+      expect(mockSession.createResponse.mock.calls[0][1].stream).toBe(true)
+      expect(await collectDeltas(stateManager, 2)).toEqual(['Sunny ', 'all day.'])
+      expect(result.content).toBe('Sunny all day.')
+    })
+
+    it('should collect tool calls from the stream and report only text deltas', async () => {
+      mockSession.createResponse
+        .mockResolvedValueOnce(streamOf([
+          { type: 'text-delta', text: 'Checking. ' },
+          { type: 'tool-call-delta', index: 0, id: 'call-1', name: 'get_weather', argumentsDelta: '' },
+          { type: 'tool-call-delta', index: 0, argumentsDelta: '{"city": ' },
+          { type: 'tool-call-delta', index: 0, argumentsDelta: '"Paris"}' }
+        ]))
+        .mockResolvedValueOnce(streamOf(textParts(['Paris ', 'is 18°C.'])))
+
+      const result = await stepExecutor.execute(workflow.steps[0]!, stateManager.getState().tools)
+
+      expect(mockSession.createResponse.mock.calls[0][1]).toMatchObject({ stream: true, tools: [weatherTool.definition] })
+      expect(weatherTool.implementation).toHaveBeenCalledWith({ city: 'Paris' }, expect.anything())
+      expect(await collectDeltas(stateManager, 3)).toEqual(['Checking. ', 'Paris ', 'is 18°C.'])
+      expect(result.content).toBe('Paris is 18°C.')
+      expect(result.toolCalls?.map(call => call.name)).toEqual(['get_weather'])
+    })
+  })
+
+  describe('Timeouts and Cancellation', () => {
+    const weatherCall = {
+      type: 'complete',
+      content: '',
+      toolCalls: [toolCall('call-1', 'get_weather', { city: 'Oslo' })]
+    }
+
+    it('should abort a tool that exceeds its timeout and emit a timeout event', async () => {
+      let toolSignal: AbortSignal | undefined
+      weatherTool.timeoutMs = 20
+      weatherTool.implementation = vi.fn((_args, { signal }) => {
+        toolSignal = signal
+        return new Promise(() => {})
+      })
+      mockSession.createResponse.mockResolvedValue(weatherCall)
+
+      const result = await stepExecutor.execute(workflow.steps[1]!, [weatherTool])
+
+      expect(result.error?.message).toBe('Step execution failed: Tool execution failed: Tool get_weather timed out after 20ms')
+      expect(toolSignal?.aborted).toBe(true)
+      expect(mockSession._eventEmitter.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'tool:call:timeout', stepId: 'single', toolName: 'get_weather', timeoutMs: 20 })
+      )
+    })
+
+    it('should abort in-flight tools when the workflow is aborted', async () => {
+      let toolSignal: AbortSignal | undefined
+      weatherTool.implementation = vi.fn((_args, { signal }) => {
+        toolSignal = signal
+        setTimeout(() => stateManager.abortWorkflow(new Error('Workflow timeout exceeded')), 5)
+        return new Promise(() => {})
+      })
+      mockSession.createResponse.mockResolvedValue(weatherCall)
+
+      const result = await stepExecutor.execute(workflow.steps[1]!, [weatherTool])
+
+      expect(toolSignal?.aborted).toBe(true)
+      expect(result.error?.message).toBe('Step execution failed: Tool execution failed: Workflow timeout exceeded')
+    })
+
+    it('should stop waiting for the model when the workflow is aborted', async () => {
+      mockSession.createResponse.mockImplementation(() => {
+        setTimeout(() => stateManager.abortWorkflow(new Error('Workflow timeout exceeded')), 5)
+        return new Promise(() => {})
+      })
+
+      const result = await stepExecutor.execute(workflow.steps[1]!, [weatherTool])
+
+      expect(result.error?.message).toBe('Step execution failed: Workflow timeout exceeded')
+      expect(weatherTool.implementation).not.toHaveBeenCalled()
+    })
+
+    it('should pass the workflow abort signal to the model call', async () => {
+      mockSession.createResponse.mockResolvedValue({ type: 'complete', content: 'Sunny' })
+
+      await stepExecutor.execute(workflow.steps[1]!, [weatherTool])
+
+      const generateArgs = mockSession.createResponse.mock.calls[0][1]
+      expect(generateArgs.signal).toBe(stateManager.getAbortSignal())
+      stateManager.abortWorkflow(new Error('Workflow cancelled'))
+      expect(generateArgs.signal.aborted).toBe(true)
+    })
+  })
+})
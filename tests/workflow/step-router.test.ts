@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { StepRouter, getRouteTargets } from '../../src/workflow/step-router'
+import type { WorkflowStep } from '../../src/types/agent-session'
+
+describe('StepRouter', () => {
+  let router: StepRouter
+  let mockSession: any
+  let mockStateManager: any
+
+  beforeEach(() => {
+    mockSession = {
+      createResponse: vi.fn()
+    }
+    mockStateManager = {
+      getMessages: vi.fn().mockResolvedValue([
+        { role: 'user', content: 'I want my money back' }
+      ]),
+      getAbortSignal: vi.fn().mockReturnValue(new AbortController().signal)
+    }
+    router = new StepRouter(mockSession, mockStateManager)
+  })
+
+  describe('getRouteTargets', () => {
+    it('should list targets for every next declaration form', () => {
+      expect(getRouteTargets(undefined)).toEqual([])
+      expect(getRouteTargets('done')).toEqual(['done'])
+      expect(getRouteTargets([{ stepId: 'a' }, { stepId: 'b' }])).toEqual(['a', 'b'])
+      expect(getRouteTargets({ model: 'm', routes: [{ stepId: 'c' }] })).toEqual(['c'])
+    })
+  })
+
+  it('should return undefined for steps without next', async () => {
+    const step: WorkflowStep = { id: 'classify', prompt: 'Classify', model: 'test-model' }
+    expect(await router.route(step, { stepId: 'classify', content: 'refund' })).toBeUndefined()
+  })
+
+  it('should select a static next step', async () => {
+    const step: WorkflowStep = { id: 'classify', prompt: 'Classify', model: 'test-model', next: 'reply' }
+    expect(await router.route(step, { stepId: 'classify' })).toEqual({
+      stepId: 'classify',
+      nextStepId: 'reply',
+      skippedStepIds: [],
+      reason: 'static'
+    })
+  })
+
+  it('should select the first matching predicate route and skip the others', async () => {
+    const step: WorkflowStep = {
+      id: 'classify',
+      prompt: 'Classify',
+      model: 'test-model',
+      next: [
+        { stepId: 'refund', when: result => result.content === 'refund' },
+        { stepId: 'question', when: result => result.content === 'question' },
+        { stepId: 'fallback' }
+      ]
+    }
+
+    expect(await router.route(step, { stepId: 'classify', content: 'refund' })).toEqual({
+      stepId: 'classify',
+      nextStepId: 'refund',
+      skippedStepIds: ['question', 'fallback'],
+      reason: 'predicate'
+    })
+    expect(await router.route(step, { stepId: 'classify', content: 'other' })).toMatchObject({
+      nextStepId: 'fallback',
+      reason: 'default'
+    })
+  })
+
+  it('should skip all targets when no predicate matches and there is no default', async () => {
+    const step: WorkflowStep = {
+      id: 'classify',
+      prompt: 'Classify',
+      model: 'test-model',
+      next: [{ stepId: 'refund', when: () => false }]
+    }
+
+    const decision = await router.route(step, { stepId: 'classify' })
+    expect(decision).toEqual({
+      stepId: 'classify',
+      skippedStepIds: ['refund'],
+      reason: 'none'
+    })
+  })
+
+  it('should let the router model choose a route without writing to memory', async () => {
+    mockSession.createResponse.mockResolvedValue({ type: 'complete', content: ' Refund\n' })
+    const step: WorkflowStep = {
+      id: 'classify',
+      prompt: 'Classify',
+      model: 'test-model',
+      next: {
+        model: 'router-model',
+        routes: [
+          { stepId: 'question', description: 'General question' },
+          { stepId: 'refund', description: 'Customer wants a refund' }
+        ]
+      }
+    }
+
+    const decision = await router.route(step, { stepId: 'classify' })
+
+    expect(decision).toMatchObject({ nextStepId: 'refund', skippedStepIds: ['question'], reason: 'model' })
+    const [model, args] = mockSession.createResponse.mock.calls[0]
+    expect(model).toBe('router-model')
+    expect(args.stream).toBe(false)
+    expect(args.messages).toHaveLength(2)
+    expect(args.messages[1].content).toContain('- refund: Customer wants a refund')
+  })
+
+  it('should fall back to the first route when the model answer is unknown', async () => {
+    mockSession.createResponse.mockResolvedValue({ type: 'complete', content: 'not sure' })
+    const step: WorkflowStep = {
+      id: 'classify',
+      prompt: 'Classify',
+      model: 'test-model',
+      next: { model: 'router-model', routes: [{ stepId: 'question' }, { stepId: 'refund' }] }
+    }
+
+    expect(await router.route(step, { stepId: 'classify' })).toMatchObject({ nextStepId: 'question' })
+  })
+  describe('shouldRepeat', () => {
+    it('should repeat until the predicate holds or maxLoops is reached', async () => {
+      const step: WorkflowStep = {
+        id: 'search',
+        prompt: 'Search',
+        model: 'test-model',
+        loop: { until: result => result.content === 'enough', maxLoops: 3 }
+      }
+
+      expect(await router.shouldRepeat(step, { stepId: 'search', content: 'more' }, 0)).toBe(true)
+      expect(await router.shouldRepeat(step, { stepId: 'search', content: 'enough' }, 0)).toBe(false)
+      expect(await router.shouldRepeat(step, { stepId: 'search', content: 'more' }, 2)).toBe(false)
+    })
+
+    it('should ask the judge model whether the loop is done', async () => {
+      const step: WorkflowStep = {
+        id: 'search',
+        prompt: 'Search',
+        model: 'test-model',
+        loop: { until: { model: 'judge-model', prompt: 'Do we have enough sources?' }, maxLoops: 5 }
+      }
+
+      mockSession.createResponse.mockResolvedValueOnce({ type: 'complete', content: 'No' })
+      expect(await router.shouldRepeat(step, { stepId: 'search' }, 0)).toBe(true)
+
+      mockSession.createResponse.mockResolvedValueOnce({ type: 'complete', content: 'Yes.' })
+      expect(await router.shouldRepeat(step, { stepId: 'search' }, 1)).toBe(false)
+
+      const [model, args] = mockSession.createResponse.mock.calls[0]
+      expect(model).toBe('judge-model')
+      expect(args.messages[1].content).toContain('Do we have enough sources?')
+    })
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, readdir } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  InMemoryWorkflowStorage,
+  LocalStorageWorkflowStorage,
+  FileSystemWorkflowStorage
+} from '../../src/workflow/storage'
+import type { WorkflowSnapshot, WorkflowStorage } from '../../src/types/workflow-state'
+
+const snapshot: WorkflowSnapshot = {
+  version: 1,
+  workflowId: 'research',
+  userPrompt: 'Research topic',
+  elapsedMs: 1200,
+  iteration: 2,
+  completedSteps: ['search'],
+  path: ['search'],
+  activatedSteps: [],
+  skippedSteps: [],
+  branchDecisions: [],
+  loopCounts: {},
+  steps: {
+    search: { id: 'search', result: 'sources', complete: true, attempts: 1, maxAttempts: 3 },
+    report: { id: 'report', complete: false, attempts: 0, maxAttempts: 3 }
+  },
+  toolResults: {},
+  memory: {
+    messages: [{ role: 'user', content: 'Research topic', metadata: { type: 'user_prompt' } }],
+    checkpoints: {},
+    compressionCount: 0
+  },
+  savedAt: 1700000000000
+}
+
+function describeStorage(name: string, createStorage: () => WorkflowStorage) {
+  describe(name, () => {
+    let storage: WorkflowStorage
+
+    beforeEach(() => {
+      storage = createStorage()
+    })
+
+    it('should save, load and delete snapshots', async () => {
+      expect(await storage.load('run-1')).toBeUndefined()
+
+      await storage.save('run-1', snapshot)
+      expect(await storage.load('run-1')).toEqual(snapshot)
+
+      await storage.delete('run-1')
+      expect(await storage.load('run-1')).toBeUndefined()
+    })
+
+    it('should replace a snapshot saved under the same run ID', async () => {
+      await storage.save('run-1', snapshot)
+      await storage.save('run-1', { ...snapshot, iteration: 3 })
+
+      expect((await storage.load('run-1'))?.iteration).toBe(3)
+    })
+  })
+}
+
+describe('Workflow storage', () => {
+  describeStorage('InMemoryWorkflowStorage', () => new InMemoryWorkflowStorage())
+
+  describeStorage('LocalStorageWorkflowStorage', () => {
+    localStorage.clear()
+    return new LocalStorageWorkflowStorage()
+  })
+
+  describe('FileSystemWorkflowStorage', () => {
+    let directory: string
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'agentary-snapshots-'))
+    })
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true })
+    })
+
+    describeStorage('round trip', () => new FileSystemWorkflowStorage(join(directory, 'runs')))
+
+    it('should encode run IDs into safe file names', async () => {
+      const storage = new FileSystemWorkflowStorage(directory)
+      await storage.save('../user/42', snapshot)
+
+      expect(await readdir(directory)).toEqual(['..%2Fuser%2F42.json'])
+      expect(await storage.load('../user/42')).toEqual(snapshot)
+    })
+  })
+
+  it('should not share snapshots between in-memory storage and callers', async () => {
+    const storage = new InMemoryWorkflowStorage()
+    const saved = structuredClone(snapshot)
+    await storage.save('run-1', saved)
+    saved.completedSteps.push('report')
+
+    expect((await storage.load('run-1'))?.completedSteps).toEqual(['search'])
+  })
+
+  it('should store snapshots under the key prefix', async () => {
+    localStorage.clear()
+    const storage = new LocalStorageWorkflowStorage({ keyPrefix: 'app:' })
+    await storage.save('run-1', snapshot)
+
+    expect(JSON.parse(localStorage.getItem('app:run-1')!)).toEqual(snapshot)
+  })
+})
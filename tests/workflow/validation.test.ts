@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { validateWorkflow } from '../../src/workflow/validation'
+import { WorkflowValidationError } from '../../src/types/agent-session'
+import type { Workflow, WorkflowStep } from '../../src/types/agent-session'
+
+function createWorkflow(steps: Partial<WorkflowStep>[]): Workflow {
+  return {
+    id: 'test-workflow',
+    steps: steps.map(step => ({ prompt: 'Do something', model: 'test-model', ...step })) as WorkflowStep[],
+    tools: []
+  }
+}
+
+describe('validateWorkflow', () => {
+  it('should accept a workflow without dependencies', () => {
+    const workflow = createWorkflow([{ id: 'a' }, { id: 'b' }])
+    expect(() => validateWorkflow(workflow)).not.toThrow()
+  })
+
+  it('should accept a valid dependency graph', () => {
+    const workflow = createWorkflow([
+      { id: 'report', dependentSteps: ['search', 'analyze'] },
+      { id: 'analyze', dependentSteps: ['search'] },
+      { id: 'search' }
+    ])
+    expect(() => validateWorkflow(workflow)).not.toThrow()
+  })
+
+  it('should reject duplicate step IDs', () => {
+    const workflow = createWorkflow([{ id: 'a' }, { id: 'a' }])
+    expect(() => validateWorkflow(workflow)).toThrow(WorkflowValidationError)
+    expect(() => validateWorkflow(workflow)).toThrow('Duplicate step ID "a"')
+  })
+
+  it('should reject dependencies on unknown steps', () => {
+    const workflow = createWorkflow([{ id: 'a', dependentSteps: ['missing'] }])
+    expect(() => validateWorkflow(workflow)).toThrow('Step "a" depends on unknown step "missing"')
+  })
+
+  it('should reject self dependencies', () => {
+    const workflow = createWorkflow([{ id: 'a', dependentSteps: ['a'] }])
+    expect(() => validateWorkflow(workflow)).toThrow('Step "a" cannot depend on itself')
+  })
+
+  it('should reject dependency cycles', () => {
+    const workflow = createWorkflow([
+      { id: 'a', dependentSteps: ['c'] },
+      { id: 'b', dependentSteps: ['a'] },
+      { id: 'c', dependentSteps: ['b'] }
+    ])
+
+    try {
+      validateWorkflow(workflow)
+      expect.fail('Expected validation to fail')
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(WorkflowValidationError)
+      expect(error.message).toBe('Circular step dependency detected: a -> c -> b -> a')
+      expect(error.workflowId).toBe('test-workflow')
+      expect(error.stepId).toBe('a')
+    }
+  })
+
+  it('should reject routes to unknown steps', () => {
+    const workflow = createWorkflow([{ id: 'a', next: [{ stepId: 'b' }, { stepId: 'missing' }] }, { id: 'b' }])
+    expect(() => validateWorkflow(workflow)).toThrow('Step "a" routes to unknown step "missing"')
+  })
+
+  it('should reject routers without a model', () => {
+    const workflow = createWorkflow([{ id: 'a', next: { model: '', routes: [{ stepId: 'b' }] } }, { id: 'b' }])
+    expect(() => validateWorkflow(workflow)).toThrow('Router of step "a" requires a model')
+  })
+  it('should reject loops without a positive maxLoops', () => {
+    const workflow = createWorkflow([{ id: 'a', loop: { maxLoops: 0 } }])
+    expect(() => validateWorkflow(workflow)).toThrow('Loop of step "a" requires maxLoops to be a positive integer, got 0')
+  })
+
+  it('should reject overlapping loops', () => {
+    const workflow = createWorkflow([
+      { id: 'a', loop: { maxLoops: 2 } },
+      { id: 'b', dependentSteps: ['a'], loop: { steps: ['a', 'b'], maxLoops: 2 } }
+    ])
+    expect(() => validateWorkflow(workflow)).toThrow('Step "a" belongs to the loops of both "a" and "b"')
+  })
+
+  it('should accept a loop group that ends with its owner', () => {
+    const workflow = createWorkflow([
+      { id: 'search' },
+      { id: 'summarize', dependentSteps: ['search'] },
+      { id: 'review', dependentSteps: ['summarize'], loop: { steps: ['search', 'summarize', 'review'], maxLoops: 2 } }
+    ])
+    expect(() => validateWorkflow(workflow)).not.toThrow()
+  })
+
+  it('should reject loop groups whose owner is not the last step', () => {
+    const notLast = createWorkflow([
+      { id: 'a', loop: { steps: ['a', 'b'], maxLoops: 2 } },
+      { id: 'b', dependentSteps: ['a'] }
+    ])
+    expect(() => validateWorkflow(notLast)).toThrow('Loop of step "a" must list the step itself last')
+
+    const notDependency = createWorkflow([
+      { id: 'a', loop: { steps: ['b', 'a'], maxLoops: 2 } },
+      { id: 'b' }
+    ])
+    expect(() => validateWorkflow(notDependency)).toThrow('Loop of step "a" repeats step "b", which the step does not depend on')
+  })
+})
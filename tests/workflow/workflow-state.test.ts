@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { WorkflowStateManager } from '../../src/workflow/workflow-state'
+import type { Workflow } from '../../src/types/agent-session'
+import { WorkflowValidationError } from '../../src/types/agent-session'
+
+describe('WorkflowStateManager', () => {
+  let stateManager: WorkflowStateManager
+  let mockSession: any
+
+  beforeEach(() => {
+    mockSession = {
+      createResponse: vi.fn(),
+      _eventEmitter: {
+        emit: vi.fn()
+      }
+    }
+    stateManager = new WorkflowStateManager(mockSession)
+  })
+
+  describe('Step Dependencies', () => {
+    const workflow: Workflow = {
+      id: 'dependency-workflow',
+      steps: [
+        { id: 'report', prompt: 'Write the report', model: 'test-model', dependentSteps: ['analyze', 'search'] },
+        { id: 'analyze', prompt: 'Analyze results', model: 'test-model', dependentSteps: ['search'] },
+        { id: 'search', prompt: 'Search sources', model: 'test-model' }
+      ],
+      tools: []
+    }
+
+    it('should select steps only after their dependencies complete', async () => {
+      await stateManager.initializeState('Research topic', workflow, [])
+
+      expect(stateManager.findNextStep()?.id).toBe('search')
+      stateManager.handleStepCompletion('search', true, 'sources')
+
+      expect(stateManager.findNextStep()?.id).toBe('analyze')
+      stateManager.handleStepCompletion('analyze', true, 'analysis')
+
+      expect(stateManager.findNextStep()?.id).toBe('report')
+      stateManager.handleStepCompletion('report', true, 'report')
+
+      expect(stateManager.findNextStep()).toBeUndefined()
+    })
+
+    it('should not select steps whose dependencies exhausted their attempts', async () => {
+      await stateManager.initializeState('Research topic', workflow, [])
+
+      const searchState = stateManager.getStepState('search')
+      searchState.attempts = searchState.maxAttempts
+      stateManager.handleStepCompletion('search', false)
+
+      expect(stateManager.findNextStep()).toBeUndefined()
+    })
+
+    it('should treat a step as last only when no other steps are pending', async () => {
+      await stateManager.initializeState('Research topic', workflow, [])
+
+      expect(stateManager.isLastStep('search')).toBe(false)
+      stateManager.handleStepCompletion('search', true)
+      stateManager.handleStepCompletion('analyze', true)
+
+      expect(stateManager.isLastStep('report')).toBe(true)
+    })
+  })
+
+  describe('Parallel Steps', () => {
+    const workflow: Workflow = {
+      id: 'parallel-workflow',
+      maxConcurrency: 2,
+      steps: [
+        { id: 'weather', prompt: 'Get weather', model: 'test-model' },
+        { id: 'news', prompt: 'Get news', model: 'test-model' },
+        { id: 'summary', prompt: 'Summarize', model: 'test-model', dependentSteps: ['weather', 'news'] }
+      ],
+      tools: []
+    }
+
+    it('should find all steps whose dependencies are complete', async () => {
+      await stateManager.initializeState('Plan my day', workflow, [])
+
+      expect(stateManager.getState().maxConcurrency).toBe(2)
+      expect(stateManager.findReadySteps().map(step => step.id)).toEqual(['weather', 'news'])
+
+      stateManager.handleStepCompletion('weather', true)
+      stateManager.handleStepCompletion('news', true)
+      expect(stateManager.findReadySteps().map(step => step.id)).toEqual(['summary'])
+    })
+
+    it('should isolate memory branches and merge them in order', async () => {
+      await stateManager.initializeState('Plan my day', workflow, [])
+      stateManager.createMemoryBranch('weather')
+      stateManager.createMemoryBranch('news')
+
+      await stateManager.addMessagesToMemory([{ role: 'assistant', content: 'News result' }], true, 'news')
+      await stateManager.addMessagesToMemory([{ role: 'assistant', content: 'Weather result' }], true, 'weather')
+
+      const weatherView = await stateManager.getMessages('weather')
+      expect(weatherView.map(m => m.content)).not.toContain('News result')
+      expect(weatherView[weatherView.length - 1]?.content).toBe('Weather result')
+
+      await stateManager.mergeMemoryBranch('weather')
+      await stateManager.mergeMemoryBranch('news')
+
+      const messages = await stateManager.getMessages()
+      expect(messages.slice(-2).map(m => m.content)).toEqual(['Weather result', 'News result'])
+    })
+  })
+
+  describe('Branching', () => {
+    const workflow: Workflow = {
+      id: 'support-workflow',
+      steps: [
+        {
+          id: 'classify',
+          prompt: 'Classify the request',
+          model: 'test-model',
+          next: [
+            { stepId: 'refund', when: result => result.content === 'refund' },
+            { stepId: 'question' }
+          ]
+        },
+        { id: 'question', prompt: 'Answer the question', model: 'test-model' },
+        { id: 'refund', prompt: 'Process the refund', model: 'test-model' },
+        { id: 'reply', prompt: 'Reply to the customer', model: 'test-model', dependentSteps: ['question', 'refund'] }
+      ],
+      tools: []
+    }
+
+    it('should only run route targets selected by a branch decision', async () => {
+      await stateManager.initializeState('Refund please', workflow, [])
+
+      expect(stateManager.findNextStep()?.id).toBe('classify')
+      stateManager.handleStepCompletion('classify', true, 'refund')
+      expect(stateManager.findNextStep()).toBeUndefined()
+
+      stateManager.applyBranchDecision({
+        stepId: 'classify',
+        nextStepId: 'refund',
+        skippedStepIds: ['question'],
+        reason: 'predicate'
+      })
+
+      expect(stateManager.findNextStep()?.id).toBe('refund')
+      stateManager.handleStepCompletion('refund', true)
+
+      // Skipped steps count as resolved dependencies
+      expect(stateManager.findNextStep()?.id).toBe('reply')
+      expect(stateManager.isLastStep('reply')).toBe(true)
+      stateManager.handleStepCompletion('reply', true)
+
+      const state = stateManager.getState()
+      expect(state.path).toEqual(['classify', 'refund', 'reply'])
+      expect(state.skippedSteps.has('question')).toBe(true)
+      expect(state.branchDecisions).toHaveLength(1)
+    })
+  })
+  describe('Loops', () => {
+    const workflow: Workflow = {
+      id: 'loop-workflow',
+      steps: [
+        { id: 'search', prompt: 'Search', model: 'test-model' },
+        { id: 'review', prompt: 'Review', model: 'test-model', dependentSteps: ['search'], loop: { steps: ['search', 'review'], maxLoops: 3 } },
+        { id: 'report', prompt: 'Report', model: 'test-model', dependentSteps: ['review'] }
+      ],
+      tools: []
+    }
+
+    it('should re-enter loop steps with fresh step state', async () => {
+      await stateManager.initializeState('Research topic', workflow, [])
+
+      expect(stateManager.getLoopIndex('search')).toBe(0)
+      expect(stateManager.getLoopIndex('report')).toBeUndefined()
+
+      stateManager.getStepState('search').attempts = 2
+      stateManager.handleStepCompletion('search', true, 'sources')
+      stateManager.handleStepCompletion('review', true, 'not enough')
+
+      expect(stateManager.restartLoop('review')).toEqual(['search', 'review'])
+      expect(stateManager.getLoopIndex('search')).toBe(1)
+      expect(stateManager.getStepState('search')).toMatchObject({ complete: false, attempts: 0 })
+      expect(stateManager.getStepState('search').result).toBeUndefined()
+      expect(stateManager.findNextStep()?.id).toBe('search')
+
+      stateManager.handleStepCompletion('search', true)
+      stateManager.handleStepCompletion('review', true)
+      expect(stateManager.findNextStep()?.id).toBe('report')
+      expect(stateManager.getState().path).toEqual(['search', 'review', 'search', 'review'])
+    })
+
+    it('should reject restarting a step without a loop', async () => {
+      await stateManager.initializeState('Research topic', workflow, [])
+      expect(() => stateManager.restartLoop('search')).toThrow('Step does not own a loop')
+    })
+  })
+
+  describe('Snapshots', () => {
+    const workflow: Workflow = {
+      id: 'snapshot-workflow',
+      steps: [
+        { id: 'search', prompt: 'Search', model: 'test-model' },
+        { id: 'report', prompt: 'Report', model: 'test-model', dependentSteps: ['search'] }
+      ],
+      tools: []
+    }
+
+    it('should restore state and memory from a serialized snapshot', async () => {
+      await stateManager.initializeState('Research topic', workflow, [])
+      stateManager.getStepState('search').attempts = 1
+      stateManager.handleStepCompletion('search', true, 'sources')
+      stateManager.addToolResult('search', { name: 'web_search', description: 'Search the web', result: '3 hits' })
+      await stateManager.addMessagesToMemory([{ role: 'assistant', content: 'Found sources' }], true)
+      stateManager.createCheckpoint('after-search')
+      stateManager.getState().iteration = 2
+
+      const snapshot = JSON.parse(JSON.stringify(stateManager.createSnapshot()))
+      const restored = new WorkflowStateManager(mockSession)
+      restored.restoreState(snapshot, workflow, [])
+
+      const state = restored.getState()
+      expect(state.iteration).toBe(2)
+      expect(state.completedSteps).toEqual(new Set(['search']))
+      expect(state.path).toEqual(['search'])
+      expect(state.steps.search).toMatchObject({ complete: true, attempts: 1, result: 'sources' })
+      expect(state.toolResults).toEqual(stateManager.getToolResults())
+      expect(restored.findNextStep()?.id).toBe('report')
+      expect(await restored.getMessages()).toEqual(await stateManager.getMessages())
+
+      await restored.addMessagesToMemory([{ role: 'assistant', content: 'Draft' }], true)
+      restored.rollbackToCheckpoint('after-search')
+      expect(await restored.getMessages()).toEqual(await stateManager.getMessages())
+    })
+
+    it('should count the time spent before the snapshot towards the timeout', async () => {
+      await stateManager.initializeState('Research topic', workflow, [])
+      const snapshot = { ...stateManager.createSnapshot(), elapsedMs: 30000 }
+
+      stateManager.restoreState(snapshot, workflow, [])
+      expect(Date.now() - stateManager.getState().startTime).toBeGreaterThanOrEqual(30000)
+    })
+
+    it('should reject a snapshot of another workflow', async () => {
+      await stateManager.initializeState('Research topic', workflow, [])
+      const snapshot = stateManager.createSnapshot()
+
+      expect(() => stateManager.restoreState(snapshot, { ...workflow, id: 'other-workflow' }, []))
+        .toThrow(WorkflowValidationError)
+      expect(() => stateManager.restoreState(snapshot, { ...workflow, id: 'other-workflow' }, []))
+        .toThrow('Snapshot of workflow "snapshot-workflow" cannot be resumed as "other-workflow"')
+    })
+  })
+})
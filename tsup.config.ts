@@ -15,7 +15,7 @@ export default defineConfig({
   target: 'es2022',
   platform: 'browser',
   outDir: 'dist',
-  external: ['@huggingface/transformers'],
+  external: ['@huggingface/transformers', 'node:fs/promises', 'node:path'],
   noExternal: [],
 });
 